@@ -0,0 +1,294 @@
+/**
+ * Command-line interface for bullet-mcp
+ * Lints bullet lists in Markdown files with the same rules as the MCP tool
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import { parseArgs } from 'util';
+import { Chalk } from 'chalk';
+import type { BulletConfig, Context, DocumentAnalysis, Rule, ValidationIssue } from './types.js';
+import { CONTEXTS } from './contexts.js';
+import { loadCustomRules } from './rules.js';
+import { BulletServer } from './server.js';
+
+/**
+ * Process exit codes
+ */
+export const EXIT_CODES = {
+  /** All lists passed */
+  OK: 0,
+  /** At least one list has errors or scored below --min-score */
+  FAILED: 1,
+  /** Bad arguments, unreadable files or invalid custom rules */
+  USAGE: 2,
+} as const;
+
+/** File extensions scanned when a directory is given */
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+
+/** Directories never descended into */
+const IGNORED_DIRECTORIES = new Set(['node_modules']);
+
+const USAGE = `Usage: bullet-mcp check <files, directories or globs...> [options]
+
+Score every bullet list in Markdown files against evidence-based rules.
+Run without arguments to start the MCP server on stdio.
+
+Options:
+  --format <text|json>   Output format (default: text)
+  --min-score <0-100>    Fail when any list scores below this (default: 0)
+  --context <context>    document, presentation, reference, email, chat, slide,
+                         changelog or executive-summary (default: document)
+  -h, --help             Show this help
+
+Exit codes:
+  0  All lists passed
+  1  A list has errors or scored below --min-score
+  2  Invalid arguments, unreadable files or invalid custom rules`;
+
+/**
+ * Result for a single checked file
+ */
+export interface FileResult {
+  /** Path relative to the working directory */
+  path: string;
+  /** Document analysis for the file */
+  analysis: DocumentAnalysis;
+}
+
+// ============================================================================
+// Path Expansion
+// ============================================================================
+
+/**
+ * Convert a glob pattern (*, **, ?) into a regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      i++;
+      if (pattern[i + 1] === '/') {
+        i++;
+        source += '(?:.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Recursively list files under a directory, skipping hidden and vendored folders
+ */
+function walk(dir: string, files: string[] = []): string[] {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.has(entry.name)) continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      walk(path, files);
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Expand file, directory and glob arguments into a sorted list of files
+ */
+export function expandPaths(patterns: string[], cwd: string): string[] {
+  const found = new Set<string>();
+  const toPosix = (path: string) => path.split('\\').join('/');
+
+  for (const pattern of patterns) {
+    const normalized = toPosix(pattern).replace(/^\.\//, '');
+
+    if (!/[*?]/.test(normalized)) {
+      const path = resolve(cwd, normalized);
+      if (!existsSync(path)) {
+        throw new Error(`No such file or directory: ${pattern}`);
+      }
+      if (statSync(path).isDirectory()) {
+        walk(path)
+          .filter((file) => MARKDOWN_EXTENSIONS.some((ext) => file.endsWith(ext)))
+          .forEach((file) => found.add(file));
+      } else {
+        found.add(path);
+      }
+      continue;
+    }
+
+    // Walk from the deepest directory without wildcards
+    const segments = normalized.split('/');
+    const firstWild = segments.findIndex((segment) => /[*?]/.test(segment));
+    const base = resolve(cwd, segments.slice(0, firstWild).join('/') || '.');
+    const matcher = globToRegExp(toPosix(relative(cwd, resolve(cwd, normalized))));
+
+    const matches = existsSync(base)
+      ? walk(base).filter((file) => matcher.test(toPosix(relative(cwd, file))))
+      : [];
+    if (matches.length === 0) {
+      throw new Error(`No files matching: ${pattern}`);
+    }
+    matches.forEach((file) => found.add(file));
+  }
+
+  return [...found].sort();
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+/**
+ * Check whether a list analysis fails the thresholds
+ */
+function listFails(analysis: { overall_score: number; errors: ValidationIssue[] }, minScore: number): boolean {
+  return analysis.overall_score < minScore || analysis.errors.length > 0;
+}
+
+/**
+ * Render results as human-readable text
+ */
+function formatText(results: FileResult[], minScore: number, chalk: InstanceType<typeof Chalk>): string {
+  const lines: string[] = [];
+  let listCount = 0;
+  let failedCount = 0;
+  let errorCount = 0;
+  let warningCount = 0;
+
+  for (const { path, analysis } of results) {
+    if (analysis.list_count === 0) continue;
+    lines.push(chalk.underline(path));
+
+    for (const list of analysis.lists) {
+      const result = list.analysis;
+      const failed = listFails(result, minScore);
+      const score = `${result.overall_score} ${result.grade}`;
+      listCount++;
+      if (failed) failedCount++;
+
+      lines.push(
+        `  ${chalk.dim(`${list.location.line}:${list.location.column}`)}  ${result.title}  ${failed ? chalk.red(score) : chalk.green(score)}`
+      );
+
+      const issues = [
+        ...result.errors.map((issue) => ({ issue, label: chalk.red('error') })),
+        ...result.warnings.map((issue) => ({ issue, label: chalk.yellow('warning') })),
+      ];
+      for (const { issue, label } of issues) {
+        const position = issue.line !== undefined ? `${issue.line}:${issue.column}` : '';
+        lines.push(`    ${chalk.dim(position.padEnd(7))}${label}  ${issue.message}  ${chalk.dim(issue.rule)}`);
+      }
+
+      errorCount += result.errors.length;
+      warningCount += result.warnings.length;
+    }
+    lines.push('');
+  }
+
+  const totals = `${results.length} file(s), ${listCount} list(s): ${errorCount} error(s), ${warningCount} warning(s)`;
+  if (failedCount > 0) {
+    const threshold = minScore > 0 ? ` (min score ${minScore})` : '';
+    lines.push(chalk.red(`✖ ${failedCount} list(s) failed${threshold} - ${totals}`));
+  } else {
+    lines.push(chalk.green(`✔ All lists passed - ${totals}`));
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+/**
+ * Run the `check` command and return the process exit code
+ */
+export async function runCli(
+  argv: string[],
+  config: BulletConfig,
+  write: (text: string) => void = (text) => process.stdout.write(text),
+  cwd: string = process.cwd()
+): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', default: 'text' },
+        'min-score': { type: 'string', default: '0' },
+        context: { type: 'string', default: 'document' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}\n`);
+    return EXIT_CODES.USAGE;
+  }
+
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    write(`${USAGE}\n`);
+    return EXIT_CODES.OK;
+  }
+
+  const minScore = Number(values['min-score']);
+  const usageError = (message: string) => {
+    write(`${message}\n\n${USAGE}\n`);
+    return EXIT_CODES.USAGE;
+  };
+
+  if (positionals.length === 0) {
+    return usageError('No files given');
+  }
+  if (values.format !== 'text' && values.format !== 'json') {
+    return usageError(`Unknown format "${values.format}" (expected text or json)`);
+  }
+  if (!Number.isFinite(minScore) || minScore < 0 || minScore > 100) {
+    return usageError(`--min-score must be a number from 0 to 100, got "${values['min-score']}"`);
+  }
+  if (!CONTEXTS.includes(values.context as Context)) {
+    return usageError(`Unknown context "${values.context}" (expected ${CONTEXTS.join(', ')})`);
+  }
+
+  const results: FileResult[] = [];
+  try {
+    const customRules: Rule[] = await loadCustomRules(config.customRules);
+    const server = new BulletServer(config, customRules);
+    for (const file of expandPaths(positionals, cwd)) {
+      results.push({
+        path: relative(cwd, file),
+        analysis: server.scanDocument(readFileSync(file, 'utf8'), values.context as Context),
+      });
+    }
+  } catch (error) {
+    write(`${error instanceof Error ? error.message : String(error)}\n`);
+    return EXIT_CODES.USAGE;
+  }
+
+  const passed = results.every(({ analysis }) =>
+    analysis.lists.every((list) => !listFails(list.analysis, minScore))
+  );
+
+  if (values.format === 'json') {
+    write(`${JSON.stringify({ passed, min_score: minScore, files: results }, null, 2)}\n`);
+  } else {
+    const chalk = config.display.colorOutput ? new Chalk() : new Chalk({ level: 0 });
+    write(`${formatText(results, minScore, chalk)}\n`);
+  }
+
+  return passed ? EXIT_CODES.OK : EXIT_CODES.FAILED;
+}
@@ -0,0 +1,234 @@
+/**
+ * Draft comparison for bullet-mcp
+ * Diffs two analyses rule by rule and matches their issues by rule and item
+ * text, so reordering items does not turn an old issue into a new one
+ */
+
+import type {
+  BulletAnalysis,
+  BulletItem,
+  CompareResult,
+  IssueChange,
+  RuleDelta,
+  SectionComparison,
+  ValidationIssue,
+} from './types.js';
+import { itemAt } from './utils.js';
+
+/**
+ * Issues of one list together with the items they refer to
+ */
+export interface IssueList {
+  /** Section title (sectioned mode only) */
+  section?: string;
+  items: BulletItem[];
+  issues: ValidationIssue[];
+}
+
+/**
+ * One analyzed draft
+ */
+export interface Draft {
+  analysis: BulletAnalysis;
+  lists: IssueList[];
+}
+
+/**
+ * An issue with the text of its item resolved
+ */
+interface KeyedIssue {
+  issue: ValidationIssue;
+  section?: string;
+  itemText?: string;
+  key: string;
+  /** Message with numbers removed, so "Item 2" and "Item 4" compare equal */
+  template: string;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Normalize item text for matching: case and whitespace are ignored
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Key every issue of a draft by section, rule and item text
+ */
+function keyIssues(lists: IssueList[]): KeyedIssue[] {
+  return lists.flatMap((list) =>
+    list.issues.map((issue) => {
+      const itemText = issue.path === undefined ? undefined : itemAt(list.items, issue.path)?.text;
+      return {
+        issue,
+        section: list.section,
+        itemText,
+        key: [list.section ?? '', issue.rule, itemText === undefined ? '' : normalizeText(itemText)].join('\u0000'),
+        template: issue.message.replace(/\d+(\.\d+)?/g, '#'),
+      };
+    })
+  );
+}
+
+/**
+ * Describe a keyed issue, taking positions from whichever drafts have it
+ */
+function toChange(issue: KeyedIssue, before?: KeyedIssue, after?: KeyedIssue): IssueChange {
+  const change: IssueChange = {
+    rule: issue.issue.rule,
+    severity: issue.issue.severity,
+    message: issue.issue.message,
+  };
+  if (before && after && before.issue.severity !== after.issue.severity) {
+    change.severity_before = before.issue.severity;
+  }
+  if (issue.section !== undefined) change.section = issue.section;
+  if (issue.itemText !== undefined) change.item_text = issue.itemText;
+  if (before?.issue.item_index !== undefined) change.item_index_before = before.issue.item_index;
+  if (after?.issue.item_index !== undefined) change.item_index_after = after.issue.item_index;
+  if (before?.issue.path !== undefined) change.path_before = before.issue.path;
+  if (after?.issue.path !== undefined) change.path_after = after.issue.path;
+  return change;
+}
+
+/**
+ * Match issues between drafts
+ * Issues with the same key pair up, those with the same message template first
+ */
+function matchIssues(
+  before: KeyedIssue[],
+  after: KeyedIssue[]
+): Pick<CompareResult, 'resolved' | 'introduced' | 'unchanged'> {
+  const pairs = new Map<KeyedIssue, KeyedIssue>();
+  const unmatched = new Set(before);
+
+  for (const sameTemplate of [true, false]) {
+    for (const later of after) {
+      if ([...pairs.values()].includes(later)) continue;
+      const earlier = [...unmatched].find(
+        (candidate) => candidate.key === later.key && (!sameTemplate || candidate.template === later.template)
+      );
+      if (earlier) {
+        pairs.set(earlier, later);
+        unmatched.delete(earlier);
+      }
+    }
+  }
+
+  const matched = new Map([...pairs.entries()].map(([earlier, later]) => [later, earlier]));
+  return {
+    resolved: before.filter((issue) => unmatched.has(issue)).map((issue) => toChange(issue, issue)),
+    introduced: after.filter((issue) => !matched.has(issue)).map((issue) => toChange(issue, undefined, issue)),
+    unchanged: after
+      .filter((issue) => matched.has(issue))
+      .map((issue) => toChange(issue, matched.get(issue), issue)),
+  };
+}
+
+/**
+ * Points change for every rule scored in either draft
+ */
+function compareRules(before: BulletAnalysis, after: BulletAnalysis): RuleDelta[] {
+  const rules = [...new Set([...before.scores, ...after.scores].map((score) => score.rule))];
+  return rules.map((rule) => {
+    const earlier = before.scores.find((score) => score.rule === rule);
+    const later = after.scores.find((score) => score.rule === rule);
+    const earnedBefore = earlier?.earned_points ?? 0;
+    const earnedAfter = later?.earned_points ?? 0;
+    return {
+      rule,
+      max_points: later?.max_points ?? earlier!.max_points,
+      earned_before: earnedBefore,
+      earned_after: earnedAfter,
+      delta: round1(earnedAfter - earnedBefore),
+    };
+  });
+}
+
+/**
+ * Per-section scores and issue changes, matching sections by title
+ */
+function compareSections(
+  before: BulletAnalysis,
+  after: BulletAnalysis,
+  issues: Pick<CompareResult, 'resolved' | 'introduced' | 'unchanged'>
+): SectionComparison[] {
+  const earlier = before.section_scores ?? [];
+  const later = after.section_scores ?? [];
+  const unmatched = [...earlier];
+
+  const forSection = (title: string) => ({
+    resolved: issues.resolved.filter((issue) => issue.section === title),
+    introduced: issues.introduced.filter((issue) => issue.section === title),
+    unchanged: issues.unchanged.filter((issue) => issue.section === title),
+  });
+
+  const comparisons: SectionComparison[] = later.map((section) => {
+    const match = unmatched.find((candidate) => candidate.title === section.title);
+    if (!match) {
+      return {
+        title: section.title,
+        status: 'added',
+        score_after: section.score,
+        grade_after: section.grade,
+        ...forSection(section.title),
+      };
+    }
+    unmatched.splice(unmatched.indexOf(match), 1);
+    return {
+      title: section.title,
+      status: 'matched',
+      score_before: match.score,
+      score_after: section.score,
+      score_delta: section.score - match.score,
+      grade_before: match.grade,
+      grade_after: section.grade,
+      ...forSection(section.title),
+    };
+  });
+
+  for (const section of unmatched) {
+    comparisons.push({
+      title: section.title,
+      status: 'removed',
+      score_before: section.score,
+      grade_before: section.grade,
+      ...forSection(section.title),
+    });
+  }
+
+  return comparisons;
+}
+
+/**
+ * Compare two analyzed drafts
+ */
+export function compareDrafts(before: Draft, after: Draft): CompareResult {
+  const issues = matchIssues(keyIssues(before.lists), keyIssues(after.lists));
+  const scoreDelta = after.analysis.overall_score - before.analysis.overall_score;
+
+  const result: CompareResult = {
+    score_before: before.analysis.overall_score,
+    score_after: after.analysis.overall_score,
+    score_delta: scoreDelta,
+    grade_before: before.analysis.grade,
+    grade_after: after.analysis.grade,
+    rules: compareRules(before.analysis, after.analysis),
+    ...issues,
+    summary:
+      `Score ${before.analysis.overall_score} → ${after.analysis.overall_score} ` +
+      `(${scoreDelta >= 0 ? '+' : ''}${scoreDelta}), grade ${before.analysis.grade} → ${after.analysis.grade}. ` +
+      `${issues.resolved.length} issue(s) resolved, ${issues.introduced.length} introduced, ` +
+      `${issues.unchanged.length} unchanged.`,
+  };
+
+  if (before.analysis.section_scores || after.analysis.section_scores) {
+    result.sections = compareSections(before.analysis, after.analysis, issues);
+  }
+
+  return result;
+}
@@ -0,0 +1,242 @@
+/**
+ * Wordiness detection for bullet-mcp
+ * Finds filler phrases, redundant pairs and nominalizations ("make a decision")
+ * and proposes the tighter wording for each
+ */
+
+/**
+ * Kind of wordy phrase
+ */
+export type WordinessKind = 'filler' | 'redundancy' | 'nominalization';
+
+/**
+ * A wordy phrase found in an item
+ */
+export interface Wordiness {
+  kind: WordinessKind;
+  /** Phrase as written in the item */
+  phrase: string;
+  /** Tighter wording; empty when the phrase can simply be dropped */
+  rewrite: string;
+  /** Character offset of the phrase */
+  start: number;
+  /** Character offset just past the phrase */
+  end: number;
+}
+
+/**
+ * Filler phrases and what to say instead ('' = drop)
+ */
+const FILLER_PHRASES: Record<string, string> = {
+  'it is important to note that': '',
+  'it should be noted that': '',
+  'needless to say': '',
+  'as a matter of fact': '',
+  'at the end of the day': '',
+  'for all intents and purposes': '',
+  'in spite of the fact that': 'although',
+  'due to the fact that': 'because',
+  'owing to the fact that': 'because',
+  'in light of the fact that': 'because',
+  'at this point in time': 'now',
+  'at the present time': 'now',
+  'in the event that': 'if',
+  'in order to': 'to',
+  'so as to': 'to',
+  'for the purpose of': 'for',
+  'with regard to': 'about',
+  'with respect to': 'about',
+  'in terms of': 'for',
+  'a large number of': 'many',
+  'the majority of': 'most',
+  'has the ability to': 'can',
+  'have the ability to': 'can',
+  'is able to': 'can',
+  'are able to': 'can',
+  'in the process of': '',
+  'prior to': 'before',
+  'basically': '',
+  'actually': '',
+  'really': '',
+  'very': '',
+  'quite': '',
+  'simply': '',
+  'essentially': '',
+  'literally': '',
+};
+
+/**
+ * Redundant pairs and the word that carries their meaning
+ */
+const REDUNDANT_PAIRS: Record<string, string> = {
+  'each and every': 'each',
+  'first and foremost': 'first',
+  'any and all': 'all',
+  'true and accurate': 'accurate',
+  'end result': 'result',
+  'final outcome': 'outcome',
+  'past history': 'history',
+  'future plans': 'plans',
+  'advance planning': 'planning',
+  'basic fundamentals': 'fundamentals',
+  'close proximity': 'proximity',
+  'completely eliminate': 'eliminate',
+  'absolutely essential': 'essential',
+  'added bonus': 'bonus',
+  'unexpected surprise': 'surprise',
+  'new innovation': 'innovation',
+  'general consensus': 'consensus',
+  'various different': 'various',
+  'period of time': 'period',
+  'combine together': 'combine',
+  'join together': 'join',
+  'collaborate together': 'collaborate',
+  'repeat again': 'repeat',
+  'revert back': 'revert',
+};
+
+/**
+ * Nouns hidden behind light verbs, with the verb to use instead
+ */
+const NOMINALIZATIONS: Record<string, string> = {
+  decision: 'decide',
+  analysis: 'analyze',
+  investigation: 'investigate',
+  assistance: 'help',
+  consideration: 'consider',
+  improvement: 'improve',
+  improvements: 'improve',
+  conclusion: 'conclude',
+  evaluation: 'evaluate',
+  recommendation: 'recommend',
+  recommendations: 'recommend',
+  discussion: 'discuss',
+  assessment: 'assess',
+  installation: 'install',
+  implementation: 'implement',
+  adjustment: 'adjust',
+  adjustments: 'adjust',
+  comparison: 'compare',
+  reduction: 'reduce',
+  selection: 'select',
+  measurement: 'measure',
+  examination: 'examine',
+  contribution: 'contribute',
+  correction: 'correct',
+  modification: 'modify',
+  modifications: 'modify',
+  determination: 'determine',
+  prediction: 'predict',
+  preparation: 'prepare',
+  review: 'review',
+  payment: 'pay',
+};
+
+/**
+ * Light verbs, in every form, that turn a verb into a noun phrase
+ */
+const LIGHT_VERBS = [
+  'make', 'makes', 'made', 'making',
+  'perform', 'performs', 'performed', 'performing',
+  'conduct', 'conducts', 'conducted', 'conducting',
+  'provide', 'provides', 'provided', 'providing',
+  'give', 'gives', 'gave', 'given', 'giving',
+  'carry out', 'carries out', 'carried out', 'carrying out',
+  'do', 'does', 'did', 'done', 'doing',
+  'take', 'takes', 'took', 'taken', 'taking',
+  'reach', 'reaches', 'reached', 'reaching',
+  'undertake', 'undertakes', 'undertook', 'undertaking',
+];
+
+/**
+ * Regex source for a phrase, matching any run of whitespace between words
+ */
+function escape(phrase: string): string {
+  return phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+}
+
+/** Longest phrases first so "due to the fact that" wins over shorter overlaps */
+function phrasePattern(phrases: string[]): RegExp {
+  const sorted = [...phrases].sort((a, b) => b.length - a.length);
+  return new RegExp(`\\b(${sorted.map(escape).join('|')})\\b`, 'gi');
+}
+
+const FILLER_PATTERN = phrasePattern(Object.keys(FILLER_PHRASES));
+const REDUNDANT_PATTERN = phrasePattern(Object.keys(REDUNDANT_PAIRS));
+const NOMINALIZATION_PATTERN = new RegExp(
+  `\\b(${[...LIGHT_VERBS].sort((a, b) => b.length - a.length).map(escape).join('|')})` +
+    `\\s+(?:(?:a|an|the|some)\\s+)?(${Object.keys(NOMINALIZATIONS).join('|')})(?:\\s+(?:of|to|for))?\\b`,
+  'gi'
+);
+
+/**
+ * Find every wordy phrase in an item, in text order
+ * Overlapping matches keep the one that starts first
+ */
+export function findWordiness(text: string): Wordiness[] {
+  const found: Wordiness[] = [];
+  const lookup = (table: Record<string, string>, phrase: string) =>
+    table[phrase.toLowerCase().replace(/\s+/g, ' ')] ?? '';
+
+  for (const match of text.matchAll(NOMINALIZATION_PATTERN)) {
+    found.push({
+      kind: 'nominalization',
+      phrase: match[0],
+      rewrite: NOMINALIZATIONS[match[2].toLowerCase()],
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  for (const match of text.matchAll(REDUNDANT_PATTERN)) {
+    found.push({
+      kind: 'redundancy',
+      phrase: match[0],
+      rewrite: lookup(REDUNDANT_PAIRS, match[0]),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  for (const match of text.matchAll(FILLER_PATTERN)) {
+    found.push({
+      kind: 'filler',
+      phrase: match[0],
+      rewrite: lookup(FILLER_PHRASES, match[0]),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+
+  const kept: Wordiness[] = [];
+  for (const entry of found.sort((a, b) => a.start - b.start || b.end - a.end)) {
+    if (!kept.some((earlier) => entry.start < earlier.end)) kept.push(entry);
+  }
+  return kept;
+}
+
+/**
+ * Apply every rewrite to an item, keeping its first letter's case
+ */
+export function tighten(text: string, found: Wordiness[] = findWordiness(text)): string {
+  let result = text;
+  for (const { start, end, rewrite } of [...found].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, start) + rewrite + result.slice(end);
+  }
+  result = result
+    .replace(/\s{2,}/g, ' ')
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .replace(/^[\s,;:]+/, '')
+    .trim();
+
+  const first = text.trim()[0];
+  if (first && first === first.toUpperCase() && first !== first.toLowerCase()) {
+    result = result.charAt(0).toUpperCase() + result.slice(1);
+  }
+  return result;
+}
+
+/**
+ * Number of words in an item
+ */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
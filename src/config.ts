@@ -2,7 +2,10 @@
  * Configuration management for bullet-mcp
  */
 
-import type { BulletConfig } from './types.js';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import type { BulletConfig, ResolvedRules, Rule, RuleId, RuleOverride, RulesConfig, Severity } from './types.js';
+import { BUILT_IN_RULES } from './rules.js';
 
 /**
  * Default configuration values
@@ -18,15 +21,291 @@ export const DEFAULT_CONFIG: BulletConfig = {
 };
 
 /**
- * Load configuration from environment variables
- * Environment variables override default values
+ * Config file names searched for, in order, from the working directory upwards
  */
-export function loadConfig(): BulletConfig {
+export const CONFIG_FILE_NAMES = ['.bulletrc.json', 'bullet.config.json'] as const;
+
+/**
+ * Default point weight and thresholds for each built-in rule
+ */
+export const DEFAULT_RULES: ResolvedRules = Object.fromEntries(
+  BUILT_IN_RULES.map((rule) => [
+    rule.id,
+    { enabled: true, points: rule.points, thresholds: { ...rule.thresholds } },
+  ])
+);
+
+/**
+ * Thresholds that must be in non-decreasing order for each rule
+ */
+export const THRESHOLD_ORDER: Partial<Record<RuleId, string[]>> = {
+  LIST_LENGTH: ['MIN_ITEMS', 'OPTIMAL_ITEMS', 'MAX_ITEMS', 'HARD_MAX_ITEMS'],
+  HIERARCHY: ['MAX_DEPTH', 'HARD_MAX_DEPTH'],
+  LINE_LENGTH: ['MIN_CHARS', 'OPTIMAL_MIN_CHARS', 'OPTIMAL_CHARS', 'OPTIMAL_MAX_CHARS', 'HARD_MAX_CHARS'],
+  READABILITY: ['LOW_LITERACY_GRADE', 'GENERAL_GRADE', 'EXPERT_GRADE'],
+};
+
+const SEVERITIES: Severity[] = ['error', 'warning', 'suggestion'];
+
+// ============================================================================
+// Config File
+// ============================================================================
+
+/**
+ * Find the config file to use
+ * BULLET_CONFIG wins; otherwise search the working directory and its parents
+ */
+export function findConfigFile(cwd: string = process.cwd()): string | undefined {
+  if (process.env.BULLET_CONFIG) {
+    const path = resolve(cwd, process.env.BULLET_CONFIG);
+    if (!existsSync(path)) {
+      throw new Error(`Config file not found: ${path} (from BULLET_CONFIG)`);
+    }
+    return path;
+  }
+
+  let dir = resolve(cwd);
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const path = join(dir, name);
+      if (existsSync(path)) return path;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Check a parsed config file and return it typed
+ * Collects every problem so users can fix them in one pass
+ */
+export function validateConfigFile(raw: unknown, source: string): Partial<BulletConfig> {
+  const problems: string[] = [];
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  const checkKeys = (obj: Record<string, unknown>, allowed: readonly string[], path: string) => {
+    for (const key of Object.keys(obj)) {
+      if (!allowed.includes(key)) {
+        problems.push(`${path}${key} is not a known option (expected one of: ${allowed.join(', ')})`);
+      }
+    }
+  };
+
+  const checkBooleans = (value: unknown, keys: string[], path: string) => {
+    if (value === undefined) return;
+    if (!isObject(value)) {
+      problems.push(`${path} must be an object`);
+      return;
+    }
+    checkKeys(value, keys, `${path}.`);
+    for (const key of keys) {
+      if (value[key] !== undefined && typeof value[key] !== 'boolean') {
+        problems.push(`${path}.${key} must be true or false`);
+      }
+    }
+  };
+
+  if (!isObject(raw)) {
+    throw new Error(`Invalid config in ${source}: expected a JSON object`);
+  }
+
+  checkKeys(raw, ['$schema', 'validation', 'display', 'rules', 'customRules'], '');
+  checkBooleans(raw.validation, ['strictMode', 'enableResearchCitations'], 'validation');
+  checkBooleans(raw.display, ['colorOutput'], 'display');
+
+  let customRules: string[] | undefined;
+  if (raw.customRules !== undefined) {
+    if (
+      !Array.isArray(raw.customRules) ||
+      raw.customRules.some((path) => typeof path !== 'string' || path.trim().length === 0)
+    ) {
+      problems.push('customRules must be an array of module paths');
+    } else {
+      customRules = raw.customRules as string[];
+    }
+  }
+
+  const rules: RulesConfig = {};
+  if (raw.rules !== undefined) {
+    if (!isObject(raw.rules)) {
+      problems.push('rules must be an object');
+    } else {
+      const ruleIds = Object.keys(DEFAULT_RULES);
+      // Custom rule ids are only known once their modules load (checked by resolveRules)
+      if (!customRules) {
+        checkKeys(raw.rules, ruleIds, 'rules.');
+      }
+
+      for (const [id, value] of Object.entries(raw.rules)) {
+        if (!ruleIds.includes(id) && !customRules) continue;
+        const path = `rules.${id}`;
+
+        // Shorthand: "RULE": false disables, true keeps defaults
+        if (typeof value === 'boolean') {
+          rules[id] = { enabled: value };
+          continue;
+        }
+        if (!isObject(value)) {
+          problems.push(`${path} must be true, false or an object`);
+          continue;
+        }
+
+        checkKeys(value, ['enabled', 'points', 'severity', 'thresholds'], `${path}.`);
+        const override: RuleOverride = {};
+
+        if (value.enabled !== undefined) {
+          if (typeof value.enabled !== 'boolean') problems.push(`${path}.enabled must be true or false`);
+          else override.enabled = value.enabled;
+        }
+        if (value.points !== undefined) {
+          if (typeof value.points !== 'number' || !Number.isFinite(value.points) || value.points < 0) {
+            problems.push(`${path}.points must be a number >= 0`);
+          } else {
+            override.points = value.points;
+          }
+        }
+        if (value.severity !== undefined) {
+          if (!SEVERITIES.includes(value.severity as Severity)) {
+            problems.push(`${path}.severity must be one of: ${SEVERITIES.join(', ')}`);
+          } else {
+            override.severity = value.severity as Severity;
+          }
+        }
+        if (value.thresholds !== undefined) {
+          const known = DEFAULT_RULES[id] ? Object.keys(DEFAULT_RULES[id].thresholds) : undefined;
+          if (!isObject(value.thresholds)) {
+            problems.push(`${path}.thresholds must be an object`);
+          } else if (known?.length === 0) {
+            problems.push(`${path} has no configurable thresholds`);
+          } else {
+            if (known) {
+              checkKeys(value.thresholds, known, `${path}.thresholds.`);
+            }
+            override.thresholds = {};
+            for (const [key, threshold] of Object.entries(value.thresholds)) {
+              if (known && !known.includes(key)) continue;
+              if (typeof threshold !== 'number' || !Number.isInteger(threshold) || threshold < 0) {
+                problems.push(`${path}.thresholds.${key} must be a whole number >= 0`);
+              } else {
+                override.thresholds[key] = threshold;
+              }
+            }
+          }
+        }
+
+        rules[id] = override;
+      }
+    }
+  }
+
+  if (problems.length === 0 && !customRules) {
+    try {
+      resolveRules(rules);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid config in ${source}:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+  }
+
+  return {
+    validation: raw.validation as BulletConfig['validation'] | undefined,
+    display: raw.display as BulletConfig['display'] | undefined,
+    rules,
+    customRules,
+  };
+}
+
+/**
+ * Read and validate a config file
+ */
+export function readConfigFile(path: string): Partial<BulletConfig> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read config ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return validateConfigFile(raw, path);
+}
+
+/**
+ * Merge rule overrides over rule defaults and check threshold ordering
+ * Pass the registered rules when custom rules are in use
+ */
+export function resolveRules(rules: RulesConfig = {}, available: readonly Rule[] = BUILT_IN_RULES): ResolvedRules {
+  const resolved: ResolvedRules = {};
+
+  for (const id of Object.keys(rules)) {
+    if (!available.some((rule) => rule.id === id)) {
+      throw new Error(`rules.${id} does not match any built-in or custom rule`);
+    }
+  }
+
+  for (const rule of available) {
+    const defaults = rule.thresholds ?? {};
+    const override = rules[rule.id] ?? {};
+
+    for (const key of Object.keys(override.thresholds ?? {})) {
+      if (!(key in defaults)) {
+        throw new Error(`rules.${rule.id}.thresholds.${key} is not a threshold of ${rule.id}`);
+      }
+    }
+
+    resolved[rule.id] = {
+      enabled: override.enabled ?? true,
+      points: override.points ?? rule.points,
+      severity: override.severity,
+      thresholds: { ...defaults, ...override.thresholds },
+    };
+
+    const order = THRESHOLD_ORDER[rule.id as RuleId];
+    if (order) {
+      const values = order.map((key) => resolved[rule.id].thresholds[key]);
+      if (values.some((value, i) => i > 0 && value < values[i - 1])) {
+        throw new Error(
+          `rules.${rule.id}.thresholds must satisfy ${order.join(' <= ')} (got ${values.join(', ')})`
+        );
+      }
+    }
+  }
+
+  if (Object.values(resolved).every((rule) => !rule.enabled || rule.points === 0)) {
+    throw new Error('At least one rule must be enabled with points > 0');
+  }
+
+  return resolved;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load configuration from the project config file and environment variables
+ * Precedence: environment variables > config file > default values
+ */
+export function loadConfig(cwd: string = process.cwd()): BulletConfig {
   const config: BulletConfig = {
     validation: { ...DEFAULT_CONFIG.validation },
     display: { ...DEFAULT_CONFIG.display },
   };
 
+  // BULLET_CONFIG or .bulletrc.json / bullet.config.json
+  const configPath = findConfigFile(cwd);
+  if (configPath) {
+    const fileConfig = readConfigFile(configPath);
+    Object.assign(config.validation, fileConfig.validation);
+    Object.assign(config.display, fileConfig.display);
+    config.rules = fileConfig.rules;
+    // Module paths are relative to the config file
+    config.customRules = fileConfig.customRules?.map((path) => resolve(dirname(configPath), path));
+  }
+
   // BULLET_STRICT_MODE - Treat warnings as errors
   if (process.env.BULLET_STRICT_MODE === 'true') {
     config.validation.strictMode = true;
@@ -22,6 +22,22 @@ export const LIST_LENGTH = {
   POINTS: 20,
 } as const;
 
+/**
+ * Similarity weights used when splitting an oversized list into groups
+ * Items are grouped by the content words they share, then by a common first
+ * word, then by a matching grammar pattern
+ */
+export const LIST_GROUPING = {
+  /** Weight of shared content words (Jaccard overlap, 0-1) */
+  LEXICAL_WEIGHT: 1,
+  /** Bonus for items that start with the same word */
+  LEADING_TERM_WEIGHT: 0.5,
+  /** Bonus for items with the same grammar pattern */
+  PATTERN_WEIGHT: 0.2,
+  /** Improvement passes after the initial assignment */
+  MAX_PASSES: 10,
+} as const;
+
 // ============================================================================
 // Hierarchy Rules (Information Architecture Research)
 // Kiger (1984), Zaphiris (2000), Larson & Czerwinski (1998): 2 levels fastest
@@ -58,6 +74,18 @@ export const LINE_LENGTH = {
   POINTS: 15,
 } as const;
 
+/**
+ * Extra line length allowed per language, in percent of the English limits
+ * Text grows in translation: Spanish and French run about 15-25% longer than
+ * English, German with its long compounds about 20-35% (W3C i18n, "Text size in translation")
+ */
+export const LINE_LENGTH_ALLOWANCE = {
+  en: 0,
+  es: 15,
+  fr: 15,
+  de: 25,
+} as const;
+
 // ============================================================================
 // Serial Position Rules (Ebbinghaus 1885, Murdock 1962)
 // U-shaped retention curve: items at beginning and end recalled better
@@ -73,6 +101,18 @@ export const SERIAL_POSITION = {
   POINTS: 15,
 } as const;
 
+/**
+ * U-shaped recall curve used by the serial position optimizer
+ * Recall decays from the first item over PRIMACY_ZONE positions and from the
+ * last item over RECENCY_ZONE positions, never dropping below the valley floor
+ */
+export const RECALL_CURVE = {
+  /** Relative recall in the middle of a long list (first/last item = 1) */
+  VALLEY_RECALL: 0.3,
+  /** Value of each importance level when maximizing recall (unset counts as medium) */
+  IMPORTANCE_VALUES: { high: 3, medium: 2, low: 1 },
+} as const;
+
 // ============================================================================
 // Parallel Structure Rules (Frazier et al. 1984)
 // Eye-tracking shows significantly faster reading for structurally similar items
@@ -108,6 +148,125 @@ export const FORMATTING = {
   POINTS: 5,
 } as const;
 
+// ============================================================================
+// One Idea Rules (Jansen 2014; Ledin & Machin)
+// Each bullet should convey one idea only; list items are read as equal,
+// self-contained units, so a second idea inside an item is easily missed
+// ============================================================================
+
+export const ONE_IDEA = {
+  /** Ideas an item may carry before it is flagged */
+  MAX_IDEAS: 1,
+  /** Points allocated to this rule */
+  POINTS: 10,
+} as const;
+
+// ============================================================================
+// Length Uniformity Rules (Bullet point research synthesis)
+// Keep items approximately the same length for visual uniformity
+// Measured per list and per sub-list as the spread around the average length
+// ============================================================================
+
+export const LENGTH_UNIFORMITY = {
+  /** Largest standard deviation, as a percentage of the average length */
+  MAX_SPREAD_PERCENT: 25,
+  /** Items further than this percentage from the average are outliers */
+  OUTLIER_PERCENT: 50,
+  /** Points allocated to this rule */
+  POINTS: 5,
+} as const;
+
+// ============================================================================
+// Conciseness Rules (Nielsen Norman Group 1997)
+// Concise writing (half the word count): +58% usability
+// Combined with scannable layout: +124% usability
+// ============================================================================
+
+export const CONCISENESS = {
+  /** Words an item may spend on each idea it carries */
+  MAX_WORDS_PER_IDEA: 12,
+  /** Points allocated to this rule */
+  POINTS: 10,
+} as const;
+
+// ============================================================================
+// Readability Rules (Health communication research)
+// Simplified texts with bullets rated more understandable by low-literacy
+// readers (OR 2.35); plain language guidance targets grade 5-6 for them
+// ============================================================================
+
+export const READABILITY = {
+  /** Highest Flesch-Kincaid grade for low-literacy readers */
+  LOW_LITERACY_GRADE: 5,
+  /** Highest grade for a general audience */
+  GENERAL_GRADE: 8,
+  /** Highest grade for expert readers */
+  EXPERT_GRADE: 12,
+  /** Grades a single item may exceed the target by before it is flagged */
+  ITEM_GRADE_MARGIN: 2,
+  /** Letters that make a word long */
+  LONG_WORD_CHARS: 7,
+  /** Points allocated to this rule */
+  POINTS: 10,
+} as const;
+
+// ============================================================================
+// Usage Contexts
+// Where a list is read changes how much it can hold: chat and slides are read
+// at a glance, email on phones, executive summaries by readers who stop after
+// the key points, changelogs by readers looking for one change
+// ============================================================================
+
+/**
+ * Thresholds each context sets over the rule defaults (configured thresholds still win)
+ * document, presentation and reference use the defaults
+ */
+export const CONTEXT_THRESHOLDS = {
+  /** Mail clients flatten nested lists and many readers are on a phone */
+  email: {
+    LIST_LENGTH: { MAX_ITEMS: 5, HARD_MAX_ITEMS: 7 },
+    HIERARCHY: { MAX_DEPTH: 1, HARD_MAX_DEPTH: 2 },
+  },
+  /** Chat windows are narrow and messages are read in passing */
+  chat: {
+    LIST_LENGTH: { MIN_ITEMS: 2, OPTIMAL_ITEMS: 3, MAX_ITEMS: 5, HARD_MAX_ITEMS: 7 },
+    HIERARCHY: { MAX_DEPTH: 1, HARD_MAX_DEPTH: 2 },
+    LINE_LENGTH: { MIN_CHARS: 10, OPTIMAL_MIN_CHARS: 20, OPTIMAL_CHARS: 40, OPTIMAL_MAX_CHARS: 50, HARD_MAX_CHARS: 60 },
+  },
+  /** The "6x6" guideline: at most six bullets of about six words */
+  slide: {
+    LIST_LENGTH: { MIN_ITEMS: 2, OPTIMAL_ITEMS: 4, MAX_ITEMS: 6, HARD_MAX_ITEMS: 7 },
+    HIERARCHY: { MAX_DEPTH: 1, HARD_MAX_DEPTH: 2 },
+    LINE_LENGTH: { MIN_CHARS: 10, OPTIMAL_MIN_CHARS: 15, OPTIMAL_CHARS: 30, OPTIMAL_MAX_CHARS: 40, HARD_MAX_CHARS: 50 },
+  },
+  /** One entry per change, read by lookup rather than recall */
+  changelog: {
+    LIST_LENGTH: { MIN_ITEMS: 1, OPTIMAL_ITEMS: 5, MAX_ITEMS: 15, HARD_MAX_ITEMS: 25 },
+    LINE_LENGTH: {
+      MIN_CHARS: 20,
+      OPTIMAL_MIN_CHARS: 30,
+      OPTIMAL_CHARS: 60,
+      OPTIMAL_MAX_CHARS: 90,
+      HARD_MAX_CHARS: 120,
+    },
+  },
+  /** Three to five key messages, flat */
+  'executive-summary': {
+    LIST_LENGTH: { MIN_ITEMS: 3, OPTIMAL_ITEMS: 3, MAX_ITEMS: 5, HARD_MAX_ITEMS: 5 },
+    HIERARCHY: { MAX_DEPTH: 1, HARD_MAX_DEPTH: 2 },
+  },
+} as const;
+
+/**
+ * Limits behind the context fit checks
+ */
+export const CONTEXT_FIT = {
+  /** Words per slide bullet under the 6x6 guideline */
+  SLIDE_MAX_WORDS: 6,
+  /** Changelog entries before they should be grouped by kind of change */
+  CHANGELOG_GROUP_ITEMS: 8,
+} as const;
+
 // ============================================================================
 // Grade Thresholds
 // ============================================================================
@@ -139,12 +298,43 @@ export const RESEARCH_CITATIONS = {
     'Nielsen eye-tracking: First 2 words are critical; readers fixate on initial words when deciding whether to read further',
   FORMATTING:
     'Usability research: Consistent punctuation/capitalization aids scanning; simple bullet symbols preferred',
+  ONE_IDEA:
+    'Jansen (2014): Recall benefit mitigated when list components are heterogeneous; Ledin & Machin: list items read as equal, self-contained units, so each bullet should convey one idea',
+  LENGTH_UNIFORMITY:
+    'Bullet point research synthesis: Keep items approximately the same length for visual uniformity; consistent formatting aids scanning',
+  CONCISENESS:
+    'Nielsen Norman Group (1997): Concise writing at half the word count improved usability 58%; combined with scannable layout, 124%',
+  READABILITY:
+    'Health communication research: Simplified bulleted texts rated more understandable (OR 2.35) and less confusing (OR 0.48) by low-literacy readers',
   CONTEXT:
     'Jansen (2014): Bullets improve recall ~33% for homogeneous content; 3M research: presentations 43% more persuasive with visuals vs bullets',
 } as const;
 
+/**
+ * What each built-in rule checks, shown on its reference page
+ */
+export const RULE_DESCRIPTIONS = {
+  LIST_LENGTH: 'Keep lists between MIN_ITEMS and MAX_ITEMS items; subdivide lists beyond HARD_MAX_ITEMS.',
+  HIERARCHY: 'Limit nesting to MAX_DEPTH levels; comprehension drops substantially beyond HARD_MAX_DEPTH.',
+  LINE_LENGTH:
+    'Keep items between OPTIMAL_MIN_CHARS and OPTIMAL_MAX_CHARS visible characters (OPTIMAL_CHARS is ideal); never under MIN_CHARS or over HARD_MAX_CHARS.',
+  SERIAL_POSITION:
+    'Place high-importance items in the first PRIMACY_ZONE or last RECENCY_ZONE positions, where recall is highest.',
+  STRUCTURE: 'Open every item with the same grammatical pattern: imperative verb, infinitive, gerund, noun phrase, adjective phrase, passive clause, full sentence or question.',
+  FIRST_WORDS: 'Make the first CRITICAL_WORD_COUNT words of each item distinct and informative.',
+  FORMATTING: 'Use consistent ending punctuation and first-letter capitalization across items.',
+  ONE_IDEA:
+    'Give each item at most MAX_IDEAS idea; split items joined by semicolons, several sentences, conjunctions between clauses or "and also" chains.',
+  LENGTH_UNIFORMITY:
+    'Keep item lengths in each list and sub-list within MAX_SPREAD_PERCENT% (standard deviation) of their average; no item should be more than OUTLIER_PERCENT% from it.',
+  CONCISENESS:
+    'Cut filler phrases, redundant pairs and nominalizations ("make a decision"); spend at most MAX_WORDS_PER_IDEA words on each idea.',
+  READABILITY:
+    'Keep the Flesch-Kincaid grade of the list at or below the audience target (LOW_LITERACY_GRADE, GENERAL_GRADE or EXPERT_GRADE) and of each item within ITEM_GRADE_MARGIN grades of it.',
+} as const;
+
 // ============================================================================
-// Total Points (for calculating percentages)
+// Total Points (built-in rules at their default weights)
 // ============================================================================
 
 export const TOTAL_POINTS =
@@ -154,4 +344,8 @@ export const TOTAL_POINTS =
   SERIAL_POSITION.POINTS +
   STRUCTURE.POINTS +
   FIRST_WORDS.POINTS +
-  FORMATTING.POINTS;
+  FORMATTING.POINTS +
+  ONE_IDEA.POINTS +
+  LENGTH_UNIFORMITY.POINTS +
+  CONCISENESS.POINTS +
+  READABILITY.POINTS;
@@ -0,0 +1,227 @@
+/**
+ * Usage contexts for bullet-mcp
+ * Thresholds each context sets over the rule defaults, and the checks of how
+ * well a list fits where it will be read
+ */
+
+import type {
+  BulletItem,
+  Context,
+  ContextFit,
+  Language,
+  ResolvedRules,
+  RulesConfig,
+  RuleId,
+  RuleThresholds,
+  Thresholds,
+} from './types.js';
+import { CONTEXT_FIT, CONTEXT_THRESHOLDS } from './constants.js';
+import { THRESHOLD_ORDER } from './config.js';
+import { countWords } from './concise.js';
+import { detectGrammarPattern } from './grammar.js';
+import { calculateMaxDepth } from './utils.js';
+
+/**
+ * Contexts a list can be written for
+ */
+export const CONTEXTS: readonly Context[] = [
+  'document',
+  'presentation',
+  'reference',
+  'email',
+  'chat',
+  'slide',
+  'changelog',
+  'executive-summary',
+];
+
+/**
+ * Outcome of the context fit check
+ */
+export interface ContextAssessment {
+  fit: ContextFit;
+  feedback?: string;
+}
+
+/**
+ * Thresholds of a rule in a context
+ * The context's overrides replace the defaults, but thresholds set in the config file win.
+ * A configured threshold that belongs to an ordered group (MIN <= OPTIMAL <= MAX) keeps
+ * the whole group from the config, so context and config values never mix out of order
+ */
+export function contextThresholds(
+  id: string,
+  thresholds: Thresholds,
+  context: Context,
+  configured: RulesConfig = {}
+): Thresholds {
+  const overrides = (CONTEXT_THRESHOLDS as Partial<Record<Context, Record<string, Thresholds>>>)[context]?.[id];
+  if (!overrides) return thresholds;
+
+  const group = THRESHOLD_ORDER[id as RuleId] ?? [];
+  const own = Object.keys(configured[id]?.thresholds ?? {});
+  const kept = own.some((key) => group.includes(key))
+    ? Object.fromEntries(Object.entries(overrides).filter(([key]) => !group.includes(key)))
+    : overrides;
+  return { ...thresholds, ...kept, ...configured[id]?.thresholds };
+}
+
+/**
+ * Resolved rules with every rule's thresholds for a context
+ */
+export function contextRules(rules: ResolvedRules, context: Context, configured: RulesConfig = {}): ResolvedRules {
+  return Object.fromEntries(
+    Object.entries(rules).map(([id, settings]) => [
+      id,
+      { ...settings, thresholds: contextThresholds(id, settings.thresholds, context, configured) },
+    ])
+  );
+}
+
+// ============================================================================
+// Context Fit
+// ============================================================================
+
+/**
+ * Whether more than two grammar patterns open the items, a sign of unrelated content
+ */
+function isHeterogeneous(items: BulletItem[], language: Language): boolean {
+  const patterns = items.map((item) => detectGrammarPattern(item.text, language));
+  return new Set(patterns.filter((p) => p !== 'unknown')).size > 2;
+}
+
+/**
+ * How well a list suits the context it will be read in, with feedback
+ * Pass the LIST_LENGTH thresholds in force for the context so the advice matches the rule
+ */
+export function assessContext(
+  items: BulletItem[],
+  context: Context,
+  listLength: RuleThresholds['LIST_LENGTH'],
+  language: Language = 'en'
+): ContextAssessment {
+  const depth = calculateMaxDepth(items);
+
+  switch (context) {
+    case 'presentation':
+      return {
+        fit: 'poor',
+        feedback:
+          '3M research shows presentations are 43% more persuasive with visuals instead of bullets. Consider using graphics with narration.',
+      };
+
+    case 'reference':
+      // Reference materials benefit from clear hierarchy and findability
+      if (depth === 1 && items.length > 5) {
+        return {
+          fit: 'good',
+          feedback:
+            'For reference materials, consider using hierarchy (sub-bullets) to group related items for faster lookup.',
+        };
+      }
+      return {
+        fit: 'excellent',
+        feedback: 'Well-structured for reference use. Ensure consistent formatting for quick scanning.',
+      };
+
+    case 'email':
+      if (depth > 1) {
+        return {
+          fit: 'good',
+          feedback: 'Many mail clients flatten or misalign nested bullets. Keep the list to one level in email.',
+        };
+      }
+      return {
+        fit: 'excellent',
+        feedback: 'Put the request or decision in the first bullet; many readers only see the preview or the first lines.',
+      };
+
+    case 'chat': {
+      const maxItems = listLength.MAX_ITEMS;
+      if (items.length > maxItems) {
+        return {
+          fit: 'poor',
+          feedback: `Chat readers skim past long lists. Post the ${maxItems} most important points and move the rest to a thread or linked doc.`,
+        };
+      }
+      if (depth > 1) {
+        return {
+          fit: 'good',
+          feedback: 'Nested bullets render inconsistently across chat clients. Flatten the list or split it into replies.',
+        };
+      }
+      return { fit: 'excellent', feedback: 'Short enough to read at a glance in a chat window.' };
+    }
+
+    case 'slide': {
+      const maxWords = CONTEXT_FIT.SLIDE_MAX_WORDS;
+      const wordy = items.filter((item) => countWords(item.text) > maxWords).length;
+      if (wordy > items.length / 2) {
+        return {
+          fit: 'poor',
+          feedback: `Most bullets run over ${maxWords} words, so the audience reads instead of listening. Cut them to key phrases and say the rest.`,
+        };
+      }
+      if (wordy > 0) {
+        return {
+          fit: 'good',
+          feedback: `${wordy} bullet(s) run over ${maxWords} words. Slides work best with at most six bullets of about six words.`,
+        };
+      }
+      return {
+        fit: 'excellent',
+        feedback: 'Sparse enough for a slide. Consider a visual for processes, comparisons or numbers.',
+      };
+    }
+
+    case 'changelog':
+      if (depth === 1 && items.length > CONTEXT_FIT.CHANGELOG_GROUP_ITEMS) {
+        return {
+          fit: 'good',
+          feedback:
+            'Group entries by kind of change (Added, Changed, Deprecated, Removed, Fixed, Security) so readers find what affects them.',
+        };
+      }
+      if (isHeterogeneous(items, language)) {
+        return {
+          fit: 'good',
+          feedback: 'Start every entry the same way, e.g. "Fix ..." or "Fixed ...", so the list scans as a record of changes.',
+        };
+      }
+      return { fit: 'excellent', feedback: 'Entries are consistent and easy to scan for a specific change.' };
+
+    case 'executive-summary': {
+      const maxItems = listLength.MAX_ITEMS;
+      if (items.length > maxItems) {
+        return {
+          fit: 'poor',
+          feedback: `Executive readers stop after the key messages. Keep the summary to ${maxItems} points and move the rest to the body.`,
+        };
+      }
+      if (depth > 1) {
+        return {
+          fit: 'good',
+          feedback: 'Keep the summary flat; supporting detail belongs in the body of the report.',
+        };
+      }
+      if (items.some((item) => item.importance === 'high') && items[0]?.importance !== 'high') {
+        return {
+          fit: 'good',
+          feedback: 'Lead with the conclusion or recommendation: the first bullet should be the most important one.',
+        };
+      }
+      return { fit: 'excellent', feedback: 'Concise enough for readers who only take in the key points.' };
+    }
+
+    default:
+      // Check for heterogeneous content (different grammar patterns suggest different types of info)
+      if (isHeterogeneous(items, language)) {
+        return {
+          fit: 'good',
+          feedback:
+            'Content appears heterogeneous. Bullets work best with related, similar items. Consider grouping by category.',
+        };
+      }
+      return { fit: 'excellent' };
+  }
+}
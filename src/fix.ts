@@ -0,0 +1,206 @@
+/**
+ * Mechanical fixes for bullet-mcp
+ * Applies the suggestions that need no judgment: whitespace, ending punctuation,
+ * capitalization and moving high-importance items out of the recall valley
+ */
+
+import type { BulletItem, FixEdit, RuleThresholds } from './types.js';
+import { getCapitalization, getEndingStyle, getMostCommon, itemLabel, shorten } from './utils.js';
+
+/** Ranking of items that may be displaced into the recall valley (lowest first) */
+const DISPLACEMENT_ORDER = { low: 0, none: 1, medium: 2, high: 3 } as const;
+
+/**
+ * Copy items so fixes never modify the caller's input
+ */
+function cloneItems(items: BulletItem[]): BulletItem[] {
+  return items.map((item) => (item.children ? { ...item, children: cloneItems(item.children) } : { ...item }));
+}
+
+// ============================================================================
+// Fixes
+// ============================================================================
+
+/**
+ * Collapse whitespace runs and trim every item, children included
+ */
+function fixWhitespace(items: BulletItem[], edits: FixEdit[], parent: number[] = []): void {
+  items.forEach((item, index) => {
+    const path = [...parent, index];
+    const text = item.text.replace(/\s+/g, ' ').trim();
+    if (text !== item.text) {
+      edits.push({
+        fix: 'whitespace',
+        rule: 'FORMATTING',
+        path,
+        before: item.text,
+        after: text,
+        message: `Trimmed whitespace in item ${itemLabel(path)}`,
+      });
+      item.text = text;
+    }
+    if (item.children) {
+      fixWhitespace(item.children, edits, path);
+    }
+  });
+}
+
+/**
+ * Match ending punctuation to the majority, as the FORMATTING rule computes it
+ * Only periods are added or removed; "!", "?", ":" and ellipses are left alone
+ */
+function fixPunctuation(items: BulletItem[], edits: FixEdit[], parent: number[]): void {
+  const endings = items.map((item) => getEndingStyle(item.text));
+  const dominant = getMostCommon(endings);
+  const inconsistent = endings.filter((e) => e !== dominant).length;
+  if (!dominant || inconsistent === 0 || inconsistent === endings.length) return;
+
+  items.forEach((item, index) => {
+    let text = item.text;
+    if (dominant === 'sentence' && endings[index] === 'none') {
+      text = `${text}.`;
+    } else if (dominant === 'none' && /[^.]\.$/.test(text)) {
+      text = text.slice(0, -1);
+    }
+    if (text === item.text) return;
+
+    const path = [...parent, index];
+    edits.push({
+      fix: 'punctuation',
+      rule: 'FORMATTING',
+      path,
+      before: item.text,
+      after: text,
+      message:
+        dominant === 'sentence'
+          ? `Added a period to item ${itemLabel(path)} to match the other items`
+          : `Removed the period from item ${itemLabel(path)} to match the other items`,
+    });
+    item.text = text;
+  });
+}
+
+/**
+ * Match first-letter capitalization to the majority
+ * Words with inner capitals (acronyms, product names) are never lowercased
+ */
+function fixCapitalization(items: BulletItem[], edits: FixEdit[], parent: number[]): void {
+  const capitalizations = items.map((item) => getCapitalization(item.text));
+  const dominant = getMostCommon(capitalizations);
+  const inconsistent = capitalizations.filter((c) => c !== dominant).length;
+  if (!dominant || inconsistent === 0 || inconsistent === capitalizations.length) return;
+
+  items.forEach((item, index) => {
+    const first = item.text[0];
+    if (capitalizations[index] === dominant || first.toLowerCase() === first.toUpperCase()) return;
+
+    const firstWord = item.text.split(' ')[0];
+    if (dominant === 'lower' && (firstWord.length === 1 || /[A-Z]/.test(firstWord.slice(1)))) return;
+
+    const text = (dominant === 'upper' ? first.toUpperCase() : first.toLowerCase()) + item.text.slice(1);
+    const path = [...parent, index];
+    edits.push({
+      fix: 'capitalization',
+      rule: 'FORMATTING',
+      path,
+      before: item.text,
+      after: text,
+      message:
+        dominant === 'upper'
+          ? `Capitalized the first letter of item ${itemLabel(path)}`
+          : `Lowercased the first letter of item ${itemLabel(path)}`,
+    });
+    item.text = text;
+  });
+}
+
+/**
+ * Match punctuation and capitalization within the list and within every child list,
+ * as the FORMATTING rule checks each of them on its own
+ */
+function fixFormatting(items: BulletItem[], edits: FixEdit[], parent: number[] = []): void {
+  if (items.length >= 2) {
+    fixPunctuation(items, edits, parent);
+    fixCapitalization(items, edits, parent);
+  }
+  items.forEach((item, index) => {
+    if (item.children) {
+      fixFormatting(item.children, edits, [...parent, index]);
+    }
+  });
+}
+
+/**
+ * Swap high-importance items in the recall valley with the least important
+ * item in a primacy or recency position, preferring the nearest one
+ */
+function fixSerialPosition(
+  items: BulletItem[],
+  zones: RuleThresholds['SERIAL_POSITION'],
+  edits: FixEdit[]
+): BulletItem[] {
+  // Same preconditions as the SERIAL_POSITION rule
+  if (items.length <= 3 || !items.some((item) => item.importance)) return items;
+
+  const slots = items.map((item, origin) => ({ item, origin }));
+  const isKey = (index: number) => index < zones.PRIMACY_ZONE || index >= items.length - zones.RECENCY_ZONE;
+
+  for (let index = 0; index < slots.length; index++) {
+    const { item, origin } = slots[index];
+    if (item.importance !== 'high' || isKey(index)) continue;
+
+    let target: number | undefined;
+    for (let candidate = 0; candidate < slots.length; candidate++) {
+      if (!isKey(candidate) || slots[candidate].item.importance === 'high') continue;
+      if (target === undefined) {
+        target = candidate;
+        continue;
+      }
+      const rank = DISPLACEMENT_ORDER[slots[candidate].item.importance ?? 'none'];
+      const best = DISPLACEMENT_ORDER[slots[target].item.importance ?? 'none'];
+      if (rank < best || (rank === best && Math.abs(candidate - index) < Math.abs(target - index))) {
+        target = candidate;
+      }
+    }
+    if (target === undefined) continue;
+
+    const displaced = slots[target];
+    edits.push(
+      {
+        fix: 'reorder',
+        rule: 'SERIAL_POSITION',
+        path: [origin],
+        to_index: target,
+        message: `Moved high-importance item "${shorten(item.text)}" from position ${index + 1} to ${target + 1}`,
+      },
+      {
+        fix: 'reorder',
+        rule: 'SERIAL_POSITION',
+        path: [displaced.origin],
+        to_index: index,
+        message: `Moved item "${shorten(displaced.item.text)}" from position ${target + 1} to ${index + 1} to make room`,
+      }
+    );
+    slots[target] = slots[index];
+    slots[index] = displaced;
+  }
+
+  return slots.map(({ item }) => item);
+}
+
+/**
+ * Apply all safe fixes to one list and return the corrected copy
+ * Edit paths refer to positions in the original list
+ */
+export function fixItems(
+  items: BulletItem[],
+  zones: RuleThresholds['SERIAL_POSITION']
+): { items: BulletItem[]; edits: FixEdit[] } {
+  const fixed = cloneItems(items);
+  const edits: FixEdit[] = [];
+
+  fixWhitespace(fixed, edits);
+  fixFormatting(fixed, edits);
+
+  return { items: fixSerialPosition(fixed, zones, edits), edits };
+}
@@ -0,0 +1,220 @@
+/**
+ * Grammar pattern detection for bullet-mcp
+ * Classifies how an item opens so rules can check parallel structure
+ */
+
+import { languagePack, languageWords, type LanguagePack } from './language.js';
+import { FINITE_TAGS, tagWords, type Tag, type TaggedWord } from './tagger.js';
+import type { Language } from './types.js';
+
+/**
+ * Pattern types for parallel structure detection
+ */
+export type GrammarPattern =
+  | 'verb-imperative'
+  | 'verb-infinitive'
+  | 'verb-gerund'
+  | 'noun-phrase'
+  | 'adjective-phrase'
+  | 'passive'
+  | 'sentence'
+  | 'question'
+  | 'unknown';
+
+/**
+ * Tags that can head or fill out a noun phrase
+ */
+const NOMINAL_TAGS = new Set<Tag>(['noun', 'plural', 'proper', 'number', 'pronoun', 'determiner', 'adjective']);
+
+const isNominal = (word: TaggedWord) => word.tags.some((tag) => NOMINAL_TAGS.has(tag));
+const has = (word: TaggedWord | undefined, tag: Tag) => word?.tags.includes(tag) ?? false;
+
+/**
+ * Whether the words from a finite verb on form a passive ("are rotated", "can be revoked")
+ */
+function isPassive(words: TaggedWord[], from: number): boolean {
+  let index = from;
+  const skipAdverbs = () => {
+    while (words[index]?.tag === 'adverb') index++;
+  };
+
+  if (words[index].tag === 'modal') index++;
+  skipAdverbs();
+  if (!has(words[index], 'be')) return false;
+  index++;
+  skipAdverbs();
+  return has(words[index], 'participle');
+}
+
+/**
+ * Where the main verb of a clause with a subject starts, if the item opens with one
+ * A verb that could also be a noun ("times", "returns") only counts when the opening
+ * word cannot be a command and an object follows it
+ */
+function findFiniteVerb(words: TaggedWord[]): number | undefined {
+  const command = has(words[0], 'verb');
+
+  for (let index = 1; index < Math.min(words.length, 8); index++) {
+    const previous = words[index - 1];
+    if (!isNominal(previous) && !(index === 1 && previous.tag === 'gerund')) return undefined;
+
+    const word = words[index];
+    const finite =
+      word.tags.some((tag) => FINITE_TAGS.has(tag)) ||
+      (has(word, 'verb') && ['plural', 'pronoun'].includes(previous.tag));
+    if (!finite) continue;
+    if (!isNominal(word)) return index;
+
+    const object = words[index + 1];
+    if (!command && object && !['preposition', 'conjunction'].includes(object.tag)) return index;
+  }
+  return undefined;
+}
+
+/**
+ * Detect grammatical pattern of a bullet item
+ * English items are tagged; other languages go by their pattern pack
+ */
+export function detectGrammarPattern(text: string, language: Language = 'en'): GrammarPattern {
+  const pack = languagePack(language);
+  if (pack) return detectWithPack(text, pack);
+
+  const words = tagWords(text);
+  if (words.length === 0) return 'unknown';
+  const [first, second] = words;
+
+  // Questions, with or without the question mark ("How to configure SSL")
+  if (text.trim().endsWith('?')) return 'question';
+  if (first.tag === 'wh' && second && ['be', 'modal', 'preposition'].includes(second.tag)) return 'question';
+  const asks = first.tag === 'be' || first.tag === 'modal';
+  if (asks && second && ['pronoun', 'determiner', 'proper'].includes(second.tag)) return 'question';
+
+  // A subject followed by its verb: a full sentence, or a passive one
+  const verb = findFiniteVerb(words);
+  if (verb !== undefined) return isPassive(words, verb) ? 'passive' : 'sentence';
+
+  // Leading adverbs qualify whatever follows ("Always validate", "Fully tested"), as does "do not"
+  let start = 0;
+  const qualifies = (word: TaggedWord, next: TaggedWord) =>
+    word.tag === 'adverb' ||
+    (['do', "don't"].includes(word.word.toLowerCase()) && (has(next, 'verb') || next.tag === 'adverb'));
+  while (words[start + 1] && qualifies(words[start], words[start + 1])) start++;
+  const head = words[start];
+  const next = words[start + 1];
+
+  // Past participle with no object: a passive with its subject left out ("Stored in Redis")
+  if (has(head, 'participle') && !has(head, 'verb') && (!next || !isNominal(next) || next.tag === 'adjective')) {
+    return 'passive';
+  }
+
+  // Adjectives that are also verbs read as commands unless nothing follows them ("Secure by default")
+  const bareAdjective = has(head, 'adjective') && (!next || ['preposition', 'conjunction'].includes(next.tag));
+  if (has(head, 'verb') && !bareAdjective) return 'verb-imperative';
+
+  if (head.tag === 'gerund') return 'verb-gerund';
+
+  if (has(head, 'adjective')) {
+    // An adjective run followed by a noun is a noun phrase ("Fast startup times")
+    let index = start;
+    const modifies = (word: TaggedWord) => has(word, 'adjective') || ['adverb', 'conjunction'].includes(word.tag);
+    while (words[index] && modifies(words[index])) index++;
+    const after = words[index];
+    return after && ['noun', 'plural', 'proper', 'number'].includes(after.tag) ? 'noun-phrase' : 'adjective-phrase';
+  }
+
+  if (['determiner', 'noun', 'plural', 'proper', 'number', 'pronoun'].includes(head.tag)) return 'noun-phrase';
+
+  return 'unknown';
+}
+
+// ============================================================================
+// Other Languages
+// ============================================================================
+
+/**
+ * Where the finite verb of a clause with a subject is, if the item opens with one
+ * Verb-second languages also count a lowercase "-t"/"-en" word right after a
+ * capitalized noun ("Der Server startet"), except an "-en" closing the item,
+ * which reads as an infinitive ("Logs rotieren")
+ */
+function findPackVerb(original: string[], words: string[], start: number, pack: LanguagePack): number | undefined {
+  for (let index = start + 1; index < Math.min(words.length, start + 7); index++) {
+    const word = words[index];
+    if (pack.prepositions.has(word)) return undefined;
+    if (pack.finiteVerbs.has(word)) return index;
+
+    const afterNoun = /^\p{Lu}/u.test(original[index - 1]) && !pack.articles.has(words[index - 1]);
+    const closing = index === words.length - 1 && word.endsWith('en');
+    const finite = pack.finiteSuffix?.test(original[index]) && !pack.participle.test(word) && !closing;
+    if (afterNoun && finite && !pack.adjectives.has(word)) return index;
+  }
+  return undefined;
+}
+
+/**
+ * Detect the pattern of an item in a language with a pattern pack
+ */
+function detectWithPack(text: string, pack: LanguagePack): GrammarPattern {
+  const trimmed = text.trim();
+  const original = languageWords(trimmed);
+  const words = original.map((word) => word.toLowerCase());
+  if (words.length === 0) return 'unknown';
+
+  // Questions, marked at either end ("¿Cómo funciona?") or by their opening word
+  if (trimmed.endsWith('?') || trimmed.startsWith('¿')) return 'question';
+  const opening = words.slice(0, 2).join(' ');
+  if (pack.questionWords.includes(words[0]) || pack.questionWords.includes(opening)) return 'question';
+
+  // Leading negations qualify whatever follows ("N'utilisez pas", "Nie Passwörter speichern")
+  let start = 0;
+  while (words[start + 1] && pack.negations.has(words[start])) start++;
+  const head = words[start];
+  const next = words[start + 1];
+  const verbForm = (word: string, form: RegExp) => form.test(word) && !pack.nonVerbs.has(word);
+
+  // Commands: known imperatives, imperative endings ("Configurez") and the polite "Verwenden Sie"
+  if (pack.imperatives.has(head)) return 'verb-imperative';
+  if (pack.imperativeEnding && verbForm(head, pack.imperativeEnding)) return 'verb-imperative';
+  // Informal imperatives before their object ("Beginne jeden Punkt"); finite verbs describe instead ("Permite la")
+  const informal = pack.objectImperative;
+  const beforeObject = informal !== undefined && next !== undefined && informal.articles.has(next);
+  if (beforeObject && verbForm(head, informal.ending) && !pack.finiteVerbs.has(head)) return 'verb-imperative';
+  if (pack.politeImperative && next === pack.politeImperative && verbForm(head, pack.infinitive)) {
+    return 'verb-imperative';
+  }
+
+  // Impersonal passives ("Se recomienda usar HTTPS")
+  if (pack.passiveOpeners.has(head)) return 'passive';
+
+  if (pack.gerund?.test(words.slice(start).join(' ')) && !pack.nonVerbs.has(head)) return 'verb-gerund';
+
+  // Infinitive bullets ("Configurar el servidor"), unless a verb follows and makes the infinitive a subject
+  if (!pack.infinitiveLast && verbForm(head, pack.infinitive) && !(next && pack.finiteVerbs.has(next))) {
+    return 'verb-infinitive';
+  }
+
+  // A subject followed by its verb: a full sentence, or a passive one
+  const verb = findPackVerb(original, words, start, pack);
+  if (verb !== undefined) {
+    const participle = words.slice(verb + 1, verb + 5).some((word) => verbForm(word, pack.participle));
+    return pack.passiveAuxiliaries.has(words[verb]) && participle ? 'passive' : 'sentence';
+  }
+
+  // Adjectives first, as some end like participles ("Rápido y ligero")
+  if (pack.adjectives.has(head)) return 'adjective-phrase';
+
+  // Past participle with no auxiliary: a passive with its subject left out ("Probado en producción")
+  if (verbForm(head, pack.participle)) return 'passive';
+
+  // Verb-final infinitives ("Tests regelmäßig ausführen"); nouns are capitalized, so the verb is lowercase
+  const last = original[original.length - 1];
+  if (pack.infinitiveLast && original.length > 1 && /^\p{Ll}/u.test(last) && verbForm(last, pack.infinitive)) {
+    return 'verb-infinitive';
+  }
+
+  // Negative commands whose verb form no ending gives away ("No uses eval")
+  if (start > 0) return 'verb-imperative';
+
+  if (pack.prepositions.has(head)) return 'unknown';
+  return 'noun-phrase';
+}
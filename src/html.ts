@@ -0,0 +1,250 @@
+/**
+ * HTML parsing for bullet-mcp
+ * Extracts <ul>/<ol>/<li> structures from an HTML fragment into BulletItem trees
+ */
+
+import type { BulletItem, BulletSection } from './types.js';
+import { groupListsByHeading, type HeadedList, type MarkdownDefaults } from './markdown.js';
+
+// ============================================================================
+// Tokenizing
+// ============================================================================
+
+/** Comment, tag or run of text */
+const TOKEN = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>|[^<]+|</g;
+
+/** Elements whose content is never visible text */
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'template', 'head', 'title', 'noscript']);
+
+/** Elements that end a paragraph outside of lists */
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav',
+  'blockquote', 'pre', 'table', 'tr', 'td', 'th', 'figure', 'figcaption', 'hr',
+  'dl', 'dt', 'dd', 'body', 'html', 'br',
+]);
+
+/** Named entities commonly found in rendered content */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+};
+
+/**
+ * Decode HTML character references
+ * Numeric references to NUL, surrogates or beyond U+10FFFF become U+FFFD, as in HTML
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      if (Number.isNaN(code)) return match;
+      const invalid = code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff);
+      return invalid ? '\uFFFD' : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Collapse whitespace runs to single spaces
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Result of parsing HTML into bullet input
+ */
+export interface ParsedHtml {
+  /** Top-level items when the fragment has no headings (flat mode) */
+  items?: BulletItem[];
+  /** One section per heading that owns a list (sectioned mode) */
+  sections?: BulletSection[];
+}
+
+/**
+ * Extract every top-level list with its preceding heading and paragraphs
+ * Inline markup is stripped so item text matches what readers see
+ */
+export function scanHtmlLists(source: string): HeadedList[] {
+  const lists: HeadedList[] = [];
+
+  let heading: { text: string } | undefined;
+  let headingText: string[] | undefined;
+  let paragraphs: string[] = [];
+  let paragraph: string[] = [];
+  let skipping: string | undefined;
+
+  // Open list levels, outermost first
+  let list: HeadedList | undefined;
+  const stack: Array<{ items: BulletItem[]; item?: BulletItem; text: string[] }> = [];
+
+  const flushParagraph = () => {
+    const text = normalizeText(paragraph.join(''));
+    if (text.length > 0) {
+      paragraphs.push(text);
+    }
+    paragraph = [];
+  };
+
+  // Move buffered text into the open item of a level
+  const commit = (level: (typeof stack)[number]) => {
+    if (level.item) {
+      level.item.text = normalizeText(`${level.item.text} ${level.text.join('')}`);
+    }
+    level.text = [];
+  };
+
+  // An item that only wraps a nested list gives way to the nested items, as in Markdown
+  const closeItem = (level: (typeof stack)[number]) => {
+    commit(level);
+    const item = level.item;
+    level.item = undefined;
+    if (!item || item.text.length > 0) return;
+    if (!item.children?.length) {
+      throw new Error('HTML input contains an empty <li> element');
+    }
+    level.items.splice(level.items.indexOf(item), 1, ...item.children);
+  };
+
+  for (const match of source.matchAll(TOKEN)) {
+    const [token, closing, rawName] = match;
+    const name = rawName?.toLowerCase();
+
+    if (skipping) {
+      if (closing && name === skipping) {
+        skipping = undefined;
+      }
+      continue;
+    }
+
+    if (token.startsWith('<!--')) {
+      continue;
+    }
+
+    if (!name) {
+      // Text (a lone "<" is treated as text too)
+      const text = decodeEntities(token);
+      if (headingText) {
+        headingText.push(text);
+      } else if (stack.length > 0) {
+        stack[stack.length - 1].text.push(text);
+      } else {
+        paragraph.push(text);
+      }
+      continue;
+    }
+
+    if (!closing && SKIPPED_ELEMENTS.has(name)) {
+      skipping = name;
+      continue;
+    }
+
+    const top = stack[stack.length - 1];
+
+    if (name === 'ul' || name === 'ol') {
+      if (!closing) {
+        if (!top) {
+          flushParagraph();
+          list = { heading, paragraphs, items: [] };
+          stack.push({ items: list.items, text: [] });
+        } else {
+          commit(top);
+          const parent = top.item ?? top.items[top.items.length - 1];
+          if (parent) {
+            parent.children = parent.children ?? [];
+            stack.push({ items: parent.children, text: [] });
+          } else {
+            stack.push({ items: top.items, text: [] });
+          }
+        }
+      } else if (top) {
+        closeItem(top);
+        stack.pop();
+        if (stack.length === 0 && list) {
+          lists.push(list);
+          list = undefined;
+          paragraphs = [];
+        }
+      }
+      continue;
+    }
+
+    if (name === 'li') {
+      if (!top) continue;
+      closeItem(top);
+      if (!closing) {
+        const item: BulletItem = { text: '' };
+        top.items.push(item);
+        top.item = item;
+      }
+      continue;
+    }
+
+    if (top) {
+      // Inline or block markup inside a list only separates words
+      if (BLOCK_ELEMENTS.has(name)) {
+        top.text.push(' ');
+      }
+      continue;
+    }
+
+    if (/^h[1-6]$/.test(name)) {
+      if (!closing) {
+        flushParagraph();
+        headingText = [];
+      } else if (headingText) {
+        heading = { text: normalizeText(headingText.join('')) };
+        headingText = undefined;
+        paragraphs = [];
+      }
+      continue;
+    }
+
+    if (BLOCK_ELEMENTS.has(name)) {
+      if (headingText) {
+        headingText.push(' ');
+      } else {
+        flushParagraph();
+      }
+    }
+  }
+
+  // Close lists left open by a truncated fragment
+  while (stack.length > 0) {
+    closeItem(stack.pop()!);
+  }
+  if (list) {
+    lists.push(list);
+  }
+
+  return lists;
+}
+
+/**
+ * Parse an HTML fragment into flat items or heading-based sections
+ */
+export function parseHtml(source: string, defaults: MarkdownDefaults): ParsedHtml {
+  const lists = scanHtmlLists(source);
+
+  if (lists.length === 0) {
+    throw new Error('HTML input contains no <ul> or <ol> lists');
+  }
+
+  return groupListsByHeading(lists, defaults);
+}
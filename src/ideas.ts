@@ -0,0 +1,145 @@
+/**
+ * Compound bullet detection for bullet-mcp
+ * Finds the points where an item moves on to a second idea: sentence breaks,
+ * semicolons, coordinating conjunctions joining independent clauses and
+ * "and also"-style chains
+ */
+
+import { detectGrammarPattern } from './grammar.js';
+import { languagePack, type LanguagePack } from './language.js';
+import type { Language } from './types.js';
+
+/**
+ * How an item joins two ideas
+ */
+export type IdeaBreakKind = 'sentence' | 'semicolon' | 'conjunction' | 'chain';
+
+/**
+ * A point where an item could be split into two bullets
+ */
+export interface IdeaBreak {
+  kind: IdeaBreakKind;
+  /** Text that joins the ideas, e.g. ";" or ", but" */
+  marker: string;
+  /** Character offset of the marker */
+  start: number;
+  /** Character offset where the next idea starts */
+  offset: number;
+}
+
+/**
+ * Words that open an independent clause as its subject
+ */
+const SUBJECT_PRONOUNS = new Set(['i', 'we', 'you', 'they', 'he', 'she', 'it', 'there']);
+
+/**
+ * Words that open a noun phrase which may be the subject of a clause
+ */
+const DETERMINERS = new Set([
+  'the', 'a', 'an', 'this', 'that', 'these', 'those', 'our', 'your', 'their', 'its', 'his', 'her',
+  'each', 'every', 'most', 'many', 'some', 'all',
+]);
+
+/**
+ * Finite verbs that mark a noun phrase as the subject of a clause
+ */
+const FINITE_VERBS = new Set([
+  'is', 'are', 'was', 'were', 'has', 'have', 'had', 'will', 'would', 'can', 'could', 'should',
+  'must', 'may', 'might', 'does', 'do', 'did', 'shall',
+]);
+
+/**
+ * Abbreviations whose period does not end a sentence
+ */
+const ABBREVIATIONS = new Set(['e.g', 'i.e', 'etc', 'vs', 'approx', 'incl', 'dr', 'mr', 'mrs', 'ms', 'no', 'fig']);
+
+/**
+ * Phrases that tack a further idea onto an item
+ */
+const CHAIN_PATTERN = /,?\s+(and also|but also|and then|and additionally|while also)\s+/gi;
+
+/**
+ * Coordinating conjunctions that can join independent clauses
+ */
+const CONJUNCTION_PATTERN = /(,\s*|\s+)(and|but|or|so|yet)\s+/gi;
+
+/**
+ * Conjunction pattern of a language with a pattern pack
+ */
+const conjunctionPattern = (pack: LanguagePack) =>
+  new RegExp(`(,\\s*|\\s+)(${[...pack.conjunctions].join('|')})\\s+`, 'giu');
+
+/**
+ * Lowercase words of a text, punctuation removed
+ */
+function words(text: string): string[] {
+  return text
+    .split(/\s+/)
+    .map((word) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Check whether text opens with a subject followed by a verb
+ * Pronoun subjects always count; noun phrases need a finite verb within four words
+ */
+function opensClause(text: string, pack?: LanguagePack): boolean {
+  const [first, ...rest] = words(text);
+  if (!first || rest.length === 0) return false;
+  if ((pack?.pronouns ?? SUBJECT_PRONOUNS).has(first)) return true;
+  const finiteVerbs = pack?.finiteVerbs ?? FINITE_VERBS;
+  return (pack?.articles ?? DETERMINERS).has(first) && rest.slice(0, 4).some((word) => finiteVerbs.has(word));
+}
+
+/**
+ * Find every point where an item moves on to another idea, in text order
+ * Other languages join clauses with their own conjunctions and have no "and also" chains
+ */
+export function findIdeaBreaks(text: string, language: Language = 'en'): IdeaBreak[] {
+  const pack = languagePack(language);
+  const breaks: IdeaBreak[] = [];
+  const add = (kind: IdeaBreakKind, marker: string, start: number, offset: number) => {
+    // Both sides need some substance to be ideas of their own
+    if (words(text.slice(0, start)).length < 2 || words(text.slice(offset)).length < 2) return;
+    if (breaks.some((existing) => start < existing.offset && offset > existing.start)) return;
+    breaks.push({ kind, marker, start, offset });
+  };
+
+  for (const match of text.matchAll(/([.!?])\s+(?=[\p{Lu}\p{N}"'(¿¡])/gu)) {
+    const head = text.slice(0, match.index).split(/\s+/).pop()!.toLowerCase();
+    if (match[1] === '.' && ABBREVIATIONS.has(head.replace(/\.$/, ''))) continue;
+    add('sentence', match[1], match.index!, match.index! + match[0].length);
+  }
+
+  for (const match of text.matchAll(/;\s*/g)) {
+    add('semicolon', ';', match.index!, match.index! + match[0].length);
+  }
+
+  if (!pack) {
+    for (const match of text.matchAll(CHAIN_PATTERN)) {
+      add('chain', match[1].toLowerCase(), match.index!, match.index! + match[0].length);
+    }
+  }
+
+  for (const match of text.matchAll(pack ? conjunctionPattern(pack) : CONJUNCTION_PATTERN)) {
+    const offset = match.index! + match[0].length;
+    const rest = text.slice(offset);
+    const comma = match[1].trim() === ',';
+    // Commands ("Cache reads, and log writes", "Installer le paquet, et mettre à jour") need the comma to stand apart
+    const command = ['verb-imperative', 'verb-infinitive'].includes(detectGrammarPattern(rest, language));
+    if (opensClause(rest, pack) || (comma && command)) {
+      add('conjunction', `${comma ? ', ' : ''}${match[2].toLowerCase()}`, match.index!, offset);
+    }
+  }
+
+  return breaks.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Opening words of the idea that starts at a break, for naming it in suggestions
+ */
+export function ideaPreview(text: string, offset: number, wordCount = 4): string {
+  const rest = text.slice(offset).trim().split(/\s+/);
+  const preview = rest.slice(0, wordCount).join(' ').replace(/[.;,!?]+$/, '');
+  return rest.length > wordCount ? `${preview}...` : preview;
+}
@@ -2,20 +2,37 @@
 
 /**
  * bullet-mcp - MCP server for evidence-based bullet point summarization guidance
+ * Run `bullet-mcp check <files...>` to lint Markdown files from the command line
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { readFileSync } from 'fs';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
-import { BULLET_TOOL } from './schema.js';
+import {
+  BULLET_BATCH_TOOL,
+  BULLET_COMPARE_TOOL,
+  BULLET_FIX_TOOL,
+  BULLET_RANK_TOOL,
+  BULLET_REORDER_TOOL,
+  BULLET_SCAN_TOOL,
+  BULLET_SPLIT_TOOL,
+  BULLET_TOOL,
+} from './schema.js';
 import { loadConfig } from './config.js';
+import { loadCustomRules } from './rules.js';
 import { BulletServer } from './server.js';
+import { EXIT_CODES, runCli } from './cli.js';
+import type { BulletConfig } from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -24,7 +41,7 @@ const pkg = JSON.parse(
 );
 const { name, version } = pkg;
 
-// Create MCP server instance with tools capability
+// Create MCP server instance with tools, resources and prompts capabilities
 const server = new Server(
   {
     name,
@@ -33,31 +50,90 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: {},
+      prompts: {},
     },
   }
 );
 
-// Load configuration
-const config = loadConfig();
-
-// Show configuration on startup
-console.error('📝 BULLET MCP Server Starting...');
-console.error(`📋 Configuration:`);
-console.error(`   - Strict Mode: ${config.validation.strictMode}`);
-console.error(`   - Research Citations: ${config.validation.enableResearchCitations ? 'Enabled' : 'Disabled'}`);
+const [command, ...args] = process.argv.slice(2);
 
-const bulletServer = new BulletServer(config);
+// Load configuration (config file + environment variables) and custom rules
+let config: BulletConfig;
+let bulletServer: BulletServer;
+try {
+  config = loadConfig();
+  bulletServer = new BulletServer(config, await loadCustomRules(config.customRules));
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(command === 'check' ? EXIT_CODES.USAGE : 1);
+}
 
-// Expose tool
+// Expose tools
 server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: [BULLET_TOOL],
+  tools: [
+    BULLET_TOOL,
+    BULLET_SCAN_TOOL,
+    BULLET_FIX_TOOL,
+    BULLET_REORDER_TOOL,
+    BULLET_SPLIT_TOOL,
+    BULLET_COMPARE_TOOL,
+    BULLET_BATCH_TOOL,
+    BULLET_RANK_TOOL,
+  ],
+}));
+
+// Expose the research base and rule reference pages
+server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+  resources: bulletServer.listResources(),
 }));
 
+server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+  bulletServer.readResource(request.params.uri)
+);
+
+// Expose summarization prompt templates
+server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+  prompts: bulletServer.listPrompts(),
+}));
+
+server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+  bulletServer.getPrompt(request.params.name, request.params.arguments)
+);
+
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
   if (request.params.name === 'bullet') {
     return bulletServer.analyze(request.params.arguments);
   }
 
+  if (request.params.name === 'bullet_scan') {
+    return bulletServer.scan(request.params.arguments);
+  }
+
+  if (request.params.name === 'bullet_fix') {
+    return bulletServer.fix(request.params.arguments);
+  }
+
+  if (request.params.name === 'bullet_reorder') {
+    return bulletServer.reorder(request.params.arguments);
+  }
+
+  if (request.params.name === 'bullet_split') {
+    return bulletServer.split(request.params.arguments);
+  }
+
+  if (request.params.name === 'bullet_compare') {
+    return bulletServer.compare(request.params.arguments);
+  }
+
+  if (request.params.name === 'bullet_batch') {
+    return bulletServer.batch(request.params.arguments);
+  }
+
+  if (request.params.name === 'bullet_rank') {
+    return bulletServer.rank(request.params.arguments);
+  }
+
   return {
     content: [
       {
@@ -70,18 +146,40 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 });
 
 async function runServer() {
+  // Show configuration on startup
+  console.error('📝 BULLET MCP Server Starting...');
+  console.error(`📋 Configuration:`);
+  console.error(`   - Strict Mode: ${config.validation.strictMode}`);
+  console.error(`   - Research Citations: ${config.validation.enableResearchCitations ? 'Enabled' : 'Disabled'}`);
+  if (config.customRules?.length) {
+    console.error(`   - Custom Rule Modules: ${config.customRules.length}`);
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('✅ BULLET MCP Server running on stdio');
   console.error('📝 BULLET - Evidence-based bullet point validation');
   console.error('📚 Use "bullet" tool to analyze and improve bullet lists');
+  console.error('📄 Use "bullet_scan" tool to score every list in a Markdown document');
+  console.error('🔧 Use "bullet_fix" tool to apply safe formatting and ordering fixes');
+  console.error('🔀 Use "bullet_reorder" tool to propose the recall-optimal item order');
+  console.error('🗂️ Use "bullet_split" tool to split oversized lists into categorized groups');
+  console.error('⚖️ Use "bullet_compare" tool to see rule-by-rule changes between two drafts');
+  console.error('📦 Use "bullet_batch" tool to score many lists in one call');
+  console.error('🏆 Use "bullet_rank" tool to pick the best of several candidate lists');
+  console.error('📖 Read "bullet://rules" and "bullet://docs/study" resources for the research base');
+  console.error('💬 Use "summarize-as-bullets", "sectioned-report" or "presentation-outline" prompts to draft lists');
 
   if (config.validation.strictMode) {
     console.error('⚠️ Running in STRICT MODE - warnings treated as errors');
   }
 }
 
-runServer().catch((error) => {
-  console.error('Fatal error running server:', error);
-  process.exit(1);
-});
+if (command === 'check') {
+  process.exitCode = await runCli(args, config);
+} else {
+  runServer().catch((error) => {
+    console.error('Fatal error running server:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,294 @@
+/**
+ * Language support for bullet-mcp
+ * Detects whether a list is English, Spanish, German or French and holds the
+ * word lists and verb forms the grammar patterns need for each language
+ */
+
+import type { Language } from './types.js';
+
+/**
+ * Languages a list can be analyzed in
+ */
+export const LANGUAGES: readonly Language[] = ['en', 'es', 'de', 'fr'];
+
+/**
+ * Words and verb forms that tell how an item opens in one language
+ * English uses the part-of-speech tagger instead (see tagger.ts)
+ */
+export interface LanguagePack {
+  /** Articles, demonstratives and possessives that open a noun phrase */
+  articles: Set<string>;
+  /** Subject pronouns */
+  pronouns: Set<string>;
+  /** Prepositions, contractions included ("del", "zum", "au") */
+  prepositions: Set<string>;
+  /** Coordinating conjunctions that can join two clauses ("pero", "und", "mais") */
+  conjunctions: Set<string>;
+  /** Object pronouns that may follow an infinitive or imperative */
+  clitics: Set<string>;
+  /** Finite forms of "to be", auxiliaries and common verbs that mark a full sentence */
+  finiteVerbs: Set<string>;
+  /** Finite lowercase verbs after a noun, for verb-second languages ("Der Server startet") */
+  finiteSuffix?: RegExp;
+  /** Auxiliaries that form the passive with a past participle */
+  passiveAuxiliaries: Set<string>;
+  /** Opening words of an impersonal passive ("Se recomienda") */
+  passiveOpeners: Set<string>;
+  /** Past participles */
+  participle: RegExp;
+  /** Words that open a question, possibly two words long ("por qué") */
+  questionWords: string[];
+  /** Opening of a gerund phrase, tested against the lowercased text */
+  gerund?: RegExp;
+  /** Infinitives */
+  infinitive: RegExp;
+  /** Words that end like an infinitive, gerund or participle but are not verbs */
+  nonVerbs: Set<string>;
+  /** Negations that may precede a command ("No uses", "N'utilisez pas") */
+  negations: Set<string>;
+  /** Whether infinitive bullets put the verb last ("Tests regelmäßig ausführen") */
+  infinitiveLast: boolean;
+  /** Imperative forms that no ending gives away */
+  imperatives: Set<string>;
+  /** Imperative endings ("-ez" in French) */
+  imperativeEnding?: RegExp;
+  /** Informal imperatives; they end like nouns, so only count before an object's article ("Empieza cada") */
+  objectImperative?: { ending: RegExp; articles: Set<string> };
+  /** Word that turns a leading verb into a polite imperative ("Verwenden Sie") */
+  politeImperative?: string;
+  /** Common adjectives */
+  adjectives: Set<string>;
+}
+
+// ============================================================================
+// Pattern Packs
+// ============================================================================
+
+const SPANISH: LanguagePack = {
+  articles: new Set([
+    'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'este', 'esta', 'estos', 'estas', 'ese', 'esa',
+    'cada', 'todo', 'toda', 'todos', 'todas', 'su', 'sus', 'nuestro', 'nuestra', 'nuestros', 'nuestras', 'mi',
+    'mis', 'tu', 'tus',
+  ]),
+  pronouns: new Set(['yo', 'tú', 'él', 'ella', 'nosotros', 'vosotros', 'ellos', 'ellas', 'usted', 'ustedes']),
+  prepositions: new Set([
+    'a', 'al', 'de', 'del', 'en', 'con', 'para', 'por', 'sin', 'sobre', 'entre', 'desde', 'hasta', 'según',
+    'mediante',
+  ]),
+  conjunctions: new Set(['y', 'e', 'pero', 'o', 'u', 'sino']),
+  clitics: new Set(['lo', 'la', 'los', 'las', 'le', 'les', 'se', 'me', 'te', 'nos']),
+  finiteVerbs: new Set([
+    'es', 'son', 'era', 'eran', 'fue', 'fueron', 'será', 'serán', 'está', 'están', 'ha', 'han', 'hay', 'puede',
+    'pueden', 'debe', 'deben', 'tiene', 'tienen', 'permite', 'permiten', 'hace', 'hacen', 'funciona',
+    'funcionan',
+  ]),
+  passiveAuxiliaries: new Set(['es', 'son', 'fue', 'fueron', 'será', 'serán', 'está', 'están', 'sido']),
+  passiveOpeners: new Set(['se']),
+  participle: /(?:ado|ada|ados|adas|ido|ida|idos|idas)$/,
+  questionWords: ['qué', 'cómo', 'por qué', 'cuándo', 'dónde', 'quién', 'quiénes', 'cuál', 'cuáles', 'cuánto', 'cuántos'],
+  gerund: /^\p{L}+(?:ando|iendo|yendo)(?:lo|la|los|las|le|les|se)?(?:\s|$)/u,
+  infinitive: /(?:ar|er|ir)(?:lo|la|los|las|le|les|se|me|te|nos)?$/,
+  nonVerbs: new Set([
+    'lugar', 'hogar', 'mujer', 'ayer', 'mar', 'bar', 'par', 'dólar', 'azúcar', 'mejor', 'mayor', 'menor', 'peor',
+    'anterior', 'posterior', 'interior', 'exterior', 'superior', 'inferior', 'similar', 'popular', 'regular',
+    'particular', 'familiar', 'modular', 'celular', 'nuclear', 'auxiliar', 'militar', 'singular', 'líder',
+    'carácter', 'taller', 'alquiler', 'placer', 'poder', 'cuando', 'comando', 'mando', 'resultado', 'contenido',
+    'estado', 'sentido', 'mercado', 'lado', 'apartado', 'partido', 'periodo', 'registro', 'todo', 'nada', 'vida',
+    'medida', 'salida', 'entrada', 'partida', 'comida', 'bebida', 'unidad',
+  ]),
+  negations: new Set(['no', 'nunca']),
+  infinitiveLast: false,
+  imperatives: new Set([
+    'usa', 'use', 'utiliza', 'utilice', 'configura', 'configure', 'instala', 'instale', 'agrega', 'agregue',
+    'añade', 'añada', 'evita', 'evite', 'mantén', 'mantenga', 'revisa', 'revise', 'asegúrate', 'asegúrese',
+    'crea', 'cree', 'define', 'defina', 'elimina', 'elimine', 'verifica', 'verifique', 'ejecuta', 'ejecute',
+    'guarda', 'guarde', 'actualiza', 'actualice', 'habilita', 'habilite', 'desactiva', 'desactive', 'limita',
+    'limite', 'incluye', 'incluya', 'coloca', 'coloque', 'escribe', 'escriba', 'lee', 'lea', 'haz', 'haga',
+    'pon', 'ponga', 'ten', 'tenga', 'toma', 'tome', 'sigue', 'siga', 'comprueba', 'compruebe', 'consulta',
+    'consulte', 'llama', 'llame', 'bebe', 'beba', 'descansa', 'descanse', 'evalúa', 'evalúe', 'prueba', 'pruebe',
+    'mide', 'mida', 'reduce', 'reduzca', 'divide', 'divida', 'registra', 'registre',
+  ]),
+  objectImperative: {
+    ending: /^\p{L}{3,}[ae]$/u,
+    articles: new Set([
+      'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'este', 'esta', 'estos', 'estas', 'cada', 'todo',
+      'toda', 'todos', 'todas', 'su', 'sus', 'tu', 'tus', 'nuestro', 'nuestra', 'nuestros', 'nuestras',
+    ]),
+  },
+  adjectives: new Set([
+    'rápido', 'rápida', 'fácil', 'sencillo', 'sencilla', 'seguro', 'segura', 'simple', 'compatible', 'disponible',
+    'claro', 'clara', 'breve', 'útil', 'nuevo', 'nueva', 'gratuito', 'gratuita', 'estable', 'ligero', 'ligera',
+    'flexible', 'completo', 'completa', 'válido', 'válida', 'sólido', 'sólida', 'ideal', 'opcional',
+  ]),
+};
+
+const GERMAN: LanguagePack = {
+  articles: new Set([
+    'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'eines', 'kein',
+    'keine', 'keinen', 'jeder', 'jede', 'jedes', 'jeden', 'jedem', 'alle', 'allen', 'diese', 'dieser', 'dieses',
+    'diesen', 'diesem', 'unser', 'unsere', 'unseren', 'ihr', 'ihre', 'ihren', 'sein', 'seine', 'seinen', 'mein',
+    'meine', 'meinen', 'dein', 'deine', 'deinen',
+  ]),
+  pronouns: new Set(['ich', 'du', 'er', 'sie', 'es', 'wir', 'ihr', 'man']),
+  prepositions: new Set([
+    'in', 'im', 'an', 'am', 'auf', 'aus', 'bei', 'beim', 'mit', 'nach', 'von', 'vom', 'zu', 'zum', 'zur', 'für',
+    'über', 'unter', 'durch', 'ohne', 'gegen', 'um', 'vor', 'zwischen', 'per',
+  ]),
+  conjunctions: new Set(['und', 'aber', 'oder', 'sondern', 'denn']),
+  clitics: new Set(['sie', 'es', 'ihn', 'ihm', 'ihnen', 'sich']),
+  finiteVerbs: new Set([
+    'ist', 'sind', 'war', 'waren', 'wird', 'werden', 'wurde', 'wurden', 'hat', 'haben', 'hatte', 'kann',
+    'können', 'muss', 'müssen', 'soll', 'sollen', 'darf', 'dürfen', 'gibt', 'bietet', 'macht', 'sorgt', 'läuft',
+    'bleibt',
+  ]),
+  finiteSuffix: /^[a-zäöüß]+(?:t|en)$/,
+  passiveAuxiliaries: new Set(['wird', 'werden', 'wurde', 'wurden']),
+  passiveOpeners: new Set(),
+  participle: /^(?:ge[a-zäöüß]+(?:t|en)|[a-zäöüß]+iert)$/,
+  questionWords: ['was', 'wie', 'warum', 'wann', 'wo', 'wer', 'welche', 'welcher', 'welches', 'wozu', 'wieso', 'weshalb'],
+  infinitive: /^[a-zäöüß]+(?:en|ern|eln)$/,
+  nonVerbs: new Set([
+    'wenn', 'denn', 'dann', 'oben', 'unten', 'neben', 'eben', 'gegen', 'seinen', 'einen', 'keinen', 'gesamt',
+    'genau', 'gern', 'gestern', 'gelten',
+  ]),
+  negations: new Set(['nicht', 'nie', 'niemals']),
+  infinitiveLast: true,
+  imperatives: new Set([
+    'verwende', 'nutze', 'prüfe', 'achte', 'halte', 'lies', 'schreibe', 'setze', 'stelle', 'vermeide', 'füge',
+    'lege', 'starte', 'teste', 'entferne', 'speichere', 'erstelle', 'öffne', 'wähle', 'gib', 'nimm', 'sieh',
+    'trinke', 'ruf', 'rufe', 'miss', 'kürze', 'teile',
+  ]),
+  imperativeEnding: /iere$/,
+  // Accusative articles only: "der" and "des" after a noun are genitive ("Liste der Aufgaben")
+  objectImperative: {
+    ending: /^[a-zäöüß]{3,}e$/,
+    articles: new Set([
+      'den', 'die', 'das', 'einen', 'eine', 'ein', 'jeden', 'jede', 'jedes', 'alle', 'diesen', 'diese', 'dieses',
+      'keinen', 'keine', 'deinen', 'deine', 'dein', 'ihren', 'ihre', 'unseren', 'unsere',
+    ]),
+  },
+  politeImperative: 'sie',
+  adjectives: new Set([
+    'schnell', 'einfach', 'sicher', 'kompatibel', 'stabil', 'leicht', 'klar', 'kurz', 'neu', 'flexibel',
+    'zuverlässig', 'kostenlos', 'verfügbar', 'wichtig', 'optional', 'modern', 'robust', 'effizient',
+  ]),
+};
+
+const FRENCH: LanguagePack = {
+  articles: new Set([
+    'le', 'la', 'les', 'l', 'un', 'une', 'des', 'du', 'ce', 'cet', 'cette', 'ces', 'chaque', 'tout', 'toute',
+    'tous', 'toutes', 'son', 'sa', 'ses', 'notre', 'nos', 'votre', 'vos', 'leur', 'leurs', 'mon', 'ma', 'mes',
+  ]),
+  pronouns: new Set(['je', 'tu', 'il', 'elle', 'on', 'nous', 'vous', 'ils', 'elles']),
+  prepositions: new Set([
+    'à', 'au', 'aux', 'de', 'd', 'du', 'des', 'en', 'avec', 'pour', 'par', 'sans', 'sur', 'dans', 'entre',
+    'vers', 'chez', 'selon', 'via',
+  ]),
+  conjunctions: new Set(['et', 'mais', 'ou', 'donc', 'car']),
+  clitics: new Set(['le', 'la', 'les', 'l', 'y', 'en', 'se', 's', 'lui', 'leur']),
+  finiteVerbs: new Set([
+    'est', 'sont', 'était', 'étaient', 'sera', 'seront', 'a', 'ont', 'peut', 'peuvent', 'doit', 'doivent',
+    'fait', 'font', 'permet', 'permettent', 'va', 'vont', 'reste', 'restent', 'devient', 'deviennent',
+    'fonctionne', 'fonctionnent',
+  ]),
+  passiveAuxiliaries: new Set(['est', 'sont', 'était', 'étaient', 'sera', 'seront', 'été']),
+  passiveOpeners: new Set(),
+  participle: /(?<!it)(?:é|ée|és|ées)$/,
+  questionWords: [
+    'que', 'qu', 'quoi', 'comment', 'pourquoi', 'quand', 'où', 'qui', 'quel', 'quelle', 'quels', 'quelles',
+    'combien', 'est-ce',
+  ],
+  gerund: /^en\s+\p{L}+ant\b/u,
+  infinitive: /(?:er|ir|oir|[^ao]ire|boire|faire|dre|ttre|uire|suivre|vivre)$/,
+  nonVerbs: new Set([
+    'hier', 'hiver', 'mer', 'fer', 'cher', 'super', 'plaisir', 'avenir', 'désir', 'loisir', 'soir', 'espoir',
+    'miroir', 'noir', 'couloir', 'tiroir', 'premier', 'dernier', 'entier', 'fichier', 'dossier', 'clavier',
+    'papier', 'cahier', 'quartier', 'métier', 'calendrier', 'pire', 'empire', 'ordre', 'cadre', 'désordre',
+    'lettre', 'cluster', 'docker', 'server', 'container', 'header', 'footer', 'buffer', 'parser',
+    'router', 'worker', 'timer', 'layer', 'user', 'filter', 'logger', 'handler', 'driver', 'browser', 'manager',
+    'année', 'idée', 'entrée', 'donnée', 'données', 'durée', 'journée', 'arrivée', 'pensée', 'clé', 'café', 'été',
+  ]),
+  negations: new Set(['ne', 'n', 'jamais', 'pas']),
+  infinitiveLast: false,
+  imperatives: new Set(['fais', 'sois', 'prends', 'mets', 'lis', 'écris', 'faites', 'dites', 'soyez', 'ayez']),
+  imperativeEnding: /^(?!(?:chez|assez|nez)$)\p{L}{2,}ez$/u,
+  adjectives: new Set([
+    'rapide', 'simple', 'facile', 'sûr', 'sûre', 'compatible', 'disponible', 'stable', 'léger', 'légère',
+    'clair', 'claire', 'fiable', 'gratuit', 'gratuite', 'flexible', 'nouveau', 'nouvelle', 'robuste', 'efficace',
+    'optionnel', 'optionnelle',
+  ]),
+};
+
+const PACKS: Record<Exclude<Language, 'en'>, LanguagePack> = { es: SPANISH, de: GERMAN, fr: FRENCH };
+
+/**
+ * Pattern pack of a language; English has none and uses the tagger
+ */
+export function languagePack(language: Language): LanguagePack | undefined {
+  return language === 'en' ? undefined : PACKS[language];
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Frequent short words of each language, the strongest signal in short texts
+ */
+const STOPWORDS: Record<Language, Set<string>> = {
+  en: new Set([
+    'the', 'and', 'of', 'to', 'a', 'in', 'is', 'for', 'with', 'on', 'that', 'this', 'be', 'are', 'your', 'it',
+    'by', 'from', 'or', 'use', 'when', 'before', 'after', 'each', 'every', 'all',
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'de', 'del', 'y', 'en', 'que', 'un', 'una', 'para', 'con', 'por', 'es', 'se',
+    'su', 'al', 'lo', 'como', 'más', 'cada', 'antes', 'después', 'cuando',
+  ]),
+  de: new Set([
+    'der', 'die', 'das', 'den', 'dem', 'des', 'und', 'ist', 'nicht', 'mit', 'für', 'ein', 'eine', 'zu', 'von',
+    'auf', 'im', 'sie', 'werden', 'wird', 'oder', 'bei', 'auch', 'vor', 'nach', 'jede', 'alle',
+  ]),
+  fr: new Set([
+    'le', 'la', 'les', 'des', 'du', 'de', 'et', 'est', 'une', 'un', 'pour', 'dans', 'avec', 'sur', 'pas', 'que',
+    'qui', 'au', 'aux', 'par', 'ce', 'ne', 'vous', 'chaque', 'avant', 'après',
+  ]),
+};
+
+/**
+ * Letters that only some of the languages use
+ */
+const LETTER_HINTS: Array<[Language, RegExp]> = [
+  ['es', /[ñ¿¡]/g],
+  ['de', /[ßäöü]/g],
+  ['fr', /[çèêàùœ]/g],
+];
+
+/**
+ * Words of a text in any of the supported languages, split at apostrophes ("l'application")
+ */
+export function languageWords(text: string): string[] {
+  return text.match(/[\p{L}\p{N}]+(?:-[\p{L}\p{N}]+)*/gu) ?? [];
+}
+
+/**
+ * Guess the language of a list from its stopwords and telltale letters
+ * Falls back to English when no language stands out
+ */
+export function detectLanguage(texts: string[]): Language {
+  const text = texts.join(' ');
+  const words = languageWords(text.toLowerCase());
+  const scores = new Map<Language, number>(LANGUAGES.map((language) => [language, 0]));
+
+  for (const word of words) {
+    for (const language of LANGUAGES) {
+      if (STOPWORDS[language].has(word)) scores.set(language, scores.get(language)! + 1);
+    }
+  }
+  for (const [language, letters] of LETTER_HINTS) {
+    scores.set(language, scores.get(language)! + (text.match(letters)?.length ?? 0));
+  }
+
+  const [best, runnerUp] = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  if (best[0] === 'en' || best[1] < 2 || best[1] === runnerUp[1]) return 'en';
+  return best[0];
+}
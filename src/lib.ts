@@ -0,0 +1,182 @@
+/**
+ * bullet-mcp library entry point
+ * Side-effect-free API for embedding the scorer in Node applications
+ */
+
+import type {
+  BatchResult,
+  BulletAnalysis,
+  BulletConfig,
+  BulletInput,
+  CompareResult,
+  Context,
+  DocumentAnalysis,
+  FixResult,
+  OrderResult,
+  RankResult,
+  Rule,
+  SplitResult,
+} from './types.js';
+import { DEFAULT_CONFIG } from './config.js';
+import { BulletServer } from './server.js';
+
+/**
+ * Analyze a bullet list and return the typed analysis
+ * Accepts the same input as the `bullet` tool and throws if it is malformed
+ */
+export function analyzeBullets(
+  input: BulletInput,
+  config: BulletConfig = DEFAULT_CONFIG,
+  customRules: Rule[] = []
+): BulletAnalysis {
+  return new BulletServer(config, customRules).analyzeInput(input);
+}
+
+/**
+ * Analyze every list in a Markdown document
+ * Same result as the `bullet_scan` tool
+ */
+export function scanDocument(
+  document: string,
+  context: Context = 'document',
+  config: BulletConfig = DEFAULT_CONFIG,
+  customRules: Rule[] = []
+): DocumentAnalysis {
+  return new BulletServer(config, customRules).scanDocument(document, context);
+}
+
+/**
+ * Apply safe mechanical fixes to a bullet list
+ * Same result as the `bullet_fix` tool
+ */
+export function fixBullets(
+  input: BulletInput,
+  config: BulletConfig = DEFAULT_CONFIG,
+  customRules: Rule[] = []
+): FixResult {
+  return new BulletServer(config, customRules).fixInput(input);
+}
+
+/**
+ * Propose the recall-optimal order of each list
+ * Same result as the `bullet_reorder` tool
+ */
+export function reorderBullets(
+  input: BulletInput,
+  config: BulletConfig = DEFAULT_CONFIG,
+  customRules: Rule[] = []
+): OrderResult {
+  return new BulletServer(config, customRules).reorderInput(input);
+}
+
+/**
+ * Split oversized lists into categorized groups
+ * Same result as the `bullet_split` tool
+ */
+export function splitBullets(
+  input: BulletInput,
+  config: BulletConfig = DEFAULT_CONFIG,
+  customRules: Rule[] = []
+): SplitResult {
+  return new BulletServer(config, customRules).splitInput(input);
+}
+
+/**
+ * Compare two drafts rule by rule and issue by issue
+ * Same result as the `bullet_compare` tool
+ */
+export function compareBullets(
+  before: BulletInput,
+  after: BulletInput,
+  config: BulletConfig = DEFAULT_CONFIG,
+  customRules: Rule[] = []
+): CompareResult {
+  return new BulletServer(config, customRules).compareInput({ before, after });
+}
+
+/**
+ * Analyze many independent lists, keyed by caller-supplied ids
+ * Same result as the `bullet_batch` tool
+ */
+export function analyzeBatch(
+  entries: Array<{ id: string; input: BulletInput }>,
+  config: BulletConfig = DEFAULT_CONFIG,
+  customRules: Rule[] = []
+): BatchResult {
+  return new BulletServer(config, customRules).batchInput({ entries });
+}
+
+/**
+ * Rank alternative candidates for the same content, best first
+ * Same result as the `bullet_rank` tool
+ */
+export function rankBullets(
+  candidates: BulletInput[],
+  config: BulletConfig = DEFAULT_CONFIG,
+  customRules: Rule[] = []
+): RankResult {
+  return new BulletServer(config, customRules).rankInput({ candidates });
+}
+
+export { BulletServer } from './server.js';
+export { DEFAULT_CONFIG, loadConfig } from './config.js';
+export { parseMarkdown, scanMarkdownLists } from './markdown.js';
+export { parseHtml } from './html.js';
+export { detectLanguage } from './language.js';
+export { BUILT_IN_RULES, RuleRegistry, loadCustomRules } from './rules.js';
+export * from './constants.js';
+
+export type {
+  Audience,
+  BatchEntryResult,
+  BatchResult,
+  BulletAnalysis,
+  BulletConfig,
+  BulletInput,
+  BulletItem,
+  BulletSection,
+  CompareResult,
+  Context,
+  ContextFit,
+  DisplayConfig,
+  DocumentAnalysis,
+  FixEdit,
+  FixKind,
+  FixResult,
+  Grade,
+  IssueChange,
+  ItemMove,
+  Language,
+  LengthSpread,
+  LineLength,
+  ListAnalysis,
+  ListOrder,
+  OrderResult,
+  RankCriterion,
+  RankedCandidate,
+  RankResult,
+  ReadabilityMetrics,
+  ReadabilityReport,
+  ResolvedRule,
+  ResolvedRules,
+  Rule,
+  RuleContext,
+  RuleDelta,
+  RuleId,
+  RuleOverride,
+  RuleScore,
+  RulesConfig,
+  RuleThresholds,
+  RuleViolationCount,
+  Thresholds,
+  ScoreDistribution,
+  SectionComparison,
+  SectionScore,
+  Severity,
+  SourceLocation,
+  SplitGroup,
+  SplitResult,
+  StructuredBulletList,
+  ValidationConfig,
+  ValidationIssue,
+} from './types.js';
@@ -0,0 +1,369 @@
+/**
+ * Markdown parsing for bullet-mcp
+ * Converts Markdown lists and headings into BulletItem trees
+ */
+
+import type { BulletItem, BulletSection, SourceLocation } from './types.js';
+
+// ============================================================================
+// Line Patterns
+// ============================================================================
+
+/** Bullet (-, *, +) or numbered (1. / 1)) list item */
+const LIST_ITEM = /^([ \t]*)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+
+/** ATX heading (# Title) with optional closing hashes */
+const HEADING = /^ {0,3}(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+
+/** Opening or closing code fence */
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/** Thematic break (---, ***, ___) */
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+
+/** Table row or blockquote line - never part of a bullet list */
+const TABLE_OR_QUOTE = /^[ \t]*[|>]/;
+
+/** Opening delimiter of YAML (---) or TOML (+++) front matter */
+const FRONT_MATTER = /^(---|\+\+\+)[ \t]*$/;
+
+/** Indentation at which a line outside a list becomes an indented code block */
+const CODE_INDENT = 4;
+
+/** Tab stop width used when measuring indentation */
+const TAB_WIDTH = 4;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A heading found in the Markdown source
+ */
+export interface MarkdownHeading {
+  /** Heading text without the leading hashes */
+  text: string;
+  /** Heading level (1-6) */
+  level: number;
+  /** Position of the heading text */
+  location: SourceLocation;
+}
+
+/**
+ * A contiguous list found in the Markdown source
+ */
+export interface MarkdownList {
+  /** Nearest heading above the list, if any */
+  heading?: MarkdownHeading;
+  /** Paragraphs between the heading (or previous list) and this list */
+  paragraphs: string[];
+  /** Top-level items of the list */
+  items: BulletItem[];
+  /** Position of the first item */
+  location: SourceLocation;
+  /** Last source line belonging to the list */
+  endLine: number;
+}
+
+/**
+ * Result of parsing Markdown into bullet input
+ */
+export interface ParsedMarkdown {
+  /** Top-level items when the source has no headings (flat mode) */
+  items?: BulletItem[];
+  /** One section per heading that owns a list (sectioned mode) */
+  sections?: BulletSection[];
+  /** Source position of every parsed item */
+  locations: Map<BulletItem, SourceLocation>;
+}
+
+/**
+ * Fallback text for sections that have no paragraph of their own
+ */
+export interface MarkdownDefaults {
+  title: string;
+  description: string;
+  intro: string;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Measure leading whitespace, expanding tabs to the next tab stop
+ */
+function indentWidth(whitespace: string): number {
+  let width = 0;
+  for (const char of whitespace) {
+    width = char === '\t' ? width + TAB_WIDTH - (width % TAB_WIDTH) : width + 1;
+  }
+  return width;
+}
+
+/**
+ * Find the line index after YAML/TOML front matter (0 if there is none)
+ */
+function skipFrontMatter(lines: string[]): number {
+  const open = FRONT_MATTER.exec(lines[0] ?? '');
+  if (!open) return 0;
+
+  const closers = open[1] === '---' ? ['---', '...'] : ['+++'];
+  for (let i = 1; i < lines.length; i++) {
+    if (closers.includes(lines[i].trim())) {
+      return i + 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Drop items without text, moving their children up to take their place
+ */
+function pruneEmptyItems(
+  items: BulletItem[],
+  locations: Map<BulletItem, SourceLocation>,
+  emptyItems: SourceLocation[]
+): BulletItem[] {
+  return items.flatMap((item) => {
+    const children = item.children ? pruneEmptyItems(item.children, locations, emptyItems) : undefined;
+    if (item.text.length === 0) {
+      emptyItems.push(locations.get(item)!);
+      locations.delete(item);
+      return children ?? [];
+    }
+    if (children?.length) {
+      item.children = children;
+    } else {
+      delete item.children;
+    }
+    return [item];
+  });
+}
+
+/**
+ * Scan Markdown source and return every list with its surrounding context
+ * Front matter, fenced and indented code, tables and blockquotes are ignored.
+ * Empty items ("-" alone) are left out and their positions added to emptyItems
+ */
+export function scanMarkdownLists(
+  source: string,
+  locations: Map<BulletItem, SourceLocation> = new Map(),
+  emptyItems: SourceLocation[] = []
+): MarkdownList[] {
+  const lines = source.split(/\r?\n/);
+  const lists: MarkdownList[] = [];
+
+  let heading: MarkdownHeading | undefined;
+  let paragraphs: string[] = [];
+  let paragraph: string[] = [];
+  let fence: string | undefined;
+
+  // Open list state
+  let list: MarkdownList | undefined;
+  let stack: Array<{ indent: number; items: BulletItem[] }> = [];
+  let lastItem: BulletItem | undefined;
+  let lastListLine = 0;
+  let blankSinceItem = false;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      paragraphs.push(paragraph.join(' '));
+      paragraph = [];
+    }
+  };
+
+  const closeList = () => {
+    if (list) {
+      list.endLine = lastListLine;
+      list.items = pruneEmptyItems(list.items, locations, emptyItems);
+      if (list.items.length > 0) {
+        lists.push(list);
+      }
+      list = undefined;
+      stack = [];
+      lastItem = undefined;
+      paragraphs = [];
+    }
+  };
+
+  const bodyStart = skipFrontMatter(lines);
+
+  lines.forEach((raw, lineIndex) => {
+    const lineNumber = lineIndex + 1;
+
+    if (lineIndex < bodyStart) {
+      return;
+    }
+
+    if (fence) {
+      if (raw.trim().startsWith(fence)) {
+        fence = undefined;
+      }
+      return;
+    }
+
+    const fenceMatch = FENCE.exec(raw);
+    if (fenceMatch) {
+      closeList();
+      flushParagraph();
+      fence = fenceMatch[1];
+      return;
+    }
+
+    if (raw.trim().length === 0) {
+      if (list) {
+        blankSinceItem = true;
+      } else {
+        flushParagraph();
+      }
+      return;
+    }
+
+    const headingMatch = HEADING.exec(raw);
+    if (headingMatch) {
+      closeList();
+      flushParagraph();
+      paragraphs = [];
+      heading = {
+        text: headingMatch[2].trim(),
+        level: headingMatch[1].length,
+        location: { line: lineNumber, column: raw.indexOf(headingMatch[2]) + 1 },
+      };
+      return;
+    }
+
+    if (THEMATIC_BREAK.test(raw) || TABLE_OR_QUOTE.test(raw)) {
+      closeList();
+      flushParagraph();
+      return;
+    }
+
+    const leading = indentWidth(raw.match(/^[ \t]*/)![0]);
+    if (!list && paragraph.length === 0 && leading >= CODE_INDENT) {
+      // Indented code block
+      return;
+    }
+
+    const itemMatch = LIST_ITEM.exec(raw);
+    if (itemMatch) {
+      const indent = indentWidth(itemMatch[1]);
+      const text = (itemMatch[3] ?? '').trim();
+      const column = text.length > 0
+        ? raw.indexOf(text, itemMatch[1].length + itemMatch[2].length) + 1
+        : itemMatch[1].length + 1;
+
+      const item: BulletItem = { text };
+      locations.set(item, { line: lineNumber, column });
+
+      if (!list) {
+        flushParagraph();
+        list = { heading, paragraphs, items: [], location: { line: lineNumber, column }, endLine: lineNumber };
+        stack = [{ indent, items: list.items }];
+      } else {
+        const top = stack[stack.length - 1];
+        if (indent > top.indent && lastItem) {
+          // Deeper indentation nests under the previous item
+          lastItem.children = lastItem.children ?? [];
+          stack.push({ indent, items: lastItem.children });
+        } else {
+          while (stack.length > 1 && indent < stack[stack.length - 1].indent) {
+            stack.pop();
+          }
+        }
+      }
+
+      stack[stack.length - 1].items.push(item);
+      lastItem = item;
+      lastListLine = lineNumber;
+      blankSinceItem = false;
+      return;
+    }
+
+    // Plain text: continuation of the previous item or a paragraph
+    if (list && lastItem) {
+      if (!blankSinceItem || leading > stack[0].indent) {
+        if (lastItem.text.length === 0) {
+          // Item whose text starts on the line after its marker
+          locations.set(lastItem, { line: lineNumber, column: raw.length - raw.trimStart().length + 1 });
+          lastItem.text = raw.trim();
+        } else {
+          lastItem.text = `${lastItem.text} ${raw.trim()}`;
+        }
+        lastListLine = lineNumber;
+        return;
+      }
+      closeList();
+    }
+
+    paragraph.push(raw.trim());
+  });
+
+  closeList();
+  return lists;
+}
+
+/**
+ * A parsed list with the heading and paragraphs that precede it
+ */
+export interface HeadedList {
+  heading?: { text: string };
+  paragraphs: string[];
+  items: BulletItem[];
+}
+
+/**
+ * Group lists under the heading that precedes them
+ * Returns flat items when no list has a heading; otherwise one section per
+ * heading, with lists above the first heading grouped under the default title
+ */
+export function groupListsByHeading(
+  lists: HeadedList[],
+  defaults: MarkdownDefaults
+): { items?: BulletItem[]; sections?: BulletSection[] } {
+  if (lists.every((l) => !l.heading)) {
+    return { items: lists.flatMap((l) => l.items) };
+  }
+
+  const sections: BulletSection[] = [];
+  const byHeading = new Map<HeadedList['heading'], BulletSection>();
+
+  for (const list of lists) {
+    let section = byHeading.get(list.heading);
+    if (!section) {
+      const [first, ...rest] = list.paragraphs;
+      section = {
+        title: list.heading?.text ?? defaults.title,
+        description: rest.length > 0 ? first : defaults.description,
+        intro: list.paragraphs.length > 0 ? list.paragraphs[list.paragraphs.length - 1] : defaults.intro,
+        items: [],
+      };
+      byHeading.set(list.heading, section);
+      sections.push(section);
+    }
+    section.items.push(...list.items);
+  }
+
+  return { sections };
+}
+
+/**
+ * Parse Markdown into flat items or heading-based sections
+ * Sources without headings produce a flat list; otherwise each heading
+ * that owns a list becomes a section
+ */
+export function parseMarkdown(source: string, defaults: MarkdownDefaults): ParsedMarkdown {
+  const locations = new Map<BulletItem, SourceLocation>();
+  const emptyItems: SourceLocation[] = [];
+  const lists = scanMarkdownLists(source, locations, emptyItems);
+
+  if (emptyItems.length > 0) {
+    const [{ line, column }] = emptyItems;
+    throw new Error(`Empty list item at line ${line}, column ${column}`);
+  }
+  if (lists.length === 0) {
+    throw new Error('Markdown input contains no list items');
+  }
+
+  return { ...groupListsByHeading(lists, defaults), locations };
+}
@@ -0,0 +1,102 @@
+/**
+ * Serial position optimizer for bullet-mcp
+ * Proposes the item order that maximizes importance-weighted recall on the
+ * U-shaped serial position curve
+ */
+
+import type { BulletItem, ItemMove, RuleThresholds } from './types.js';
+import { RECALL_CURVE } from './constants.js';
+
+/**
+ * Relative recall of a position (1 at the first and last item, VALLEY_RECALL in the middle)
+ */
+export function recallWeight(
+  position: number,
+  count: number,
+  zones: RuleThresholds['SERIAL_POSITION']
+): number {
+  const fromEnd = count - 1 - position;
+  const primacy = zones.PRIMACY_ZONE > 0 ? Math.exp(-position / zones.PRIMACY_ZONE) : 0;
+  const recency = zones.RECENCY_ZONE > 0 ? Math.exp(-fromEnd / zones.RECENCY_ZONE) : 0;
+  return RECALL_CURVE.VALLEY_RECALL + (1 - RECALL_CURVE.VALLEY_RECALL) * Math.max(primacy, recency);
+}
+
+/**
+ * Value of an item when maximizing recall
+ */
+function importanceValue(item: BulletItem): number {
+  return RECALL_CURVE.IMPORTANCE_VALUES[item.importance ?? 'medium'];
+}
+
+/**
+ * Importance-weighted recall of an order (0-1)
+ */
+export function expectedRecall(items: BulletItem[], zones: RuleThresholds['SERIAL_POSITION']): number {
+  const total = items.reduce((sum, item) => sum + importanceValue(item), 0);
+  const recalled = items.reduce(
+    (sum, item, position) => sum + importanceValue(item) * recallWeight(position, items.length, zones),
+    0
+  );
+  return total > 0 ? Math.round((recalled / total) * 1000) / 1000 : 0;
+}
+
+/**
+ * Compute the order that maximizes expected recall
+ * Locked items keep their index. Remaining positions are filled tier by tier
+ * (high, medium, low) from the best-recalled position down; within a tier,
+ * items already in a chosen position stay put so equivalent orders are left alone
+ */
+export function optimizeOrder(
+  items: BulletItem[],
+  zones: RuleThresholds['SERIAL_POSITION']
+): { items: BulletItem[]; moves: ItemMove[] } {
+  const count = items.length;
+  // Compare weights with a tolerance so the first and last positions tie
+  const weightOf = (position: number) => Math.round(recallWeight(position, count, zones) * 1e6);
+
+  const placed: Array<number | undefined> = items.map((item, index) => (item.locked ? index : undefined));
+  let free = items.map((_, index) => index).filter((index) => !items[index].locked);
+
+  const tiers = [...new Set(Object.values(RECALL_CURVE.IMPORTANCE_VALUES))].sort((a, b) => b - a);
+  for (const value of tiers) {
+    const tier = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => !item.locked && importanceValue(item) === value)
+      .map(({ index }) => index);
+    if (tier.length === 0) continue;
+
+    // Best positions first; on ties prefer positions this tier already holds
+    const chosen = [...free]
+      .sort(
+        (a, b) =>
+          weightOf(b) - weightOf(a) ||
+          Number(tier.includes(b)) - Number(tier.includes(a)) ||
+          a - b
+      )
+      .slice(0, tier.length);
+
+    const staying = tier.filter((index) => chosen.includes(index));
+    const moving = tier.filter((index) => !chosen.includes(index));
+    const open = chosen.filter((position) => !staying.includes(position)).sort((a, b) => a - b);
+
+    staying.forEach((index) => (placed[index] = index));
+    moving.forEach((index, i) => (placed[index] = open[i]));
+    free = free.filter((position) => !chosen.includes(position));
+  }
+
+  const ordered: BulletItem[] = new Array(count);
+  const moves: ItemMove[] = new Array(count);
+  items.forEach((item, index) => {
+    const position = placed[index]!;
+    ordered[position] = item;
+    moves[position] = {
+      text: item.text,
+      ...(item.importance && { importance: item.importance }),
+      ...(item.locked && { locked: true }),
+      from_index: index,
+      to_index: position,
+    };
+  });
+
+  return { items: ordered, moves };
+}
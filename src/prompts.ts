@@ -0,0 +1,235 @@
+/**
+ * MCP prompts for bullet-mcp
+ * Summarization templates that embed the thresholds in use and ask the model
+ * to check its output with the bullet tool
+ */
+
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import type { Audience, Context, ResolvedRules, RulesConfig, RuleThresholds } from './types.js';
+import { GRADES } from './constants.js';
+import { contextRules, CONTEXTS } from './contexts.js';
+import { AUDIENCES, targetGrade } from './readability.js';
+
+/**
+ * Advice for each context, from the research behind the context check
+ */
+const CONTEXT_ADVICE: Record<Context, string> = {
+  document:
+    'Keep the items homogeneous: bullets improve recall by about a third for related content but hide the reasoning that connects ideas.',
+  presentation:
+    'Presentations are 43% more persuasive with visuals than with bullets, so keep every slide sparse and leave the explanation to the narration.',
+  reference: 'Readers will scan for one item, so group related items under sub-bullets and keep formatting identical.',
+  email: 'Put the request or decision first and keep the list flat; many readers only see the preview, often on a phone.',
+  chat: 'Keep it short enough to read at a glance in a chat window; move details to a thread or a linked document.',
+  slide: 'Follow the 6x6 guideline: at most six bullets of about six words, with the explanation left to the speaker.',
+  changelog:
+    'Write one entry per change, start every entry the same way (e.g. "Fix ...") and group entries by kind of change: Added, Changed, Deprecated, Removed, Fixed, Security.',
+  'executive-summary':
+    'Give only the 3-5 key messages, lead with the conclusion or recommendation and keep supporting detail out of the list.',
+};
+
+const SOURCE_TEXT = { name: 'source_text', description: 'Text to summarize', required: true };
+const CONTEXT = {
+  name: 'context',
+  description:
+    'Where the list will be used: document (default), presentation, reference, email, chat, slide, changelog or executive-summary',
+};
+const AUDIENCE = {
+  name: 'audience',
+  description: 'Who will read the list, setting the target reading grade: general (default), low-literacy or expert',
+};
+
+/**
+ * Prompt templates offered by the server
+ */
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'summarize-as-bullets',
+    title: 'Summarize as bullets',
+    description: 'Summarize text as a single evidence-based bullet list',
+    arguments: [SOURCE_TEXT, CONTEXT, AUDIENCE],
+  },
+  {
+    name: 'sectioned-report',
+    title: 'Sectioned report',
+    description: 'Summarize long text as a report with one short bullet list per section',
+    arguments: [SOURCE_TEXT, CONTEXT, AUDIENCE],
+  },
+  {
+    name: 'presentation-outline',
+    title: 'Presentation outline',
+    description: 'Turn text into a slide outline with one sparse bullet list per slide',
+    arguments: [SOURCE_TEXT, AUDIENCE],
+  },
+];
+
+/**
+ * Writing rules for the enabled built-in rules, with the thresholds in use
+ */
+function guidelines(
+  rules: ResolvedRules,
+  audience: Audience,
+  listLength: (limits: RuleThresholds['LIST_LENGTH']) => string
+): string[] {
+  const lines: string[] = [];
+  const thresholds = <K extends keyof RuleThresholds>(id: K) =>
+    rules[id]?.enabled ? (rules[id].thresholds as RuleThresholds[K]) : undefined;
+
+  const length = thresholds('LIST_LENGTH');
+  if (length) lines.push(listLength(length));
+
+  const line = thresholds('LINE_LENGTH');
+  if (line) {
+    lines.push(
+      `Keep each item ${line.OPTIMAL_MIN_CHARS}-${line.OPTIMAL_MAX_CHARS} characters (${line.OPTIMAL_CHARS} is ideal), never over ${line.HARD_MAX_CHARS}.`
+    );
+  }
+
+  const hierarchy = thresholds('HIERARCHY');
+  if (hierarchy) lines.push(`Nest at most ${hierarchy.MAX_DEPTH} levels deep.`);
+
+  const position = thresholds('SERIAL_POSITION');
+  if (position) {
+    lines.push(
+      `Put the most important points in the first ${position.PRIMACY_ZONE} or last ${position.RECENCY_ZONE} positions and mark them with importance "high"; readers remember the middle least.`
+    );
+  }
+
+  if (thresholds('STRUCTURE')) {
+    lines.push('Start every item with the same grammatical pattern, for example an imperative verb.');
+  }
+
+  const firstWords = thresholds('FIRST_WORDS');
+  if (firstWords) {
+    lines.push(`Make the first ${firstWords.CRITICAL_WORD_COUNT} words of each item distinct and informative.`);
+  }
+
+  if (thresholds('FORMATTING')) {
+    lines.push('Use the same ending punctuation and capitalization on every item.');
+  }
+
+  const uniformity = thresholds('LENGTH_UNIFORMITY');
+  if (uniformity) {
+    lines.push(
+      `Keep items about the same length: none more than ${uniformity.OUTLIER_PERCENT}% shorter or longer than the average.`
+    );
+  }
+
+  const conciseness = thresholds('CONCISENESS');
+  if (conciseness) {
+    lines.push(
+      `Spend at most ${conciseness.MAX_WORDS_PER_IDEA} words per item; cut filler ("in order to", "basically") and say "decide" rather than "make a decision".`
+    );
+  }
+
+  const readability = thresholds('READABILITY');
+  if (readability) {
+    lines.push(
+      `Write at a reading grade of ${targetGrade(audience, readability)} or lower for ${audience} readers: short, everyday words.`
+    );
+  }
+
+  if (thresholds('ONE_IDEA')) {
+    lines.push('Give every item one idea: no semicolons, second sentences or "and also" chains.');
+  }
+
+  return lines.map((text) => `- ${text}`);
+}
+
+/**
+ * Build the messages of a prompt from its arguments
+ * Guidelines quote the thresholds of the chosen context; `configured` thresholds win over the context's
+ */
+export function getPrompt(
+  name: string,
+  args: Record<string, string>,
+  resolved: ResolvedRules,
+  configured: RulesConfig = {}
+): GetPromptResult {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  const source = args.source_text;
+  if (typeof source !== 'string' || source.trim().length === 0) {
+    throw new Error('Missing required argument "source_text"');
+  }
+
+  // Outlines are scored slide by slide, under the 6x6 limits of the slide context
+  const context = (name === 'presentation-outline' ? 'slide' : args.context || 'document') as Context;
+  if (!CONTEXTS.includes(context)) {
+    throw new Error(`context must be one of ${CONTEXTS.join(', ')}`);
+  }
+  const rules = contextRules(resolved, context, configured);
+
+  const audience = (args.audience || 'general') as Audience;
+  if (!AUDIENCES.includes(audience)) {
+    throw new Error(`audience must be one of ${AUDIENCES.join(', ')}`);
+  }
+  const readers = audience === 'general' ? '' : ` for ${audience} readers`;
+  const settings = `"context": "${context}", "audience": "${audience}"`;
+  const check = `Revise until it scores at least ${GRADES.A} (grade A), or explain any warning you chose to keep.`;
+  let lines: string[];
+
+  if (name === 'summarize-as-bullets') {
+    lines = [
+      `Summarize the source text below as a bullet list${readers}, to be used in a ${context}.`,
+      '',
+      ...guidelines(
+        rules,
+        audience,
+        (l) => `Use ${l.MIN_ITEMS}-${l.MAX_ITEMS} items (${l.OPTIMAL_ITEMS} is optimal), never more than ${l.HARD_MAX_ITEMS}.`
+      ),
+      '',
+      'Give the list a title, a one-sentence description and an introductory phrase ending in a colon.',
+      CONTEXT_ADVICE[context],
+      '',
+      `Before answering, check the list with the "bullet" tool: {"title", "description", "intro", "items": [{"text", "importance"}], ${settings}}. ${check}`,
+    ];
+  } else if (name === 'sectioned-report') {
+    lines = [
+      `Summarize the source text below as a report${readers} with one bullet list per section, to be used in a ${context}.`,
+      '',
+      'Each section needs a title, a one-sentence description and an introductory phrase ending in a colon. In every section:',
+      ...guidelines(
+        rules,
+        audience,
+        (l) =>
+          `Use ${l.MIN_ITEMS}-${l.MAX_ITEMS} items (${l.OPTIMAL_ITEMS} is optimal), never more than ${l.HARD_MAX_ITEMS}; add a section instead.`
+      ),
+      '',
+      'Give the report an overall title, description and introductory phrase too.',
+      CONTEXT_ADVICE[context],
+      '',
+      `Before answering, check the report with the "bullet" tool in sections mode: {"title", "description", "intro", "sections": [{"title", "description", "intro", "items": [...]}], ${settings}}. ${check} Fix the lowest-scoring section first.`,
+    ];
+  } else {
+    lines = [
+      `Turn the source text below into a presentation outline${readers}, with one bullet list per slide.`,
+      '',
+      'Each slide needs a title, a one-sentence speaker note as its description and an introductory phrase ending in a colon. On every slide:',
+      ...guidelines(
+        rules,
+        audience,
+        (l) => `Use ${l.MIN_ITEMS}-${l.OPTIMAL_ITEMS} items; fewer is better on a slide, and never more than ${l.MAX_ITEMS}.`
+      ),
+      '',
+      CONTEXT_ADVICE.presentation,
+      CONTEXT_ADVICE.slide,
+      'Suggest a visual for any slide that explains a process, a comparison or numbers.',
+      '',
+      `Before answering, check the outline with the "bullet" tool in sections mode, one section per slide, with ${settings}. ${check}`,
+    ];
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: [...lines, '', 'Source text:', '"""', source.trim(), '"""'].join('\n') },
+      },
+    ],
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Best-of-N ranking for bullet-mcp
+ * Orders alternative candidates by score, then errors, warnings and closeness
+ * to the optimal list and line lengths, and explains the winner's lead
+ */
+
+import type { RankCriterion, RankedCandidate, RankResult } from './types.js';
+
+/** A scored candidate before ranking */
+export type RankEntry = Omit<RankedCandidate, 'rank'>;
+
+/**
+ * Comparisons in tie-break order; negative when a ranks ahead of b
+ */
+const CRITERIA: Array<[Exclude<RankCriterion, 'tie'>, (a: RankEntry, b: RankEntry) => number]> = [
+  ['score', (a, b) => b.overall_score - a.overall_score],
+  ['errors', (a, b) => a.error_count - b.error_count],
+  ['warnings', (a, b) => a.warning_count - b.warning_count],
+  ['item_count', (a, b) => a.item_count_distance - b.item_count_distance],
+  ['line_length', (a, b) => a.line_length_distance - b.line_length_distance],
+];
+
+/**
+ * First criterion on which two candidates differ
+ */
+function decidingCriterion(a: RankEntry, b: RankEntry): RankCriterion {
+  return CRITERIA.find(([, compare]) => compare(a, b) !== 0)?.[0] ?? 'tie';
+}
+
+function label(entry: RankEntry): string {
+  return `Candidate ${entry.index + 1} ("${entry.title}")`;
+}
+
+/**
+ * Rules where the winner earned more points than the runner-up, largest gap first
+ */
+function ruleGains(winner: RankEntry, runnerUp: RankEntry): string[] {
+  return winner.analysis.scores
+    .map((score) => {
+      const other = runnerUp.analysis.scores.find((s) => s.rule === score.rule)?.earned_points ?? 0;
+      return { rule: score.rule, gain: Math.round((score.earned_points - other) * 10) / 10 };
+    })
+    .filter(({ gain }) => gain > 0)
+    .sort((a, b) => b.gain - a.gain)
+    .slice(0, 3)
+    .map(({ rule, gain }) => `${rule} +${gain}`);
+}
+
+/**
+ * Explain why the winner ranks ahead of the runner-up
+ */
+function explain(winner: RankEntry, runnerUp: RankEntry, criterion: RankCriterion): string {
+  const lead = `${label(winner)} beat ${label(runnerUp)}`;
+  switch (criterion) {
+    case 'score': {
+      const gains = ruleGains(winner, runnerUp);
+      return (
+        `${lead} on overall score (${winner.overall_score} vs ${runnerUp.overall_score})` +
+        (gains.length > 0 ? `, earning more points on ${gains.join(', ')}.` : '.')
+      );
+    }
+    case 'errors':
+      return `${lead}: both scored ${winner.overall_score}, but it has fewer errors (${winner.error_count} vs ${runnerUp.error_count}).`;
+    case 'warnings':
+      return `${lead}: both scored ${winner.overall_score} with ${winner.error_count} error(s), but it has fewer warnings (${winner.warning_count} vs ${runnerUp.warning_count}).`;
+    case 'item_count':
+      return `${lead}: tied on score, errors and warnings, but its lists are closer to the optimal item count (off by ${winner.item_count_distance} vs ${runnerUp.item_count_distance}).`;
+    case 'line_length':
+      return `${lead}: tied on score, errors, warnings and item count, but its average line length is closer to the optimum (off by ${winner.line_length_distance} vs ${runnerUp.line_length_distance} characters).`;
+    default:
+      return `${label(winner)} and ${label(runnerUp)} are tied on every criterion; the earlier candidate ranks first.`;
+  }
+}
+
+/**
+ * Rank scored candidates from best to worst; fully tied candidates keep input order
+ */
+export function rankCandidates(entries: RankEntry[]): RankResult {
+  const ranked = [...entries].sort(
+    (a, b) => CRITERIA.reduce((result, [, compare]) => result || compare(a, b), 0) || a.index - b.index
+  );
+  const ranking = ranked.map((entry, i) => ({ rank: i + 1, ...entry }));
+  const [winner, runnerUp] = ranking;
+
+  if (!runnerUp) {
+    return { ranking, winner_index: winner.index, explanation: `${label(winner)} is the only candidate.` };
+  }
+
+  const criterion = decidingCriterion(winner, runnerUp);
+  return {
+    ranking,
+    winner_index: winner.index,
+    decided_by: criterion,
+    explanation: explain(winner, runnerUp, criterion),
+  };
+}
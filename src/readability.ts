@@ -0,0 +1,106 @@
+/**
+ * Readability metrics for bullet-mcp
+ * Offline Flesch-Kincaid grade, syllables per word and long-word ratio, with
+ * syllables estimated from vowel groups
+ */
+
+import type { Audience, ReadabilityMetrics, RuleThresholds } from './types.js';
+import { findIdeaBreaks } from './ideas.js';
+
+/**
+ * Audiences a list can be written for
+ */
+export const AUDIENCES: readonly Audience[] = ['general', 'low-literacy', 'expert'];
+
+/**
+ * Word, syllable and sentence counts of a text
+ */
+interface TextCounts {
+  words: number;
+  syllables: number;
+  sentences: number;
+  longWords: number;
+}
+
+/**
+ * Words of a text, numbers included
+ */
+function tokenize(text: string): string[] {
+  return text.match(/[A-Za-z0-9][A-Za-z0-9'-]*/g) ?? [];
+}
+
+/**
+ * Estimate the syllables of a word from its vowel groups
+ * A silent final "e" and the "-ed"/"-es" endings are not counted; numbers count as one
+ */
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length === 0) return /[0-9]/.test(word) ? 1 : 0;
+  if (letters.length <= 3) return 1;
+
+  const base = letters.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, (ending) => ending[0]).replace(/^y/, '');
+  return Math.max(1, base.match(/[aeiouy]{1,2}/g)?.length ?? 0);
+}
+
+/**
+ * Count the words, syllables, sentences and long words of one item
+ */
+function countText(text: string, longWordChars: number): TextCounts {
+  const words = tokenize(text);
+  return {
+    words: words.length,
+    syllables: words.reduce((sum, word) => sum + countSyllables(word), 0),
+    sentences: 1 + findIdeaBreaks(text).filter((b) => b.kind === 'sentence').length,
+    longWords: words.filter((word) => word.replace(/[^A-Za-z]/g, '').length >= longWordChars).length,
+  };
+}
+
+/**
+ * Readability of a set of items, each item counting as at least one sentence
+ */
+export function measureReadability(texts: string[], longWordChars: number): ReadabilityMetrics {
+  const totals = texts
+    .map((text) => countText(text, longWordChars))
+    .reduce(
+      (sum, counts) => ({
+        words: sum.words + counts.words,
+        syllables: sum.syllables + counts.syllables,
+        sentences: sum.sentences + counts.sentences,
+        longWords: sum.longWords + counts.longWords,
+      }),
+      { words: 0, syllables: 0, sentences: 0, longWords: 0 }
+    );
+
+  if (totals.words === 0) {
+    return { grade: 0, syllables_per_word: 0, long_word_ratio: 0 };
+  }
+
+  const syllablesPerWord = totals.syllables / totals.words;
+  const grade = 0.39 * (totals.words / totals.sentences) + 11.8 * syllablesPerWord - 15.59;
+  return {
+    grade: Math.max(0, Math.round(grade * 10) / 10),
+    syllables_per_word: Math.round(syllablesPerWord * 100) / 100,
+    long_word_ratio: Math.round((totals.longWords / totals.words) * 100) / 100,
+  };
+}
+
+/**
+ * Grade level an audience should be able to read comfortably
+ */
+export function targetGrade(audience: Audience, thresholds: RuleThresholds['READABILITY']): number {
+  if (audience === 'low-literacy') return thresholds.LOW_LITERACY_GRADE;
+  if (audience === 'expert') return thresholds.EXPERT_GRADE;
+  return thresholds.GENERAL_GRADE;
+}
+
+/**
+ * Words of three or more syllables, most syllables first
+ */
+export function hardWords(text: string, limit = 3): string[] {
+  return [...new Set(tokenize(text))]
+    .map((word) => ({ word, syllables: countSyllables(word) }))
+    .filter(({ syllables }) => syllables >= 3)
+    .sort((a, b) => b.syllables - a.syllables)
+    .slice(0, limit)
+    .map(({ word }) => word);
+}
@@ -0,0 +1,144 @@
+/**
+ * MCP resources for bullet-mcp
+ * Publishes the research study, the infographic and a reference page for every
+ * registered rule; rule pages are rendered from the live rule definitions
+ */
+
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import type { ReadResourceResult, Resource } from '@modelcontextprotocol/sdk/types.js';
+import type { ResolvedRule, ResolvedRules, Rule } from './types.js';
+
+/** Package root, one level above src/ and dist/ */
+const PACKAGE_ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+/** URI of the rule index page; rule pages append the rule id */
+export const RULES_URI = 'bullet://rules';
+
+/**
+ * Documents shipped with the package
+ */
+const DOCUMENTS: Array<Resource & { path: string }> = [
+  {
+    uri: 'bullet://docs/study',
+    name: 'bullet-study',
+    title: 'The science of bullet points',
+    description: 'Research review behind every rule: working memory, serial position, parallel structure, typography and context',
+    mimeType: 'text/markdown',
+    path: 'docs/bullet-study.md',
+  },
+  {
+    uri: 'bullet://docs/infographic',
+    name: 'infographic',
+    title: 'Bullet point infographic',
+    description: 'One-page plain-text summary of the validation rules and scoring',
+    mimeType: 'text/plain',
+    path: 'infographic.txt',
+  },
+];
+
+/**
+ * List the study, the infographic, the rule index and one page per rule
+ */
+export function listResources(rules: readonly Rule[]): Resource[] {
+  return [
+    ...DOCUMENTS.map(({ path, ...resource }) => resource),
+    {
+      uri: RULES_URI,
+      name: 'rules',
+      title: 'Validation rules',
+      description: 'Every rule with its points and whether it is enabled',
+      mimeType: 'text/markdown',
+    },
+    ...rules.map((rule) => ({
+      uri: `${RULES_URI}/${rule.id}`,
+      name: `rule-${rule.id}`,
+      title: `${rule.id} rule`,
+      description: rule.description ?? `Thresholds, points and citation of the ${rule.id} rule`,
+      mimeType: 'text/markdown',
+    })),
+  ];
+}
+
+/**
+ * Read a resource by URI
+ * Rule pages show the configured settings next to the rule's defaults
+ */
+export function readResource(uri: string, rules: readonly Rule[], settings: ResolvedRules): ReadResourceResult {
+  const document = DOCUMENTS.find((doc) => doc.uri === uri);
+  if (document) {
+    return {
+      contents: [
+        { uri, mimeType: document.mimeType, text: readFileSync(join(PACKAGE_ROOT, document.path), 'utf8') },
+      ],
+    };
+  }
+
+  if (uri === RULES_URI) {
+    return { contents: [{ uri, mimeType: 'text/markdown', text: renderRuleIndex(rules, settings) }] };
+  }
+
+  const rule = uri.startsWith(`${RULES_URI}/`) ? rules.find((r) => uri === `${RULES_URI}/${r.id}`) : undefined;
+  if (rule) {
+    return { contents: [{ uri, mimeType: 'text/markdown', text: renderRulePage(rule, settings[rule.id]) }] };
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
+// ============================================================================
+// Rule Pages
+// ============================================================================
+
+/**
+ * Markdown table of every rule with its points and status
+ */
+export function renderRuleIndex(rules: readonly Rule[], settings: ResolvedRules): string {
+  const rows = rules.map((rule) => {
+    const { enabled, points } = settings[rule.id];
+    return `| [${rule.id}](${RULES_URI}/${rule.id}) | ${points} | ${enabled ? 'yes' : 'no'} | ${rule.description ?? ''} |`;
+  });
+
+  return [
+    '# Validation Rules',
+    '',
+    'Each list is scored out of the points of all enabled rules and scaled to 0-100.',
+    '',
+    '| Rule | Points | Enabled | Checks |',
+    '|------|--------|---------|--------|',
+    ...rows,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Markdown reference page for a rule: settings in use, defaults and citation
+ */
+export function renderRulePage(rule: Rule, settings: ResolvedRule): string {
+  const row = (name: string, value: string | number, fallback: string | number) =>
+    `| ${name} | ${value} | ${fallback} |`;
+
+  const lines = [`# ${rule.id}`, ''];
+  if (rule.description) {
+    lines.push(rule.description, '');
+  }
+
+  lines.push(
+    '| Setting | In use | Default |',
+    '|---------|--------|---------|',
+    row('Enabled', settings.enabled ? 'yes' : 'no', 'yes'),
+    row('Points', settings.points, rule.points),
+    row('Severity', settings.severity ?? 'per issue', 'per issue'),
+    ...Object.entries(rule.thresholds ?? {}).map(([name, value]) =>
+      row(`\`${name}\``, settings.thresholds[name] ?? value, value)
+    ),
+    '',
+    '## Research Basis',
+    '',
+    rule.citation || 'No citation provided.',
+    ''
+  );
+
+  return lines.join('\n');
+}
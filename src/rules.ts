@@ -0,0 +1,942 @@
+/**
+ * Rule registry for bullet-mcp
+ * Built-in rules plus loading of custom rules from local modules
+ */
+
+import { pathToFileURL } from 'url';
+import type { BulletItem, Rule, RuleContext, RuleScore, RuleThresholds, Thresholds, ValidationIssue } from './types.js';
+import {
+  CONCISENESS,
+  FIRST_WORDS,
+  FORMATTING,
+  HIERARCHY,
+  LENGTH_UNIFORMITY,
+  LINE_LENGTH,
+  LINE_LENGTH_ALLOWANCE,
+  LIST_LENGTH,
+  ONE_IDEA,
+  READABILITY,
+  RESEARCH_CITATIONS,
+  RULE_DESCRIPTIONS,
+  SERIAL_POSITION,
+  STRUCTURE,
+} from './constants.js';
+import { countWords, findWordiness, tighten, type WordinessKind } from './concise.js';
+import { detectGrammarPattern } from './grammar.js';
+import { findIdeaBreaks, ideaPreview, type IdeaBreak } from './ideas.js';
+import { hardWords, measureReadability, targetGrade } from './readability.js';
+import {
+  calculateMaxDepth,
+  flattenTexts,
+  getCapitalization,
+  getEndingStyle,
+  getMostCommon,
+  type EndingStyle,
+  itemLabel,
+  lengthSpread,
+  shorten,
+  walkItems,
+} from './utils.js';
+import { visibleLength } from './width.js';
+
+// ============================================================================
+// Built-in Rules
+// ============================================================================
+
+/**
+ * Validate list length against working memory research
+ */
+export const LIST_LENGTH_RULE: Rule<RuleThresholds['LIST_LENGTH']> = {
+  id: 'LIST_LENGTH',
+  points: LIST_LENGTH.POINTS,
+  citation: RESEARCH_CITATIONS.LIST_LENGTH,
+  description: RULE_DESCRIPTIONS.LIST_LENGTH,
+  childLists: true,
+  thresholds: {
+    MIN_ITEMS: LIST_LENGTH.MIN_ITEMS,
+    OPTIMAL_ITEMS: LIST_LENGTH.OPTIMAL_ITEMS,
+    MAX_ITEMS: LIST_LENGTH.MAX_ITEMS,
+    HARD_MAX_ITEMS: LIST_LENGTH.HARD_MAX_ITEMS,
+  },
+
+  validate(items, { thresholds: limits, parentPath }) {
+    const count = items.length;
+    const issues: ValidationIssue[] = [];
+    let points: number = LIST_LENGTH.POINTS;
+
+    if (count > limits.HARD_MAX_ITEMS) {
+      issues.push({
+        rule: 'LIST_LENGTH',
+        severity: 'error',
+        message: `List has ${count} items, exceeds maximum of ${limits.HARD_MAX_ITEMS}`,
+        suggestion: `Subdivide into ${Math.ceil(count / limits.OPTIMAL_ITEMS)} categorized groups of ~${limits.OPTIMAL_ITEMS} items each (the "bullet_split" tool proposes them)`,
+      });
+      points = 0;
+    } else if (count > limits.MAX_ITEMS) {
+      issues.push({
+        rule: 'LIST_LENGTH',
+        severity: 'warning',
+        message: `List has ${count} items, exceeds recommended maximum of ${limits.MAX_ITEMS}`,
+        suggestion: 'Consider subdividing or removing less critical items',
+      });
+      points = Math.max(0, points - 10);
+    } else if (count < limits.MIN_ITEMS && !parentPath) {
+      // Sub-lists may be short: a single sub-bullet is an ordinary detail in an outline
+      issues.push({
+        rule: 'LIST_LENGTH',
+        severity: 'suggestion',
+        message: `List has only ${count} item(s), below minimum of ${limits.MIN_ITEMS}`,
+        suggestion:
+          count === 1
+            ? 'Consider using prose instead of a single bullet'
+            : 'Consider adding more detail or using prose instead',
+      });
+      points = Math.max(0, points - 5);
+    }
+
+    return {
+      rule: 'LIST_LENGTH',
+      max_points: LIST_LENGTH.POINTS,
+      earned_points: points,
+      issues,
+    };
+  },
+};
+
+/**
+ * Validate hierarchy depth against information architecture research
+ */
+export const HIERARCHY_RULE: Rule<RuleThresholds['HIERARCHY']> = {
+  id: 'HIERARCHY',
+  points: HIERARCHY.POINTS,
+  citation: RESEARCH_CITATIONS.HIERARCHY,
+  description: RULE_DESCRIPTIONS.HIERARCHY,
+  thresholds: {
+    MAX_DEPTH: HIERARCHY.MAX_DEPTH,
+    HARD_MAX_DEPTH: HIERARCHY.HARD_MAX_DEPTH,
+  },
+
+  validate(items, { thresholds: limits }) {
+    const maxDepth = calculateMaxDepth(items);
+    const issues: ValidationIssue[] = [];
+    let points: number = HIERARCHY.POINTS;
+
+    // The issue points at the first item nested past the limit it breaks
+    const firstDeeper = (depth: number) => {
+      let found: number[] | undefined;
+      walkItems(items, (_item, path) => {
+        if (!found && path.length > depth) found = path;
+      });
+      return found ? { item_index: found[0], path: found } : {};
+    };
+
+    if (maxDepth > limits.HARD_MAX_DEPTH) {
+      issues.push({
+        rule: 'HIERARCHY',
+        severity: 'error',
+        message: `Hierarchy depth of ${maxDepth} exceeds usable maximum of ${limits.HARD_MAX_DEPTH}`,
+        suggestion: 'Flatten structure or use a table for complex relationships',
+        ...firstDeeper(limits.HARD_MAX_DEPTH),
+      });
+      points = 0;
+    } else if (maxDepth > limits.MAX_DEPTH) {
+      issues.push({
+        rule: 'HIERARCHY',
+        severity: 'warning',
+        message: `Hierarchy depth of ${maxDepth} exceeds recommended maximum of ${limits.MAX_DEPTH}`,
+        suggestion: `Consider flattening to ${limits.MAX_DEPTH} levels for better comprehension`,
+        ...firstDeeper(limits.MAX_DEPTH),
+      });
+      points = Math.max(0, points - 8);
+    }
+
+    return {
+      rule: 'HIERARCHY',
+      max_points: HIERARCHY.POINTS,
+      earned_points: points,
+      issues,
+    };
+  },
+};
+
+/**
+ * Validate line length against typography research
+ */
+export const LINE_LENGTH_RULE: Rule<RuleThresholds['LINE_LENGTH']> = {
+  id: 'LINE_LENGTH',
+  points: LINE_LENGTH.POINTS,
+  citation: RESEARCH_CITATIONS.LINE_LENGTH,
+  description: RULE_DESCRIPTIONS.LINE_LENGTH,
+  thresholds: {
+    MIN_CHARS: LINE_LENGTH.MIN_CHARS,
+    OPTIMAL_MIN_CHARS: LINE_LENGTH.OPTIMAL_MIN_CHARS,
+    OPTIMAL_CHARS: LINE_LENGTH.OPTIMAL_CHARS,
+    OPTIMAL_MAX_CHARS: LINE_LENGTH.OPTIMAL_MAX_CHARS,
+    HARD_MAX_CHARS: LINE_LENGTH.HARD_MAX_CHARS,
+  },
+
+  validate(items, { thresholds, language }) {
+    const issues: ValidationIssue[] = [];
+    let totalPenalty = 0;
+
+    // Translated text runs longer than English, so the limits stretch by the language's allowance
+    const stretch = 1 + LINE_LENGTH_ALLOWANCE[language] / 100;
+    const limits = {
+      MIN_CHARS: Math.round(thresholds.MIN_CHARS * stretch),
+      OPTIMAL_MAX_CHARS: Math.round(thresholds.OPTIMAL_MAX_CHARS * stretch),
+      HARD_MAX_CHARS: Math.round(thresholds.HARD_MAX_CHARS * stretch),
+    };
+
+    walkItems(items, (item, path) => {
+      // Readers see the rendered text, so markup is left out and wide characters count double
+      const raw = item.text.length;
+      const length = visibleLength(item.text);
+      const chars = length === raw ? `${length} chars` : `${length} chars visible, ${raw} raw`;
+      const located = { item_index: path[0], path, line_length: { raw, visible: length } };
+
+      if (length > limits.HARD_MAX_CHARS) {
+        issues.push({
+          rule: 'LINE_LENGTH',
+          severity: 'warning',
+          message: `Item ${itemLabel(path)} is too long (${chars}), exceeds readable maximum of ${limits.HARD_MAX_CHARS}`,
+          ...located,
+          suggestion: 'Break into two bullets or trim to essential information',
+        });
+        totalPenalty += 5;
+      } else if (length > limits.OPTIMAL_MAX_CHARS) {
+        issues.push({
+          rule: 'LINE_LENGTH',
+          severity: 'suggestion',
+          message: `Item ${itemLabel(path)} is slightly long (${chars}), above optimal of ${limits.OPTIMAL_MAX_CHARS}`,
+          ...located,
+          suggestion: 'Consider trimming for easier scanning',
+        });
+        totalPenalty += 2;
+      } else if (length < limits.MIN_CHARS && length > 0) {
+        issues.push({
+          rule: 'LINE_LENGTH',
+          severity: 'suggestion',
+          message: `Item ${itemLabel(path)} is short (${chars}), may appear sparse`,
+          ...located,
+          suggestion: 'Consider adding detail or combining with a related point',
+        });
+        totalPenalty += 1;
+      }
+    });
+
+    return {
+      rule: 'LINE_LENGTH',
+      max_points: LINE_LENGTH.POINTS,
+      earned_points: Math.max(0, LINE_LENGTH.POINTS - totalPenalty),
+      issues,
+    };
+  },
+};
+
+/**
+ * Validate serial position - important items should be first/last
+ */
+export const SERIAL_POSITION_RULE: Rule<RuleThresholds['SERIAL_POSITION']> = {
+  id: 'SERIAL_POSITION',
+  points: SERIAL_POSITION.POINTS,
+  citation: RESEARCH_CITATIONS.SERIAL_POSITION,
+  description: RULE_DESCRIPTIONS.SERIAL_POSITION,
+  childLists: true,
+  thresholds: {
+    PRIMACY_ZONE: SERIAL_POSITION.PRIMACY_ZONE,
+    RECENCY_ZONE: SERIAL_POSITION.RECENCY_ZONE,
+  },
+
+  validate(items, { thresholds: limits }) {
+    const issues: ValidationIssue[] = [];
+    let points: number = SERIAL_POSITION.POINTS;
+
+    // Positions outside the recall valley, e.g. "1, 2, or 5"
+    const keyPositions = Array.from({ length: items.length }, (_, i) => i + 1).filter(
+      (position) => position <= limits.PRIMACY_ZONE || position > items.length - limits.RECENCY_ZONE
+    );
+    const keyPositionText =
+      keyPositions.length > 1
+        ? `${keyPositions.slice(0, -1).join(', ')}, or ${keyPositions[keyPositions.length - 1]}`
+        : `${keyPositions[0]}`;
+
+    // Check if items have importance hints
+    const hasImportance = items.some((item) => item.importance);
+
+    if (hasImportance && items.length > 3) {
+      const highImportanceItems = items
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => item.importance === 'high');
+
+      highImportanceItems.forEach(({ item, index }) => {
+        const isPrimacy = index < limits.PRIMACY_ZONE;
+        const isRecency = index >= items.length - limits.RECENCY_ZONE;
+
+        if (!isPrimacy && !isRecency) {
+          issues.push({
+            rule: 'SERIAL_POSITION',
+            severity: 'warning',
+            message: `High-importance item "${shorten(item.text)}" is in recall valley (position ${index + 1})`,
+            item_index: index,
+            path: [index],
+            suggestion: `Move to position ${keyPositionText} for better recall`,
+          });
+          points -= 5;
+        }
+      });
+    } else if (items.length > 4) {
+      // Provide guidance even without explicit importance
+      issues.push({
+        rule: 'SERIAL_POSITION',
+        severity: 'suggestion',
+        message: `Consider placing most critical information in positions ${keyPositionText}`,
+        suggestion: `Items in positions ${limits.PRIMACY_ZONE + 1}-${items.length - limits.RECENCY_ZONE} are in the "recall valley" with lower retention`,
+      });
+    }
+
+    return {
+      rule: 'SERIAL_POSITION',
+      max_points: SERIAL_POSITION.POINTS,
+      earned_points: Math.max(0, points),
+      issues,
+    };
+  },
+};
+
+/**
+ * Validate parallel grammatical structure
+ */
+export const STRUCTURE_RULE: Rule = {
+  id: 'STRUCTURE',
+  points: STRUCTURE.POINTS,
+  citation: RESEARCH_CITATIONS.STRUCTURE,
+  description: RULE_DESCRIPTIONS.STRUCTURE,
+  childLists: true,
+
+  validate(items, { language }) {
+    const issues: ValidationIssue[] = [];
+    let points: number = STRUCTURE.POINTS;
+
+    if (items.length < 2) {
+      return { rule: 'STRUCTURE', max_points: STRUCTURE.POINTS, earned_points: points, issues };
+    }
+
+    // Detect starting patterns
+    const patterns = items.map((item) => detectGrammarPattern(item.text, language));
+    const dominantPattern = getMostCommon(patterns);
+
+    patterns.forEach((pattern, index) => {
+      if (dominantPattern && pattern !== 'unknown' && pattern !== dominantPattern && dominantPattern !== 'unknown') {
+        issues.push({
+          rule: 'STRUCTURE',
+          severity: 'warning',
+          message: `Item ${index + 1} uses "${pattern}" pattern while most items use "${dominantPattern}"`,
+          item_index: index,
+          path: [index],
+          suggestion: `Rewrite to match the "${dominantPattern}" pattern for consistency`,
+        });
+        points -= 4;
+      }
+    });
+
+    return {
+      rule: 'STRUCTURE',
+      max_points: STRUCTURE.POINTS,
+      earned_points: Math.max(0, points),
+      issues,
+    };
+  },
+};
+
+/**
+ * Validate first words are unique and scannable
+ */
+export const FIRST_WORDS_RULE: Rule<RuleThresholds['FIRST_WORDS']> = {
+  id: 'FIRST_WORDS',
+  points: FIRST_WORDS.POINTS,
+  citation: RESEARCH_CITATIONS.FIRST_WORDS,
+  description: RULE_DESCRIPTIONS.FIRST_WORDS,
+  childLists: true,
+  thresholds: {
+    CRITICAL_WORD_COUNT: FIRST_WORDS.CRITICAL_WORD_COUNT,
+  },
+
+  validate(items, { thresholds: limits }) {
+    const issues: ValidationIssue[] = [];
+    let points: number = FIRST_WORDS.POINTS;
+
+    // Extract first N words from each item
+    const firstWords = items.map((item) => {
+      const words = item.text.trim().split(/\s+/);
+      return words.slice(0, limits.CRITICAL_WORD_COUNT).join(' ').toLowerCase();
+    });
+
+    // Check for duplicates
+    const seen = new Map<string, number[]>();
+    firstWords.forEach((words, index) => {
+      if (!seen.has(words)) {
+        seen.set(words, []);
+      }
+      seen.get(words)!.push(index);
+    });
+
+    // One issue per repeat of an earlier item's opening; each repeated opening costs points once
+    seen.forEach(([first, ...repeats], words) => {
+      if (repeats.length === 0) return;
+      repeats.forEach((index) => {
+        issues.push({
+          rule: 'FIRST_WORDS',
+          severity: 'warning',
+          message: `Item ${index + 1} starts with the same words "${words}" as item ${first + 1}`,
+          item_index: index,
+          path: [index],
+          suggestion:
+            'Vary the opening words to help readers quickly distinguish between items',
+        });
+      });
+      points -= 3;
+    });
+
+    return {
+      rule: 'FIRST_WORDS',
+      max_points: FIRST_WORDS.POINTS,
+      earned_points: Math.max(0, points),
+      issues,
+    };
+  },
+};
+
+/**
+ * How each ending style is named in messages
+ */
+const ENDING_NAMES: Record<EndingStyle, string> = {
+  sentence: 'period',
+  colon: 'colon',
+  none: 'none',
+};
+
+/**
+ * Validate formatting consistency (punctuation, capitalization)
+ */
+export const FORMATTING_RULE: Rule = {
+  id: 'FORMATTING',
+  points: FORMATTING.POINTS,
+  citation: RESEARCH_CITATIONS.FORMATTING,
+  description: RULE_DESCRIPTIONS.FORMATTING,
+  childLists: true,
+
+  validate(items) {
+    const issues: ValidationIssue[] = [];
+    let points: number = FORMATTING.POINTS;
+
+    if (items.length < 2) {
+      return { rule: 'FORMATTING', max_points: FORMATTING.POINTS, earned_points: points, issues };
+    }
+
+    // Check ending punctuation consistency: one issue per item that differs, points lost once
+    const endChars = items.map((item) => getEndingStyle(item.text));
+
+    const dominantEnd = getMostCommon(endChars);
+    if (dominantEnd && endChars.some((e) => e !== dominantEnd)) {
+      endChars.forEach((end, index) => {
+        if (end === dominantEnd) return;
+        issues.push({
+          rule: 'FORMATTING',
+          severity: 'suggestion',
+          message: `Item ${index + 1} has inconsistent ending punctuation (${ENDING_NAMES[end]} vs ${ENDING_NAMES[dominantEnd]} in most items)`,
+          item_index: index,
+          path: [index],
+          suggestion:
+            dominantEnd === 'sentence'
+              ? 'Add periods to all items for consistency'
+              : 'Remove periods from all items for consistency',
+        });
+      });
+      points -= 2;
+    }
+
+    // Check capitalization consistency
+    const capitalizations = items.map((item) => getCapitalization(item.text));
+
+    const dominantCap = getMostCommon(capitalizations);
+    if (dominantCap && capitalizations.some((c) => c !== dominantCap)) {
+      capitalizations.forEach((cap, index) => {
+        if (cap === dominantCap) return;
+        issues.push({
+          rule: 'FORMATTING',
+          severity: 'suggestion',
+          message: `Item ${index + 1} has inconsistent capitalization (${cap}case vs ${dominantCap}case in most items)`,
+          item_index: index,
+          path: [index],
+          suggestion:
+            dominantCap === 'upper'
+              ? 'Capitalize the first letter of all items'
+              : 'Use lowercase for the first letter of all items',
+        });
+      });
+      points -= 2;
+    }
+
+    return {
+      rule: 'FORMATTING',
+      max_points: FORMATTING.POINTS,
+      earned_points: Math.max(0, points),
+      issues,
+    };
+  },
+};
+
+/**
+ * Where an item should be split, as named in suggestions
+ */
+function describeBreak(ideaBreak: IdeaBreak): string {
+  switch (ideaBreak.kind) {
+    case 'sentence':
+      return 'the sentence break';
+    case 'semicolon':
+      return 'the semicolon';
+    default:
+      return `"${ideaBreak.marker}"`;
+  }
+}
+
+/**
+ * Validate that each item carries a single idea
+ */
+export const ONE_IDEA_RULE: Rule<RuleThresholds['ONE_IDEA']> = {
+  id: 'ONE_IDEA',
+  points: ONE_IDEA.POINTS,
+  citation: RESEARCH_CITATIONS.ONE_IDEA,
+  description: RULE_DESCRIPTIONS.ONE_IDEA,
+  thresholds: {
+    MAX_IDEAS: ONE_IDEA.MAX_IDEAS,
+  },
+
+  validate(items, { thresholds: limits, language }) {
+    const issues: ValidationIssue[] = [];
+    let totalPenalty = 0;
+
+    walkItems(items, (item, path) => {
+      const breaks = findIdeaBreaks(item.text, language);
+      const ideas = breaks.length + 1;
+
+      if (ideas > limits.MAX_IDEAS) {
+        const joins = [...new Set(breaks.map(describeBreak))];
+        issues.push({
+          rule: 'ONE_IDEA',
+          severity: 'warning',
+          message: `Item ${itemLabel(path)} carries ${ideas} ideas joined by ${joins.join(' and ')}`,
+          item_index: path[0],
+          path,
+          suggestion: `Split into ${ideas} bullets: ${breaks
+            .map((b) => `break at ${describeBreak(b)} before "${ideaPreview(item.text, b.offset)}"`)
+            .join('; ')}`,
+        });
+        totalPenalty += 3 * (ideas - limits.MAX_IDEAS);
+      }
+    });
+
+    return {
+      rule: 'ONE_IDEA',
+      max_points: ONE_IDEA.POINTS,
+      earned_points: Math.max(0, ONE_IDEA.POINTS - totalPenalty),
+      issues,
+    };
+  },
+};
+
+/**
+ * Validate that items in each list and sub-list have similar lengths
+ */
+export const LENGTH_UNIFORMITY_RULE: Rule<RuleThresholds['LENGTH_UNIFORMITY']> = {
+  id: 'LENGTH_UNIFORMITY',
+  points: LENGTH_UNIFORMITY.POINTS,
+  citation: RESEARCH_CITATIONS.LENGTH_UNIFORMITY,
+  description: RULE_DESCRIPTIONS.LENGTH_UNIFORMITY,
+  thresholds: {
+    MAX_SPREAD_PERCENT: LENGTH_UNIFORMITY.MAX_SPREAD_PERCENT,
+    OUTLIER_PERCENT: LENGTH_UNIFORMITY.OUTLIER_PERCENT,
+  },
+
+  validate(items, { thresholds: limits }) {
+    const issues: ValidationIssue[] = [];
+    let totalPenalty = 0;
+
+    const checkList = (list: BulletItem[], parentPath: number[]) => {
+      const where = parentPath.length > 0 ? ` under item ${itemLabel(parentPath)}` : '';
+      const lengths = list.map((item) => visibleLength(item.text));
+      const average = Math.round(lengths.reduce((sum, length) => sum + length, 0) / Math.max(1, lengths.length));
+      const spread = lengthSpread(lengths);
+
+      if (list.length >= 2 && spread.spread_percent > limits.MAX_SPREAD_PERCENT) {
+        const uneven = spread.spread_percent > limits.MAX_SPREAD_PERCENT * 2;
+        issues.push({
+          rule: 'LENGTH_UNIFORMITY',
+          severity: uneven ? 'warning' : 'suggestion',
+          message: `Item lengths${where} vary by ±${spread.std_dev} chars (${spread.spread_percent}% of the ${average}-char average, range ${spread.min}-${spread.max})`,
+          ...(parentPath.length > 0 ? { item_index: parentPath[0], path: parentPath } : {}),
+          suggestion: `Bring items closer to ${average} characters so the list reads as uniform`,
+        });
+        totalPenalty += uneven ? 3 : 2;
+      }
+
+      // Outliers need at least three items to stand out from the rest
+      if (list.length >= 3) {
+        list.forEach((item, position) => {
+          const length = visibleLength(item.text);
+          if (average === 0 || (Math.abs(length - average) / average) * 100 <= limits.OUTLIER_PERCENT) return;
+          const longer = length > average;
+          const path = [...parentPath, position];
+          issues.push({
+            rule: 'LENGTH_UNIFORMITY',
+            severity: 'suggestion',
+            message: `Item ${itemLabel(path)} is much ${longer ? 'longer' : 'shorter'} (${length} chars) than the ${average}-char average of its list`,
+            item_index: path[0],
+            path,
+            suggestion: longer
+              ? 'Trim it or split it into two bullets'
+              : 'Add detail or merge it with a related item',
+          });
+          totalPenalty += 1;
+        });
+      }
+
+      // Check child lists recursively
+      list.forEach((item, position) => {
+        if (item.children && item.children.length > 0) {
+          checkList(item.children, [...parentPath, position]);
+        }
+      });
+    };
+
+    checkList(items, []);
+
+    return {
+      rule: 'LENGTH_UNIFORMITY',
+      max_points: LENGTH_UNIFORMITY.POINTS,
+      earned_points: Math.max(0, LENGTH_UNIFORMITY.POINTS - totalPenalty),
+      issues,
+    };
+  },
+};
+
+/**
+ * How each kind of wordy phrase is named in messages
+ */
+const WORDINESS_LABELS: Record<WordinessKind, string> = {
+  filler: 'filler phrase',
+  redundancy: 'redundant pair',
+  nominalization: 'nominalization',
+};
+
+/**
+ * Validate that items say what they need to in as few words as possible
+ */
+export const CONCISENESS_RULE: Rule<RuleThresholds['CONCISENESS']> = {
+  id: 'CONCISENESS',
+  points: CONCISENESS.POINTS,
+  citation: RESEARCH_CITATIONS.CONCISENESS,
+  description: RULE_DESCRIPTIONS.CONCISENESS,
+  thresholds: {
+    MAX_WORDS_PER_IDEA: CONCISENESS.MAX_WORDS_PER_IDEA,
+  },
+
+  validate(items, { thresholds: limits, language }) {
+    const issues: ValidationIssue[] = [];
+    let totalPenalty = 0;
+    // The phrase lists are English; translations run to more words, so the limit stretches as for line length
+    const maxWordsPerIdea = Math.round(limits.MAX_WORDS_PER_IDEA * (1 + LINE_LENGTH_ALLOWANCE[language] / 100));
+
+    walkItems(items, (item, path) => {
+      const found = language === 'en' ? findWordiness(item.text) : [];
+
+      for (const { kind, phrase, rewrite } of found) {
+        issues.push({
+          rule: 'CONCISENESS',
+          severity: 'suggestion',
+          message: `Item ${itemLabel(path)} uses the ${WORDINESS_LABELS[kind]} "${phrase}"`,
+          item_index: path[0],
+          path,
+          suggestion: rewrite ? `Replace "${phrase}" with "${rewrite}"` : `Drop "${phrase}"`,
+        });
+        totalPenalty += 1;
+      }
+
+      const words = countWords(item.text);
+      const ideas = findIdeaBreaks(item.text, language).length + 1;
+      const wordsPerIdea = Math.round((words / ideas) * 10) / 10;
+      if (wordsPerIdea > maxWordsPerIdea) {
+        const tighter = found.length > 0 ? tighten(item.text, found) : undefined;
+        issues.push({
+          rule: 'CONCISENESS',
+          severity: 'suggestion',
+          message: `Item ${itemLabel(path)} uses ${wordsPerIdea} words per idea (${words} words, ${ideas} idea${ideas === 1 ? '' : 's'}), above ${maxWordsPerIdea}`,
+          item_index: path[0],
+          path,
+          suggestion: tighter
+            ? `Tighten to "${tighter}" (${countWords(tighter)} words)`
+            : `Cut to about ${maxWordsPerIdea * ideas} words, keeping the words that carry the point`,
+        });
+        totalPenalty += 2;
+      }
+    });
+
+    return {
+      rule: 'CONCISENESS',
+      max_points: CONCISENESS.POINTS,
+      earned_points: Math.max(0, CONCISENESS.POINTS - totalPenalty),
+      issues,
+    };
+  },
+};
+
+/**
+ * Validate that the list reads at the audience's grade level
+ */
+export const READABILITY_RULE: Rule<RuleThresholds['READABILITY']> = {
+  id: 'READABILITY',
+  points: READABILITY.POINTS,
+  citation: RESEARCH_CITATIONS.READABILITY,
+  description: RULE_DESCRIPTIONS.READABILITY,
+  thresholds: {
+    LOW_LITERACY_GRADE: READABILITY.LOW_LITERACY_GRADE,
+    GENERAL_GRADE: READABILITY.GENERAL_GRADE,
+    EXPERT_GRADE: READABILITY.EXPERT_GRADE,
+    ITEM_GRADE_MARGIN: READABILITY.ITEM_GRADE_MARGIN,
+    LONG_WORD_CHARS: READABILITY.LONG_WORD_CHARS,
+  },
+
+  validate(items, { thresholds: limits, audience, language }) {
+    const issues: ValidationIssue[] = [];
+    let totalPenalty = 0;
+
+    // Flesch-Kincaid and the syllable estimate are calibrated for English only
+    if (language !== 'en') {
+      return { rule: 'READABILITY', max_points: READABILITY.POINTS, earned_points: READABILITY.POINTS, issues };
+    }
+
+    const target = targetGrade(audience, limits);
+
+    const list = measureReadability(flattenTexts(items), limits.LONG_WORD_CHARS);
+    if (list.grade > target) {
+      const far = list.grade - target > limits.ITEM_GRADE_MARGIN;
+      issues.push({
+        rule: 'READABILITY',
+        severity: far ? 'warning' : 'suggestion',
+        message: `List reads at grade ${list.grade}, above the grade ${target} target for ${audience} readers (${list.syllables_per_word} syllables per word, ${Math.round(list.long_word_ratio * 100)}% long words)`,
+        suggestion: 'Use shorter, everyday words and fewer words per item',
+      });
+      totalPenalty += far ? 5 : 2;
+    }
+
+    walkItems(items, (item, path) => {
+      const { grade } = measureReadability([item.text], limits.LONG_WORD_CHARS);
+      if (grade > target + limits.ITEM_GRADE_MARGIN) {
+        const hard = hardWords(item.text);
+        issues.push({
+          rule: 'READABILITY',
+          severity: 'suggestion',
+          message: `Item ${itemLabel(path)} reads at grade ${grade} (target ${target} for ${audience} readers)`,
+          item_index: path[0],
+          path,
+          suggestion:
+            hard.length > 0
+              ? `Replace long words such as ${hard.map((word) => `"${word}"`).join(', ')} with shorter ones`
+              : 'Shorten the item',
+        });
+        totalPenalty += 1;
+      }
+    });
+
+    return {
+      rule: 'READABILITY',
+      max_points: READABILITY.POINTS,
+      earned_points: Math.max(0, READABILITY.POINTS - totalPenalty),
+      issues,
+    };
+  },
+};
+
+/**
+ * Built-in rules, in reporting order
+ */
+export const BUILT_IN_RULES: readonly Rule[] = [
+  LIST_LENGTH_RULE,
+  HIERARCHY_RULE,
+  LINE_LENGTH_RULE,
+  SERIAL_POSITION_RULE,
+  STRUCTURE_RULE,
+  FIRST_WORDS_RULE,
+  FORMATTING_RULE,
+  ONE_IDEA_RULE,
+  LENGTH_UNIFORMITY_RULE,
+  CONCISENESS_RULE,
+  READABILITY_RULE,
+];
+
+// ============================================================================
+// Rule Application
+// ============================================================================
+
+/**
+ * Run a rule on a list and, when the rule asks for it, on every child list
+ * Child lists are validated with their parent's path in the context as parentPath.
+ * Child issues are located under their parent item and named after it; each
+ * child list's lost points count against the rule's score, floored at 0
+ */
+export function validateRule<T extends Thresholds>(
+  rule: Rule<T>,
+  items: BulletItem[],
+  ctx: RuleContext<T>,
+  parentPath: number[] = []
+): RuleScore {
+  const score = rule.validate(items, parentPath.length > 0 ? { ...ctx, parentPath } : ctx);
+  const issues = score.issues.map((issue) => (parentPath.length > 0 ? underItem(issue, parentPath) : issue));
+  let lost = score.max_points - score.earned_points;
+
+  if (rule.childLists) {
+    items.forEach((item, index) => {
+      if (!item.children || item.children.length === 0) return;
+      const child = validateRule(rule, item.children, ctx, [...parentPath, index]);
+      issues.push(...child.issues);
+      lost += child.max_points - child.earned_points;
+    });
+  }
+
+  return { ...score, earned_points: Math.max(0, score.max_points - lost), issues };
+}
+
+/**
+ * Move an issue from a child list's own numbering to the whole list's
+ * Issues about the child list itself point at its parent item
+ */
+function underItem(issue: ValidationIssue, parentPath: number[]): ValidationIssue {
+  const local = issue.path ?? (issue.item_index === undefined ? [] : [issue.item_index]);
+  const path = [...parentPath, ...local];
+  return {
+    ...issue,
+    message: `Under item ${itemLabel(parentPath)}: ${issue.message}`,
+    item_index: path[0],
+    path,
+  };
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Check that a value has the shape of a rule
+ */
+function assertRule(value: unknown, source: string): asserts value is Rule {
+  const rule = value as Partial<Rule> | null;
+  const problems: string[] = [];
+
+  if (!rule || typeof rule !== 'object') {
+    throw new Error(`Invalid rule from ${source}: expected an object`);
+  }
+  if (typeof rule.id !== 'string' || rule.id.trim().length === 0) {
+    problems.push('id must be a non-empty string');
+  }
+  if (typeof rule.points !== 'number' || !Number.isFinite(rule.points) || rule.points < 0) {
+    problems.push('points must be a number >= 0');
+  }
+  if (typeof rule.citation !== 'string') {
+    problems.push('citation must be a string');
+  }
+  if (rule.description !== undefined && typeof rule.description !== 'string') {
+    problems.push('description must be a string');
+  }
+  if (typeof rule.validate !== 'function') {
+    problems.push('validate must be a function');
+  }
+  if (rule.childLists !== undefined && typeof rule.childLists !== 'boolean') {
+    problems.push('childLists must be a boolean');
+  }
+  if (rule.thresholds !== undefined) {
+    const thresholds = rule.thresholds as unknown;
+    if (!thresholds || typeof thresholds !== 'object' || Array.isArray(thresholds)) {
+      problems.push('thresholds must be an object');
+    } else if (Object.values(thresholds).some((t) => typeof t !== 'number' || !Number.isFinite(t))) {
+      problems.push('thresholds must all be numbers');
+    }
+  }
+
+  if (problems.length > 0) {
+    const name = typeof rule.id === 'string' ? ` "${rule.id}"` : '';
+    throw new Error(`Invalid rule${name} from ${source}: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * Ordered set of rules run against every list
+ */
+export class RuleRegistry {
+  private rules = new Map<string, Rule>();
+
+  constructor(rules: readonly Rule[] = BUILT_IN_RULES) {
+    rules.forEach((rule) => this.register(rule));
+  }
+
+  /**
+   * Add a rule; ids must be unique across built-in and custom rules
+   */
+  register(rule: Rule, source = 'register()'): this {
+    assertRule(rule, source);
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Rule "${rule.id}" from ${source} is already registered`);
+    }
+    this.rules.set(rule.id, rule);
+    return this;
+  }
+
+  get(id: string): Rule | undefined {
+    return this.rules.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.rules.has(id);
+  }
+
+  /**
+   * Rules in registration order
+   */
+  list(): Rule[] {
+    return [...this.rules.values()];
+  }
+}
+
+// ============================================================================
+// Custom Rules
+// ============================================================================
+
+/**
+ * Import custom rule modules
+ * Each module default-exports a rule or an array of rules
+ */
+export async function loadCustomRules(paths: readonly string[] = []): Promise<Rule[]> {
+  const rules: Rule[] = [];
+
+  for (const path of paths) {
+    let module: Record<string, unknown>;
+    try {
+      module = await import(pathToFileURL(path).href);
+    } catch (error) {
+      throw new Error(
+        `Could not load custom rule module ${path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (module.default === undefined) {
+      throw new Error(`Custom rule module ${path} must default-export a rule or an array of rules`);
+    }
+
+    const exported = Array.isArray(module.default) ? module.default : [module.default];
+    for (const rule of exported) {
+      assertRule(rule, path);
+      rules.push(rule);
+    }
+  }
+
+  return rules;
+}
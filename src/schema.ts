@@ -13,6 +13,12 @@ INPUT MODES:
 - **Sectioned mode**: Use "sections" for long documents with multiple topics/chapters
   - Each section has its own title and items array
   - The 3-7 item rule applies PER SECTION, allowing unlimited total content
+- **Markdown mode**: Use "markdown" to submit a raw Markdown list as written
+  - Supports -, *, + and numbered lists; indentation creates nesting
+  - # headings become sections; issues include source line and column
+- **HTML mode**: Use "html" to submit an HTML fragment with <ul>/<ol> lists
+  - Nested <li> lists become sub-bullets; inline markup is stripped before measuring
+  - <h1>-<h6> headings before a list become section titles
 
 WHEN TO USE:
 - Before finalizing any bullet list summary
@@ -24,7 +30,7 @@ KEY PRINCIPLES ENFORCED:
 1. **List Length** (3-7 items per section, 5 optimal): Working memory limits mean more items decrease recall
 2. **Hierarchy** (max 2 levels): Breadth over depth for better comprehension
 3. **Serial Position**: Place critical info first and last (U-shaped recall curve)
-4. **Line Length** (45-75 chars, 66 optimal): Typography research on readability
+4. **Line Length** (45-75 chars, 66 optimal): Typography research on readability; measured as visible width without markup, wide CJK characters counting two
 5. **Parallel Structure**: Consistent grammar enables faster scanning
 6. **First Two Words**: Critical for reader fixation and scanning decisions
 
@@ -32,13 +38,26 @@ CONTEXT AWARENESS:
 - document: Optimizes for scanning and reference (default)
 - presentation: Warns that visuals may be more effective (43% more persuasive per research)
 - reference: Optimizes for quick lookup
+- email: At most 5 items, one level deep; lead with the request or decision
+- chat: 2-5 short items (20-50 chars), one level deep
+- slide: The 6x6 guideline: at most 6 items of about 6 words (15-40 chars)
+- changelog: Up to 15 entries of 30-90 chars; group by kind of change
+- executive-summary: 3-5 key messages, flat, most important first
+- Thresholds set in the config file win over the context's
 - Per-section context override supported in sectioned mode
 
+LANGUAGES:
+- English, Spanish, German and French, detected from the items or set with "language"
+- Parallel structure uses each language's verb forms (e.g. infinitive bullets: "Configurar el servidor", "Tests ausführen")
+- Line-length limits widen for languages that run longer than English
+
 SCORING:
 - 0-100 scale with letter grades (A/B/C/D/F)
 - Per-rule breakdown with research citations
 - Per-section breakdown in sectioned mode
 - Actionable improvement suggestions ranked by impact
+- List length, serial position, structure, first words and formatting also check every sub-list, deducting its lost points
+- Issues about an item carry its path from the list root (e.g. [2, 0, 1] = "Item 3.1.2") and, in sectioned mode, a section_index
 
 Returns JSON with score, grade, issues, and top improvements.`;
 
@@ -77,6 +96,10 @@ const bulletItemSchema = {
       description:
         'Priority hint for serial position optimization. High-importance items should be first or last.',
     },
+    locked: {
+      type: 'boolean',
+      description: 'Keep this item at its position when "bullet_reorder" proposes an order.',
+    },
   },
   required: ['text'],
 };
@@ -102,13 +125,13 @@ export const BULLET_TOOL: Tool = {
       items: {
         type: 'array',
         description:
-          'Array of bullet items to validate (flat mode). Use this OR sections, not both.',
+          'Array of bullet items to validate (flat mode). Use only one of items, sections, markdown or html.',
         items: bulletItemSchema,
       },
       sections: {
         type: 'array',
         description:
-          'For long documents, group bullets into sections. Each section is validated separately. Use this OR items, not both.',
+          'For long documents, group bullets into sections. Each section is validated separately. Use only one of items, sections, markdown or html.',
         items: {
           type: 'object',
           properties: {
@@ -131,20 +154,218 @@ export const BULLET_TOOL: Tool = {
             },
             context: {
               type: 'string',
-              enum: ['document', 'presentation', 'reference'],
+              enum: ['document', 'presentation', 'reference', 'email', 'chat', 'slide', 'changelog', 'executive-summary'],
               description: 'Optional context override for this section',
             },
           },
           required: ['title', 'description', 'intro', 'items'],
         },
       },
+      markdown: {
+        type: 'string',
+        description:
+          'Raw Markdown list (markdown mode). Headings become sections, indentation creates nesting. Use only one of items, sections, markdown or html.',
+      },
+      html: {
+        type: 'string',
+        description:
+          'HTML fragment with <ul>/<ol> lists (HTML mode). Headings become sections, nested lists become sub-bullets. Use only one of items, sections, markdown or html.',
+      },
       context: {
         type: 'string',
-        enum: ['document', 'presentation', 'reference'],
+        enum: ['document', 'presentation', 'reference', 'email', 'chat', 'slide', 'changelog', 'executive-summary'],
         description:
           'Usage context affects recommendations. Default: document. In sectioned mode, this is the default context (sections can override).',
       },
+      audience: {
+        type: 'string',
+        enum: ['general', 'low-literacy', 'expert'],
+        description:
+          'Intended readers; sets the target reading grade of the READABILITY rule (low-literacy: 5, general: 8, expert: 12). Default: general.',
+      },
+      language: {
+        type: 'string',
+        enum: ['en', 'es', 'de', 'fr'],
+        description:
+          'Language of the items; selects the grammar patterns of the STRUCTURE rule and widens line-length limits (es/fr +15%, de +25%). Default: detected from the text.',
+      },
     },
     required: ['title', 'description', 'intro'],
   },
 };
+
+const SCAN_TOOL_DESCRIPTION = `Scan a whole Markdown document and score every bullet list it contains.
+
+Finds each list among prose, headings, code blocks and tables, then runs the same evidence-based rules as the "bullet" tool on every list.
+
+IGNORED CONTENT:
+- YAML/TOML front matter
+- Fenced and indented code blocks
+- Tables and blockquotes
+
+Returns JSON with a document-level rollup (average score, grade, issue counts, per-rule breakdown) and a per-list analysis including the list's source line, column and nearest heading.`;
+
+export const BULLET_SCAN_TOOL: Tool = {
+  name: 'bullet_scan',
+  description: SCAN_TOOL_DESCRIPTION,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      document: {
+        type: 'string',
+        description: 'Full Markdown document to scan for bullet lists',
+      },
+      context: {
+        type: 'string',
+        enum: ['document', 'presentation', 'reference', 'email', 'chat', 'slide', 'changelog', 'executive-summary'],
+        description: 'Usage context applied to every list. Default: document.',
+      },
+    },
+    required: ['document'],
+  },
+};
+
+const FIX_TOOL_DESCRIPTION = `Apply safe, mechanical fixes to a bullet list and return the corrected list.
+
+Takes the same input as the "bullet" tool and applies only the fixes that need no judgment:
+- **Whitespace**: Trims items and collapses repeated spaces (children included)
+- **Ending punctuation**: Adds or removes periods to match the majority of items
+- **Capitalization**: Matches the first letter to the majority (acronyms and product names are never lowercased)
+- **Serial position**: Swaps importance "high" items out of the recall valley with the least important item in a first or last position
+
+Rewording (parallel structure, first words, line length) is left to the caller.
+
+Returns JSON with the fixed input (items or sections; Markdown and HTML input is converted), each edit applied, and the overall score and grade before and after.`;
+
+export const BULLET_FIX_TOOL: Tool = {
+  name: 'bullet_fix',
+  description: FIX_TOOL_DESCRIPTION,
+  inputSchema: BULLET_TOOL.inputSchema,
+};
+
+const REORDER_TOOL_DESCRIPTION = `Propose the item order that maximizes recall of the most important items.
+
+Takes the same input as the "bullet" tool. Recall follows the serial position curve: the first and last items are remembered best, the middle worst.
+- **Importance**: "high" items take the best-recalled positions, then "medium" (the default), then "low"
+- **Locked items**: Items with locked: true keep their position
+- **Stable**: Items already in an equally good position are not moved
+
+Returns JSON with the reordered input (items or sections; Markdown and HTML input is converted) and, for the flat list or every section: the proposed order, each item's move (from_index, to_index), expected recall before and after, and the SERIAL_POSITION score before and after.`;
+
+export const BULLET_REORDER_TOOL: Tool = {
+  name: 'bullet_reorder',
+  description: REORDER_TOOL_DESCRIPTION,
+  inputSchema: BULLET_TOOL.inputSchema,
+};
+
+const SPLIT_TOOL_DESCRIPTION = `Split oversized bullet lists into categorized groups.
+
+Takes the same input as the "bullet" tool. Every list with more than 7 items (the list-length maximum, or the configured MAX_ITEMS) is clustered offline into groups of 3-7 related items using:
+- **Shared words**: Content words the items have in common ("tests", "testing" and "tested" match)
+- **Leading terms**: Items that start with the same word
+- **Grammar patterns**: Items with the same structure (imperative, gerund, noun phrase, adjective phrase, passive, sentence, question)
+
+Each group gets a proposed heading from the shared word most specific to it (words used across the whole list are ranked last). Items keep their original order within a group.
+
+Returns JSON with a ready-to-use sections payload (pass it back to the "bullet" tool), each group's heading, shared terms and original item indices, and the overall score and grade before and after. In sectioned mode, oversized sections are replaced by one section per group titled "Section: Heading".`;
+
+export const BULLET_SPLIT_TOOL: Tool = {
+  name: 'bullet_split',
+  description: SPLIT_TOOL_DESCRIPTION,
+  inputSchema: BULLET_TOOL.inputSchema,
+};
+
+const COMPARE_TOOL_DESCRIPTION = `Compare two drafts of a bullet list to see which edits helped.
+
+Takes "before" and "after", each the same input as the "bullet" tool (modes may differ). Reports:
+- **Score**: Overall score and grade of each draft and the change
+- **Rules**: earned_points of every rule before and after, with the delta
+- **Issues**: Which issues were resolved, introduced or left unchanged. Issues are matched by rule and item text, so an item that moved keeps its issues (item_index_before/item_index_after and path_before/path_after show where it went)
+- **Sections**: For sectioned drafts, each section's score and grade change and its issues, matching sections by title (added and removed sections are marked)
+
+Use it after each revision round to keep the edits that raised the score and undo the ones that introduced issues.`;
+
+export const BULLET_COMPARE_TOOL: Tool = {
+  name: 'bullet_compare',
+  description: COMPARE_TOOL_DESCRIPTION,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      before: {
+        ...BULLET_TOOL.inputSchema,
+        description: 'Earlier draft, in the same format as the "bullet" tool input',
+      },
+      after: {
+        ...BULLET_TOOL.inputSchema,
+        description: 'Later draft, in the same format as the "bullet" tool input',
+      },
+    },
+    required: ['before', 'after'],
+  },
+};
+
+const BATCH_TOOL_DESCRIPTION = `Score many independent bullet lists in one call.
+
+Takes "entries": an array of {id, input}, where each input is the same as the "bullet" tool input. Use it to rank candidate summaries or audit generated content without one call per list.
+
+Returns JSON with:
+- **results**: Each entry's full analysis, or its validation error (a malformed entry never fails the batch)
+- **score_distribution**: Min, max, mean, median and a 10-point histogram of overall scores
+- **grade_counts**: Entries per grade (A-F)
+- **top_violations**: The rules with the most issues, with severity counts and how many entries they affect`;
+
+export const BULLET_BATCH_TOOL: Tool = {
+  name: 'bullet_batch',
+  description: BATCH_TOOL_DESCRIPTION,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      entries: {
+        type: 'array',
+        description: 'Lists to analyze, each with a caller-supplied id',
+        items: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Unique id echoed in the result',
+            },
+            input: {
+              ...BULLET_TOOL.inputSchema,
+              description: 'Same as the "bullet" tool input',
+            },
+          },
+          required: ['id', 'input'],
+        },
+      },
+    },
+    required: ['entries'],
+  },
+};
+
+const RANK_TOOL_DESCRIPTION = `Pick the best of several alternative bullet lists for the same content.
+
+Takes "candidates": an array of alternatives (for example, several summaries sampled for one source), each the same input as the "bullet" tool. Candidates are ranked by:
+1. Overall score (higher first)
+2. Error count (fewer first)
+3. Warning count (fewer first)
+4. Closeness of each list's item count to the optimum (5 items)
+5. Closeness of the average line length to the optimum (66 characters)
+
+Returns JSON with every candidate in ranked order (score, grade, error and warning counts, distances and full analysis), the winner's input index, the criterion that decided between the top two, and an explanation of why the winner beat the runner-up.`;
+
+export const BULLET_RANK_TOOL: Tool = {
+  name: 'bullet_rank',
+  description: RANK_TOOL_DESCRIPTION,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      candidates: {
+        type: 'array',
+        description: 'Alternative versions of the same content, in the same format as the "bullet" tool input',
+        items: BULLET_TOOL.inputSchema,
+      },
+    },
+    required: ['candidates'],
+  },
+};
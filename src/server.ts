@@ -3,157 +3,75 @@
  */
 
 import type {
+  Audience,
+  BatchEntryResult,
+  BatchResult,
   BulletAnalysis,
   BulletConfig,
   BulletInput,
   BulletItem,
   BulletSection,
+  CompareResult,
   Context,
-  ContextFit,
+  DocumentAnalysis,
+  FixEdit,
+  FixResult,
   Grade,
+  Language,
+  ListAnalysis,
+  ListOrder,
+  OrderResult,
+  RankResult,
+  ReadabilityReport,
+  ResolvedRules,
+  Rule,
+  RuleId,
   RuleScore,
+  RuleThresholds,
+  RuleViolationCount,
+  ScoreDistribution,
   SectionScore,
   Severity,
+  SourceLocation,
+  SplitGroup,
+  SplitResult,
   StructuredBulletList,
   ValidationIssue,
 } from './types.js';
-
-import {
-  FIRST_WORDS,
-  FORMATTING,
-  GRADES,
-  HIERARCHY,
-  LINE_LENGTH,
-  LIST_LENGTH,
-  RESEARCH_CITATIONS,
-  SERIAL_POSITION,
-  STRUCTURE,
-  TOTAL_POINTS,
-} from './constants.js';
-
-/**
- * Pattern types for parallel structure detection
- */
-type GrammarPattern =
-  | 'verb-imperative'
-  | 'verb-gerund'
-  | 'noun-phrase'
-  | 'sentence'
-  | 'unknown';
-
-/**
- * Common imperative verbs for pattern detection
- */
-const IMPERATIVE_VERBS = new Set([
-  'use',
-  'create',
-  'add',
-  'remove',
-  'update',
-  'check',
-  'ensure',
-  'make',
-  'set',
-  'get',
-  'run',
-  'build',
-  'test',
-  'deploy',
-  'configure',
-  'install',
-  'enable',
-  'disable',
-  'implement',
-  'define',
-  'write',
-  'read',
-  'delete',
-  'move',
-  'copy',
-  'start',
-  'stop',
-  'open',
-  'close',
-  'send',
-  'receive',
-  'validate',
-  'verify',
-  'confirm',
-  'select',
-  'choose',
-  'avoid',
-  'include',
-  'exclude',
-  'maintain',
-  'keep',
-  'place',
-  'put',
-  'apply',
-  'follow',
-  'consider',
-  'review',
-  'analyze',
-  'optimize',
-  'limit',
-  'maximize',
-  'minimize',
-  'target',
-  'focus',
-  'provide',
-  'support',
-  'handle',
-  'process',
-  'format',
-  'parse',
-  'convert',
-  'transform',
-  'organize',
-  'structure',
-  'break',
-  'split',
-  'merge',
-  'combine',
-  'group',
-  'separate',
-  'allow',
-  'prevent',
-  'require',
-  'expect',
-  'return',
-  'call',
-  'invoke',
-  'execute',
-  'perform',
-  'complete',
-  'finish',
-  'begin',
-  'continue',
-  'repeat',
-  'iterate',
-  'loop',
-  'track',
-  'monitor',
-  'log',
-  'record',
-  'store',
-  'save',
-  'load',
-  'fetch',
-  'retrieve',
-  'display',
-  'show',
-  'hide',
-  'render',
-  'print',
-  'export',
-  'import',
-]);
+import type { GetPromptResult, Prompt, ReadResourceResult, Resource } from '@modelcontextprotocol/sdk/types.js';
+
+import { GRADES } from './constants.js';
+
+import { compareDrafts, type Draft, type IssueList } from './compare.js';
+import { resolveRules } from './config.js';
+import { assessContext, contextThresholds, CONTEXTS } from './contexts.js';
+import { fixItems } from './fix.js';
+import { parseHtml } from './html.js';
+import { detectLanguage, LANGUAGES } from './language.js';
+import { parseMarkdown, scanMarkdownLists } from './markdown.js';
+import { expectedRecall, optimizeOrder } from './order.js';
+import { getPrompt, PROMPTS } from './prompts.js';
+import { rankCandidates, type RankEntry } from './rank.js';
+import { AUDIENCES, measureReadability, targetGrade } from './readability.js';
+import { listResources, readResource } from './resources.js';
+import { RuleRegistry, validateRule } from './rules.js';
+import { splitItems } from './split.js';
+import { calculateMaxDepth, flattenTexts, itemAt, lengthSpread } from './utils.js';
+import { visibleLength } from './width.js';
 
 export class BulletServer {
   private config: BulletConfig;
+  private registry: RuleRegistry;
+  private rules: ResolvedRules;
 
-  constructor(config: BulletConfig) {
+  /**
+   * @param customRules - Rules run after the built-in ones (see loadCustomRules)
+   */
+  constructor(config: BulletConfig, customRules: Rule[] = []) {
     this.config = config;
+    this.registry = new RuleRegistry();
+    customRules.forEach((rule) => this.registry.register(rule));
+    this.rules = resolveRules(config.rules, this.registry.list());
   }
 
   /**
@@ -164,46 +82,687 @@ export class BulletServer {
     isError?: boolean;
   }> {
     try {
-      const bulletInput = this.validateInput(input);
-      const globalContext: Context = bulletInput.context || 'document';
-
-      // Detect mode: flat (items) vs sectioned (sections)
-      if (bulletInput.sections && bulletInput.sections.length > 0) {
-        return this.analyzeSections(
-          bulletInput.sections,
-          globalContext,
-          bulletInput.title,
-          bulletInput.description,
-          bulletInput.intro
-        );
-      }
+      return this.toContent(this.analyzeInput(input));
+    } catch (error) {
+      return this.toError(
+        error,
+        'Provide "items" (flat mode), "sections" (sectioned mode), "markdown" (markdown mode) or "html" (HTML mode). Each item: {text: string, children?: [...], importance?: "high"|"medium"|"low"}'
+      );
+    }
+  }
 
-      // Flat mode - original behavior
-      return this.analyzeFlat(
-        bulletInput.items!,
+  /**
+   * Validate input and return the typed analysis
+   * Throws if the input is malformed
+   */
+  public analyzeInput(input: unknown): BulletAnalysis {
+    const bulletInput = this.validateInput(input);
+    const globalContext: Context = bulletInput.context || 'document';
+    const audience: Audience = bulletInput.audience || 'general';
+    const { items, sections, locations } = this.resolveLists(bulletInput);
+    const allItems = sections && sections.length > 0 ? sections.flatMap((s) => s.items) : items!;
+    const language: Language = bulletInput.language ?? detectLanguage(flattenTexts(allItems));
+
+    // Detect mode: flat (items) vs sectioned (sections)
+    if (sections && sections.length > 0) {
+      return this.analyzeSections(
+        sections,
         globalContext,
         bulletInput.title,
         bulletInput.description,
-        bulletInput.intro
+        bulletInput.intro,
+        locations,
+        audience,
+        language
+      );
+    }
+
+    // Flat mode - original behavior
+    return this.analyzeFlat(
+      items!,
+      globalContext,
+      bulletInput.title,
+      bulletInput.description,
+      bulletInput.intro,
+      locations,
+      audience,
+      language
+    );
+  }
+
+  /**
+   * Apply safe mechanical fixes and report the edits with before/after scores
+   */
+  public async fix(input: unknown): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      return this.toContent(this.fixInput(input));
+    } catch (error) {
+      return this.toError(
+        error,
+        'Provide the same input as the "bullet" tool: "items", "sections", "markdown" or "html" plus title, description and intro'
+      );
+    }
+  }
+
+  /**
+   * Fix whitespace, punctuation, capitalization and serial position
+   * Markdown and HTML input is returned as items or sections
+   */
+  public fixInput(input: unknown): FixResult {
+    const bulletInput = this.validateInput(input);
+    const { items, sections } = this.resolveLists(bulletInput);
+    const zones = this.rules.SERIAL_POSITION.thresholds as RuleThresholds['SERIAL_POSITION'];
+    const edits: FixEdit[] = [];
+
+    const fixed = this.inputHeader(bulletInput);
+
+    if (sections && sections.length > 0) {
+      fixed.sections = sections.map((section) => {
+        const result = fixItems(section.items, zones);
+        edits.push(...result.edits.map((edit) => ({ ...edit, section: section.title })));
+        return { ...section, items: result.items };
+      });
+    } else {
+      const result = fixItems(items!, zones);
+      edits.push(...result.edits);
+      fixed.items = result.items;
+    }
+
+    const before = this.analyzeInput(bulletInput);
+    const after = this.analyzeInput(fixed);
+
+    return {
+      fixed,
+      edits,
+      score_before: before.overall_score,
+      score_after: after.overall_score,
+      grade_before: before.grade,
+      grade_after: after.grade,
+    };
+  }
+
+  /**
+   * Propose the order of each list that maximizes importance-weighted recall
+   */
+  public async reorder(input: unknown): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      return this.toContent(this.reorderInput(input));
+    } catch (error) {
+      return this.toError(
+        error,
+        'Provide the same input as the "bullet" tool. Set importance ("high"|"medium"|"low") on items, and locked: true to pin an item in place'
+      );
+    }
+  }
+
+  /**
+   * Compute proposed orders with their effect on the SERIAL_POSITION score
+   * Markdown and HTML input is returned as items or sections
+   */
+  public reorderInput(input: unknown): OrderResult {
+    const bulletInput = this.validateInput(input);
+    const globalContext: Context = bulletInput.context || 'document';
+    const { items, sections } = this.resolveLists(bulletInput);
+    const zones = this.rules.SERIAL_POSITION.thresholds as RuleThresholds['SERIAL_POSITION'];
+    const rule = this.registry.get('SERIAL_POSITION')!;
+
+    const proposeOrder = (list: BulletItem[], context: Context, section?: string) => {
+      const proposed = optimizeOrder(list, zones);
+      const before = this.scoreRule(rule, list, context).earned_points;
+      const after = this.scoreRule(rule, proposed.items, context).earned_points;
+      const order: ListOrder = {
+        ...(section !== undefined && { section }),
+        order: proposed.items.map((item) => item.text),
+        moves: proposed.moves,
+        expected_recall_before: expectedRecall(list, zones),
+        expected_recall_after: expectedRecall(proposed.items, zones),
+        serial_position_before: before,
+        serial_position_after: after,
+        serial_position_delta: Math.round((after - before) * 10) / 10,
+      };
+      return { items: proposed.items, order };
+    };
+
+    const reordered = this.inputHeader(bulletInput);
+    const lists: ListOrder[] = [];
+
+    if (sections && sections.length > 0) {
+      reordered.sections = sections.map((section) => {
+        const result = proposeOrder(section.items, section.context || globalContext, section.title);
+        lists.push(result.order);
+        return { ...section, items: result.items };
+      });
+    } else {
+      const result = proposeOrder(items!, globalContext);
+      lists.push(result.order);
+      reordered.items = result.items;
+    }
+
+    return { reordered, lists };
+  }
+
+  /**
+   * Split oversized lists into categorized groups that pass the list-length rule
+   */
+  public async split(input: unknown): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      return this.toContent(this.splitInput(input));
+    } catch (error) {
+      return this.toError(
+        error,
+        'Provide the same input as the "bullet" tool: "items", "sections", "markdown" or "html" plus title, description and intro'
+      );
+    }
+  }
+
+  /**
+   * Replace every list over MAX_ITEMS with one section per group
+   * Lists within the limit are kept as they are; the result is always in sections mode
+   */
+  public splitInput(input: unknown): SplitResult {
+    const bulletInput = this.validateInput(input);
+    const globalContext: Context = bulletInput.context || 'document';
+    const { items, sections } = this.resolveLists(bulletInput);
+    const groups: SplitGroup[] = [];
+
+    const lists: BulletSection[] =
+      sections && sections.length > 0
+        ? sections
+        : [{ title: bulletInput.title, description: bulletInput.description, intro: bulletInput.intro, items: items! }];
+    const sectioned = Boolean(sections && sections.length > 0);
+
+    const language: Language = bulletInput.language ?? detectLanguage(flattenTexts(lists.flatMap((l) => l.items)));
+
+    const splitSections = lists.flatMap((list) => {
+      const limits = this.contextLimits('LIST_LENGTH', list.context || globalContext);
+      if (list.items.length <= limits.MAX_ITEMS) return [list];
+
+      return splitItems(list.items, limits, language).map((group) => {
+        groups.push({
+          ...(sectioned && { section: list.title }),
+          heading: group.heading,
+          shared_terms: group.shared_terms,
+          item_indices: group.indices,
+        });
+        return {
+          title: sectioned ? `${list.title}: ${group.heading}` : group.heading,
+          description: list.description,
+          intro: list.intro,
+          items: group.indices.map((index) => list.items[index]),
+          ...(list.context && { context: list.context }),
+        };
+      });
+    });
+
+    // Nothing to split: keep a flat list flat
+    const split = this.inputHeader(bulletInput);
+    if (sectioned || groups.length > 0) {
+      split.sections = splitSections;
+    } else {
+      split.items = items;
+    }
+
+    const before = this.analyzeInput(bulletInput);
+    const after = this.analyzeInput(split);
+
+    return {
+      split,
+      groups,
+      score_before: before.overall_score,
+      score_after: after.overall_score,
+      grade_before: before.grade,
+      grade_after: after.grade,
+    };
+  }
+
+  /**
+   * Compare two drafts rule by rule and issue by issue
+   */
+  public async compare(input: unknown): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      return this.toContent(this.compareInput(input));
+    } catch (error) {
+      return this.toError(
+        error,
+        'Provide "before" and "after", each the same input as the "bullet" tool: "items", "sections", "markdown" or "html" plus title, description and intro'
+      );
+    }
+  }
+
+  /**
+   * Diff the analyses of an earlier and a later draft
+   * Issues are matched by rule and item text, so moved items keep their issues
+   */
+  public compareInput(input: unknown): CompareResult {
+    if (!input || typeof input !== 'object') {
+      throw new Error('Input must be an object');
+    }
+
+    const obj = input as Record<string, unknown>;
+    const drafts = (['before', 'after'] as const).map((name): Draft => {
+      if (!obj[name] || typeof obj[name] !== 'object') {
+        throw new Error(`Must provide the "${name}" draft`);
+      }
+      let bulletInput: BulletInput;
+      try {
+        bulletInput = this.validateInput(obj[name]);
+      } catch (error) {
+        throw new Error(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const analysis = this.analyzeInput(bulletInput);
+      const { items, sections } = this.resolveLists(bulletInput);
+      const lists: IssueList[] =
+        sections && sections.length > 0
+          ? sections.map((section, i) => ({
+              section: section.title,
+              items: section.items,
+              issues: analysis.section_scores![i].issues,
+            }))
+          : [{ items: items!, issues: analysis.scores.flatMap((score) => score.issues) }];
+      return { analysis, lists };
+    });
+
+    return compareDrafts(drafts[0], drafts[1]);
+  }
+
+  /**
+   * Analyze many independent lists in one call
+   */
+  public async batch(input: unknown): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      return this.toContent(this.batchInput(input));
+    } catch (error) {
+      return this.toError(
+        error,
+        'Provide "entries": an array of {id: string, input: {...}}, where each input is the same as the "bullet" tool input'
       );
+    }
+  }
+
+  /**
+   * Analyze every entry of a batch and aggregate the results
+   * A malformed entry gets an error result instead of failing the batch
+   */
+  public batchInput(input: unknown): BatchResult {
+    if (!input || typeof input !== 'object') {
+      throw new Error('Input must be an object');
+    }
+
+    const entries = (input as Record<string, unknown>).entries;
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new Error('Must provide a non-empty "entries" array');
+    }
+
+    const seen = new Set<string>();
+    const results: BatchEntryResult[] = entries.map((entry: unknown, index) => {
+      const obj = entry && typeof entry === 'object' ? (entry as Record<string, unknown>) : undefined;
+      const id = typeof obj?.id === 'string' && obj.id.trim().length > 0 ? obj.id : undefined;
+      try {
+        if (!obj) {
+          throw new Error('Entry must be an object');
+        }
+        if (!id) {
+          throw new Error('Entry must have a non-empty "id" string');
+        }
+        if (seen.has(id)) {
+          throw new Error(`Duplicate id "${id}"`);
+        }
+        seen.add(id);
+        return { index, id, analysis: this.analyzeInput(obj.input) };
+      } catch (error) {
+        return { index, ...(id && { id }), error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    return this.buildBatchResult(results);
+  }
+
+  /**
+   * Rank alternative candidates for the same content, best first
+   */
+  public async rank(input: unknown): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      return this.toContent(this.rankInput(input));
     } catch (error) {
+      return this.toError(
+        error,
+        'Provide "candidates": an array of alternatives, each the same input as the "bullet" tool'
+      );
+    }
+  }
+
+  /**
+   * Score every candidate and rank them
+   * Ties break on errors, warnings, then closeness to OPTIMAL_ITEMS and OPTIMAL_CHARS
+   */
+  public rankInput(input: unknown): RankResult {
+    if (!input || typeof input !== 'object') {
+      throw new Error('Input must be an object');
+    }
+
+    const candidates = (input as Record<string, unknown>).candidates;
+    if (!Array.isArray(candidates) || candidates.length === 0) {
+      throw new Error('Must provide a non-empty "candidates" array');
+    }
+
+    const entries: RankEntry[] = candidates.map((candidate: unknown, index) => {
+      let bulletInput: BulletInput;
+      try {
+        bulletInput = this.validateInput(candidate);
+      } catch (error) {
+        throw new Error(`candidates[${index}]: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const analysis = this.analyzeInput(bulletInput);
+      const context: Context = bulletInput.context || 'document';
+      const { OPTIMAL_ITEMS } = this.contextLimits('LIST_LENGTH', context);
+      const { OPTIMAL_CHARS } = this.contextLimits('LINE_LENGTH', context);
+      const { items, sections } = this.resolveLists(bulletInput);
+      const counts = sections && sections.length > 0 ? sections.map((s) => s.items.length) : [items!.length];
+      const itemDistance = counts.reduce((sum, count) => sum + Math.abs(count - OPTIMAL_ITEMS), 0) / counts.length;
+
+      return {
+        index,
+        title: analysis.title,
+        overall_score: analysis.overall_score,
+        grade: analysis.grade,
+        error_count: analysis.errors.length,
+        warning_count: analysis.warnings.length,
+        item_count_distance: Math.round(itemDistance * 10) / 10,
+        line_length_distance: Math.abs(analysis.avg_line_length - OPTIMAL_CHARS),
+        analysis,
+      };
+    });
+
+    return rankCandidates(entries);
+  }
+
+  /**
+   * Scan a whole Markdown document and analyze every list it contains
+   */
+  public async scan(input: unknown): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      if (!input || typeof input !== 'object') {
+        throw new Error('Input must be an object');
+      }
+
+      const obj = input as Record<string, unknown>;
+      if (typeof obj.document !== 'string') {
+        throw new Error('Must provide a "document" string');
+      }
+      if (obj.context !== undefined && !CONTEXTS.includes(obj.context as Context)) {
+        throw new Error(`context must be one of ${CONTEXTS.join(', ')}`);
+      }
+
+      return this.toContent(this.scanDocument(obj.document, (obj.context as Context) || 'document'));
+    } catch (error) {
+      return this.toError(error, 'Provide "document" (a Markdown string) and optionally "context"');
+    }
+  }
+
+  /**
+   * Analyze every list in a Markdown document and roll up the results
+   */
+  public scanDocument(document: string, context: Context = 'document'): DocumentAnalysis {
+    const locations = new Map<BulletItem, SourceLocation>();
+    const lists = scanMarkdownLists(document, locations);
+
+    const listAnalyses: ListAnalysis[] = lists.map((list, index) => {
+      const title = list.heading?.text ?? `List ${index + 1}`;
+      const lastParagraph = list.paragraphs[list.paragraphs.length - 1];
+      return {
+        location: list.location,
+        end_line: list.endLine,
+        heading: list.heading?.text,
+        analysis: this.analyzeFlat(
+          list.items,
+          context,
+          title,
+          list.paragraphs.length > 1 ? list.paragraphs[0] : `Lines ${list.location.line}-${list.endLine}`,
+          lastParagraph ?? '',
+          locations,
+          'general',
+          detectLanguage(flattenTexts(list.items))
+        ),
+      };
+    });
+
+    return this.buildDocumentAnalysis(listAnalyses);
+  }
+
+  /**
+   * MCP resources: the study, the infographic and a page per registered rule
+   */
+  public listResources(): Resource[] {
+    return listResources(this.registry.list());
+  }
+
+  /**
+   * Read an MCP resource; rule pages reflect the current configuration
+   */
+  public readResource(uri: string): ReadResourceResult {
+    return readResource(uri, this.registry.list(), this.rules);
+  }
+
+  /**
+   * MCP prompts: summarization templates
+   */
+  public listPrompts(): Prompt[] {
+    return PROMPTS;
+  }
+
+  /**
+   * Fill a prompt template with its arguments and the thresholds in use
+   */
+  public getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+    return getPrompt(name, args, this.rules, this.config.rules);
+  }
+
+  /**
+   * Get the lists to analyze from any input mode
+   * Markdown and HTML are parsed into items or sections; Markdown keeps source positions
+   */
+  private resolveLists(bulletInput: BulletInput): {
+    items?: BulletItem[];
+    sections?: BulletSection[];
+    locations?: Map<BulletItem, SourceLocation>;
+  } {
+    if (bulletInput.markdown !== undefined) {
+      return parseMarkdown(bulletInput.markdown, bulletInput);
+    }
+    if (bulletInput.html !== undefined) {
+      return parseHtml(bulletInput.html, bulletInput);
+    }
+    return { items: bulletInput.items, sections: bulletInput.sections };
+  }
+
+  /**
+   * Copy the title, description, intro, context, audience and language of an input
+   * Tools that rewrite lists add items or sections to this
+   */
+  private inputHeader(bulletInput: BulletInput): BulletInput {
+    const header: BulletInput = {
+      title: bulletInput.title,
+      description: bulletInput.description,
+      intro: bulletInput.intro,
+    };
+    if (bulletInput.context) {
+      header.context = bulletInput.context;
+    }
+    if (bulletInput.audience) {
+      header.audience = bulletInput.audience;
+    }
+    if (bulletInput.language) {
+      header.language = bulletInput.language;
+    }
+    return header;
+  }
+
+  /**
+   * Wrap a result as MCP text content
+   */
+  private toContent(result: unknown): { content: Array<{ type: string; text: string }> } {
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    };
+  }
+
+  /**
+   * Wrap an error as MCP error content
+   */
+  private toError(
+    error: unknown,
+    hint: string
+  ): { content: Array<{ type: string; text: string }>; isError: boolean } {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              error: error instanceof Error ? error.message : String(error),
+              hint,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  /**
+   * Roll up per-list analyses into a document-level result
+   */
+  private buildDocumentAnalysis(lists: ListAnalysis[]): DocumentAnalysis {
+    if (lists.length === 0) {
       return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                error: error instanceof Error ? error.message : String(error),
-                hint: 'Provide "items" (flat mode) or "sections" (sectioned mode). Each item: {text: string, children?: [...], importance?: "high"|"medium"|"low"}',
-              },
-              null,
-              2
-            ),
-          },
-        ],
-        isError: true,
+        overall_score: 100,
+        grade: 'A',
+        list_count: 0,
+        item_count: 0,
+        error_count: 0,
+        warning_count: 0,
+        suggestion_count: 0,
+        scores: [],
+        summary: 'No bullet lists found in document.',
+        lists: [],
+      };
+    }
+
+    const overallScore = Math.round(
+      lists.reduce((sum, l) => sum + l.analysis.overall_score, 0) / lists.length
+    );
+    const errorCount = lists.reduce((sum, l) => sum + l.analysis.errors.length, 0);
+    const warningCount = lists.reduce((sum, l) => sum + l.analysis.warnings.length, 0);
+    const worst = lists.reduce((w, l) => (l.analysis.overall_score < w.analysis.overall_score ? l : w));
+
+    return {
+      overall_score: overallScore,
+      grade: this.calculateGrade(overallScore),
+      list_count: lists.length,
+      item_count: lists.reduce((sum, l) => sum + l.analysis.item_count, 0),
+      error_count: errorCount,
+      warning_count: warningCount,
+      suggestion_count: lists.reduce((sum, l) => sum + l.analysis.suggestions.length, 0),
+      scores: this.aggregateRuleScores(lists.flatMap((l) => l.analysis.scores)),
+      summary:
+        overallScore >= 90 && errorCount === 0
+          ? `All ${lists.length} list(s) follow evidence-based best practices.`
+          : `Document has ${lists.length} list(s) with ${errorCount} error(s) and ${warningCount} warning(s). Start with "${worst.analysis.title}" at line ${worst.location.line} (score: ${worst.analysis.overall_score}).`,
+      lists,
+    };
+  }
+
+  /**
+   * Roll up batch entry results into score and violation statistics
+   */
+  private buildBatchResult(results: BatchEntryResult[]): BatchResult {
+    const analyses = results.flatMap((r) => (r.analysis ? [r.analysis] : []));
+    const failedCount = results.length - analyses.length;
+
+    const gradeCounts: Record<Grade, number> = { A: 0, B: 0, C: 0, D: 0, F: 0 };
+    analyses.forEach((a) => gradeCounts[a.grade]++);
+
+    const violations = new Map<string, RuleViolationCount>();
+    for (const analysis of analyses) {
+      const issues = [...analysis.errors, ...analysis.warnings, ...analysis.suggestions];
+      for (const issue of issues) {
+        const counts = violations.get(issue.rule) ?? {
+          rule: issue.rule,
+          count: 0,
+          entries: 0,
+          errors: 0,
+          warnings: 0,
+          suggestions: 0,
+        };
+        counts.count++;
+        counts[issue.severity === 'error' ? 'errors' : issue.severity === 'warning' ? 'warnings' : 'suggestions']++;
+        violations.set(issue.rule, counts);
+      }
+      new Set(issues.map((i) => i.rule)).forEach((rule) => violations.get(rule)!.entries++);
+    }
+    // Errors first on ties: they cost the most points
+    const topViolations = [...violations.values()]
+      .sort((a, b) => b.count - a.count || b.errors - a.errors)
+      .slice(0, 5);
+
+    let distribution: ScoreDistribution | undefined;
+    if (analyses.length > 0) {
+      const scores = analyses.map((a) => a.overall_score).sort((a, b) => a - b);
+      const middle = Math.floor(scores.length / 2);
+      distribution = {
+        min: scores[0],
+        max: scores[scores.length - 1],
+        mean: Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10,
+        median: scores.length % 2 === 1 ? scores[middle] : (scores[middle - 1] + scores[middle]) / 2,
+        histogram: Array.from({ length: 10 }, (_, band) => ({
+          range: band === 9 ? '90-100' : `${band * 10}-${band * 10 + 9}`,
+          count: scores.filter((score) => Math.min(Math.floor(score / 10), 9) === band).length,
+        })),
       };
     }
+
+    const failed = failedCount > 0 ? ` (${failedCount} failed validation)` : '';
+    const summary = distribution
+      ? `Analyzed ${analyses.length} of ${results.length} entries${failed}. Mean score ${distribution.mean}, median ${distribution.median}; ` +
+        `${gradeCounts.A} graded A.` +
+        (topViolations.length > 0 ? ` Most frequent issue: ${topViolations[0].rule} (${topViolations[0].count}).` : '')
+      : `No entries could be analyzed; all ${results.length} failed validation.`;
+
+    return {
+      entry_count: results.length,
+      analyzed_count: analyses.length,
+      failed_count: failedCount,
+      ...(distribution && { score_distribution: distribution }),
+      grade_counts: gradeCounts,
+      top_violations: topViolations,
+      summary,
+      results,
+    };
   }
 
   /**
@@ -214,22 +773,21 @@ export class BulletServer {
     context: Context,
     title?: string,
     description?: string,
-    intro?: string
-  ): { content: Array<{ type: string; text: string }>; isError?: boolean } {
-    // Run all validators
-    const scores: RuleScore[] = [
-      this.validateListLength(items),
-      this.validateHierarchy(items),
-      this.validateLineLength(items),
-      this.validateSerialPosition(items),
-      this.validateStructure(items),
-      this.validateFirstWords(items),
-      this.validateFormatting(items),
-    ];
+    intro?: string,
+    locations?: Map<BulletItem, SourceLocation>,
+    audience: Audience = 'general',
+    language: Language = 'en'
+  ): BulletAnalysis {
+    // Run all registered rules
+    let scores: RuleScore[] = this.runRules(items, context, audience, language);
+
+    if (locations) {
+      scores = this.locateIssues(scores, items, locations);
+    }
 
     // Calculate overall score
     const totalEarned = scores.reduce((sum, s) => sum + s.earned_points, 0);
-    const overallScore = Math.round((totalEarned / TOTAL_POINTS) * 100);
+    const overallScore = Math.round((totalEarned / this.totalPoints()) * 100);
 
     // Determine grade
     const grade = this.calculateGrade(overallScore);
@@ -246,7 +804,8 @@ export class BulletServer {
     }
 
     // Context analysis
-    const contextAnalysis = this.analyzeContext(items, context);
+    const contextAnalysis = assessContext(items, context, this.contextLimits('LIST_LENGTH', context), language);
+    const lengths = this.collectLengths(items, []);
 
     // Build analysis result
     const analysis: BulletAnalysis = {
@@ -270,15 +829,16 @@ export class BulletServer {
       summary: this.generateSummary(overallScore, errors.length, warnings.length),
       top_improvements: this.getTopImprovements(allIssues, overallScore),
       item_count: items.length,
-      max_depth: this.calculateMaxDepth(items),
-      avg_line_length: this.calculateAvgLineLength(items),
+      max_depth: calculateMaxDepth(items),
+      avg_line_length: this.averageLength(lengths),
+      line_length_spread: lengthSpread(lengths),
+      readability: this.readabilityReport(items, audience),
+      language,
       context_fit: contextAnalysis.fit,
       context_feedback: contextAnalysis.feedback,
     };
 
-    return {
-      content: [{ type: 'text', text: JSON.stringify(analysis, null, 2) }],
-    };
+    return analysis;
   }
 
   /**
@@ -289,8 +849,11 @@ export class BulletServer {
     globalContext: Context,
     title?: string,
     description?: string,
-    intro?: string
-  ): { content: Array<{ type: string; text: string }>; isError?: boolean } {
+    intro?: string,
+    locations?: Map<BulletItem, SourceLocation>,
+    audience: Audience = 'general',
+    language: Language = 'en'
+  ): BulletAnalysis {
     const sectionScores: SectionScore[] = [];
     const allRuleScores: RuleScore[] = [];
     let totalItems = 0;
@@ -303,26 +866,23 @@ export class BulletServer {
     let allSuggestions: ValidationIssue[] = [];
 
     // Analyze each section
-    for (const section of sections) {
+    for (const [sectionIndex, section] of sections.entries()) {
       const sectionContext = section.context || globalContext;
 
-      // Run validators for this section
-      const scores: RuleScore[] = [
-        this.validateListLength(section.items),
-        this.validateHierarchy(section.items),
-        this.validateLineLength(section.items),
-        this.validateSerialPosition(section.items),
-        this.validateStructure(section.items),
-        this.validateFirstWords(section.items),
-        this.validateFormatting(section.items),
-      ];
-
-      // Add section prefix to issue messages
+      // Run all registered rules for this section
+      let scores: RuleScore[] = this.runRules(section.items, sectionContext, audience, language);
+
+      if (locations) {
+        scores = this.locateIssues(scores, section.items, locations);
+      }
+
+      // Add section prefix to issue messages and record which section each issue is in
       const prefixedScores = scores.map((score) => ({
         ...score,
         issues: score.issues.map((issue) => ({
           ...issue,
           message: `[${section.title}] ${issue.message}`,
+          section_index: sectionIndex,
         })),
       }));
 
@@ -330,7 +890,7 @@ export class BulletServer {
 
       // Calculate section score
       const totalEarned = scores.reduce((sum, s) => sum + s.earned_points, 0);
-      const sectionScore = Math.round((totalEarned / TOTAL_POINTS) * 100);
+      const sectionScore = Math.round((totalEarned / this.totalPoints()) * 100);
       const sectionGrade = this.calculateGrade(sectionScore);
 
       // Aggregate section issues
@@ -345,11 +905,12 @@ export class BulletServer {
         item_count: section.items.length,
         issues: sectionIssues,
         context: sectionContext,
+        readability: measureReadability(flattenTexts(section.items), this.readabilityLimits().LONG_WORD_CHARS),
       });
 
       // Collect for overall aggregation
       totalItems += section.items.length;
-      allMaxDepth = Math.max(allMaxDepth, this.calculateMaxDepth(section.items));
+      allMaxDepth = Math.max(allMaxDepth, calculateMaxDepth(section.items));
       this.collectLengths(section.items, allLengths);
 
       // Aggregate issues by severity
@@ -374,9 +935,11 @@ export class BulletServer {
     const aggregatedScores = this.aggregateRuleScores(allRuleScores);
 
     // Context analysis for the dominant context
-    const contextAnalysis = this.analyzeContext(
+    const contextAnalysis = assessContext(
       sections.flatMap((s) => s.items),
-      globalContext
+      globalContext,
+      this.contextLimits('LIST_LENGTH', globalContext),
+      language
     );
 
     // Build analysis result
@@ -402,27 +965,134 @@ export class BulletServer {
       top_improvements: this.getTopImprovements([...allErrors, ...allWarnings, ...allSuggestions], overallScore),
       item_count: totalItems,
       max_depth: allMaxDepth,
-      avg_line_length: allLengths.length > 0 ? Math.round(allLengths.reduce((a, b) => a + b, 0) / allLengths.length) : 0,
+      avg_line_length: this.averageLength(allLengths),
+      line_length_spread: lengthSpread(allLengths),
+      readability: this.readabilityReport(sections.flatMap((s) => s.items), audience),
+      language,
       context_fit: contextAnalysis.fit,
       context_feedback: contextAnalysis.feedback,
       section_scores: sectionScores,
     };
 
+    return analysis;
+  }
+
+  /**
+   * Thresholds of a built-in rule in a context, config file settings included
+   */
+  private contextLimits<K extends RuleId>(id: K, context: Context): RuleThresholds[K] {
+    return contextThresholds(id, this.rules[id].thresholds, context, this.config.rules) as RuleThresholds[K];
+  }
+
+  /**
+   * READABILITY thresholds in use, also when the rule is disabled
+   */
+  private readabilityLimits(): RuleThresholds['READABILITY'] {
+    return this.rules.READABILITY.thresholds as RuleThresholds['READABILITY'];
+  }
+
+  /**
+   * Readability of a list against the audience's target grade
+   * The list is measured with its sub-items; each item on its own text
+   */
+  private readabilityReport(items: BulletItem[], audience: Audience): ReadabilityReport {
+    const limits = this.readabilityLimits();
     return {
-      content: [{ type: 'text', text: JSON.stringify(analysis, null, 2) }],
+      audience,
+      target_grade: targetGrade(audience, limits),
+      ...measureReadability(flattenTexts(items), limits.LONG_WORD_CHARS),
+      items: items.map((item) => measureReadability([item.text], limits.LONG_WORD_CHARS)),
     };
   }
 
   /**
    * Collect text lengths from items recursively
    */
-  private collectLengths(items: BulletItem[], lengths: number[]): void {
+  private collectLengths(items: BulletItem[], lengths: number[]): number[] {
     for (const item of items) {
-      lengths.push(item.text.length);
+      lengths.push(visibleLength(item.text));
       if (item.children) {
         this.collectLengths(item.children, lengths);
       }
     }
+    return lengths;
+  }
+
+  /**
+   * Run every enabled rule and apply its configured settings
+   * Points are rescaled to the configured weight, severity overrides applied
+   * and the rule citation attached to issues that lack one
+   */
+  private runRules(
+    items: BulletItem[],
+    context: Context,
+    audience: Audience = 'general',
+    language: Language = 'en'
+  ): RuleScore[] {
+    return this.registry
+      .list()
+      .filter((rule) => this.rules[rule.id].enabled)
+      .map((rule) => this.scoreRule(rule, items, context, audience, language));
+  }
+
+  /**
+   * Run a single rule with its configured settings
+   */
+  private scoreRule(
+    rule: Rule,
+    items: BulletItem[],
+    context: Context,
+    audience: Audience = 'general',
+    language: Language = 'en'
+  ): RuleScore {
+    const settings = this.rules[rule.id];
+    const thresholds = contextThresholds(rule.id, settings.thresholds, context, this.config.rules);
+    const score = validateRule(rule, items, { thresholds, context, audience, language });
+    const earned =
+      score.max_points > 0 ? (score.earned_points / score.max_points) * settings.points : settings.points;
+    return {
+      rule: rule.id,
+      max_points: settings.points,
+      earned_points: Math.round(Math.min(earned, settings.points) * 10) / 10,
+      issues: score.issues.map((issue) => {
+        // Custom rules may give only item_index or only path; fill in the other
+        const path = issue.path ?? (issue.item_index === undefined ? undefined : [issue.item_index]);
+        return {
+          ...issue,
+          rule: issue.rule ?? rule.id,
+          severity: settings.severity ?? issue.severity,
+          ...(path ? { item_index: path[0], path } : {}),
+          research_basis: issue.research_basis ?? (rule.citation || undefined),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Total points across enabled rules (for calculating percentages)
+   */
+  private totalPoints(): number {
+    return Object.values(this.rules).reduce((sum, rule) => sum + (rule.enabled ? rule.points : 0), 0);
+  }
+
+  /**
+   * Attach Markdown source positions to issues
+   * Item-level issues point at their item; list-level issues point at the first item
+   */
+  private locateIssues(
+    scores: RuleScore[],
+    items: BulletItem[],
+    locations: Map<BulletItem, SourceLocation>
+  ): RuleScore[] {
+    const findItem = (path?: number[]): BulletItem => (path ? itemAt(items, path) ?? items[0] : items[0]);
+
+    return scores.map((score) => ({
+      ...score,
+      issues: score.issues.map((issue) => {
+        const location = locations.get(findItem(issue.path));
+        return location ? { ...issue, line: location.line, column: location.column } : issue;
+      }),
+    }));
   }
 
   /**
@@ -496,18 +1166,32 @@ export class BulletServer {
       throw new Error('Must provide a non-empty "intro" field');
     }
 
-    // Check for either items or sections (but not both)
+    // Check for exactly one of items, sections, markdown or html
     const hasItems = obj.items && Array.isArray(obj.items);
     const hasSections = obj.sections && Array.isArray(obj.sections);
+    const hasMarkdown = obj.markdown !== undefined;
+    const hasHtml = obj.html !== undefined;
 
-    if (!hasItems && !hasSections) {
-      throw new Error('Must provide either "items" (flat mode) or "sections" (sectioned mode)');
+    if (!hasItems && !hasSections && !hasMarkdown && !hasHtml) {
+      throw new Error('Must provide either "items" (flat mode), "sections" (sectioned mode), "markdown" (markdown mode) or "html" (HTML mode)');
     }
 
     if (hasItems && hasSections) {
       throw new Error('Cannot use both "items" and "sections" - choose one mode');
     }
 
+    if ([hasItems || hasSections, hasMarkdown, hasHtml].filter(Boolean).length > 1) {
+      throw new Error('Cannot combine "markdown" or "html" with another input mode - choose one mode');
+    }
+
+    if (hasMarkdown && (typeof obj.markdown !== 'string' || obj.markdown.trim().length === 0)) {
+      throw new Error('Markdown must be a non-empty string');
+    }
+
+    if (hasHtml && (typeof obj.html !== 'string' || obj.html.trim().length === 0)) {
+      throw new Error('HTML must be a non-empty string');
+    }
+
     if (hasItems) {
       // Flat mode validation
       if ((obj.items as unknown[]).length === 0) {
@@ -537,6 +1221,9 @@ export class BulletServer {
         if (typeof section.intro !== 'string' || (section.intro as string).trim().length === 0) {
           throw new Error(`Section at index ${i} must have a non-empty intro`);
         }
+        if (section.context !== undefined && !CONTEXTS.includes(section.context as Context)) {
+          throw new Error(`Section "${section.title}" context must be one of ${CONTEXTS.join(', ')}`);
+        }
         if (!section.items || !Array.isArray(section.items)) {
           throw new Error(`Section "${section.title}" must have an items array`);
         }
@@ -547,6 +1234,18 @@ export class BulletServer {
       }
     }
 
+    if (obj.context !== undefined && !CONTEXTS.includes(obj.context as Context)) {
+      throw new Error(`context must be one of ${CONTEXTS.join(', ')}`);
+    }
+
+    if (obj.audience !== undefined && !AUDIENCES.includes(obj.audience as Audience)) {
+      throw new Error(`audience must be one of ${AUDIENCES.join(', ')}`);
+    }
+
+    if (obj.language !== undefined && !LANGUAGES.includes(obj.language as Language)) {
+      throw new Error(`language must be one of ${LANGUAGES.join(', ')}`);
+    }
+
     return obj as unknown as BulletInput;
   }
 
@@ -565,459 +1264,14 @@ export class BulletServer {
     }
   }
 
-  // ===========================================================================
-  // Validators
-  // ===========================================================================
-
-  /**
-   * Validate list length against working memory research
-   */
-  private validateListLength(items: BulletItem[]): RuleScore {
-    const count = items.length;
-    const issues: ValidationIssue[] = [];
-    let points: number = LIST_LENGTH.POINTS;
-
-    if (count > LIST_LENGTH.HARD_MAX_ITEMS) {
-      issues.push({
-        rule: 'LIST_LENGTH',
-        severity: 'error',
-        message: `List has ${count} items, exceeds maximum of ${LIST_LENGTH.HARD_MAX_ITEMS}`,
-        suggestion: `Subdivide into ${Math.ceil(count / LIST_LENGTH.OPTIMAL_ITEMS)} categorized groups of ~${LIST_LENGTH.OPTIMAL_ITEMS} items each`,
-        research_basis: RESEARCH_CITATIONS.LIST_LENGTH,
-      });
-      points = 0;
-    } else if (count > LIST_LENGTH.MAX_ITEMS) {
-      issues.push({
-        rule: 'LIST_LENGTH',
-        severity: 'warning',
-        message: `List has ${count} items, exceeds recommended maximum of ${LIST_LENGTH.MAX_ITEMS}`,
-        suggestion: 'Consider subdividing or removing less critical items',
-        research_basis: RESEARCH_CITATIONS.LIST_LENGTH,
-      });
-      points = Math.max(0, points - 10);
-    } else if (count < LIST_LENGTH.MIN_ITEMS) {
-      issues.push({
-        rule: 'LIST_LENGTH',
-        severity: 'suggestion',
-        message: `List has only ${count} item(s), below minimum of ${LIST_LENGTH.MIN_ITEMS}`,
-        suggestion:
-          count === 1
-            ? 'Consider using prose instead of a single bullet'
-            : 'Consider adding more detail or using prose instead',
-        research_basis: RESEARCH_CITATIONS.LIST_LENGTH,
-      });
-      points = Math.max(0, points - 5);
-    }
-
-    return {
-      rule: 'LIST_LENGTH',
-      max_points: LIST_LENGTH.POINTS,
-      earned_points: points,
-      issues,
-    };
-  }
-
-  /**
-   * Validate hierarchy depth against information architecture research
-   */
-  private validateHierarchy(items: BulletItem[]): RuleScore {
-    const maxDepth = this.calculateMaxDepth(items);
-    const issues: ValidationIssue[] = [];
-    let points: number = HIERARCHY.POINTS;
-
-    if (maxDepth > HIERARCHY.HARD_MAX_DEPTH) {
-      issues.push({
-        rule: 'HIERARCHY',
-        severity: 'error',
-        message: `Hierarchy depth of ${maxDepth} exceeds usable maximum of ${HIERARCHY.HARD_MAX_DEPTH}`,
-        suggestion: 'Flatten structure or use a table for complex relationships',
-        research_basis: RESEARCH_CITATIONS.HIERARCHY,
-      });
-      points = 0;
-    } else if (maxDepth > HIERARCHY.MAX_DEPTH) {
-      issues.push({
-        rule: 'HIERARCHY',
-        severity: 'warning',
-        message: `Hierarchy depth of ${maxDepth} exceeds recommended maximum of ${HIERARCHY.MAX_DEPTH}`,
-        suggestion: 'Consider flattening to 2 levels for better comprehension',
-        research_basis: RESEARCH_CITATIONS.HIERARCHY,
-      });
-      points = Math.max(0, points - 8);
-    }
-
-    return {
-      rule: 'HIERARCHY',
-      max_points: HIERARCHY.POINTS,
-      earned_points: points,
-      issues,
-    };
-  }
-
-  /**
-   * Validate line length against typography research
-   */
-  private validateLineLength(items: BulletItem[]): RuleScore {
-    const issues: ValidationIssue[] = [];
-    let totalPenalty = 0;
-
-    const checkItem = (item: BulletItem, index: number) => {
-      const length = item.text.length;
-
-      if (length > LINE_LENGTH.HARD_MAX_CHARS) {
-        issues.push({
-          rule: 'LINE_LENGTH',
-          severity: 'warning',
-          message: `Item ${index + 1} is too long (${length} chars), exceeds readable maximum of ${LINE_LENGTH.HARD_MAX_CHARS}`,
-          item_index: index,
-          suggestion: 'Break into two bullets or trim to essential information',
-          research_basis: RESEARCH_CITATIONS.LINE_LENGTH,
-        });
-        totalPenalty += 5;
-      } else if (length > LINE_LENGTH.OPTIMAL_MAX_CHARS) {
-        issues.push({
-          rule: 'LINE_LENGTH',
-          severity: 'suggestion',
-          message: `Item ${index + 1} is slightly long (${length} chars), above optimal of ${LINE_LENGTH.OPTIMAL_MAX_CHARS}`,
-          item_index: index,
-          suggestion: 'Consider trimming for easier scanning',
-          research_basis: RESEARCH_CITATIONS.LINE_LENGTH,
-        });
-        totalPenalty += 2;
-      } else if (length < LINE_LENGTH.MIN_CHARS && length > 0) {
-        issues.push({
-          rule: 'LINE_LENGTH',
-          severity: 'suggestion',
-          message: `Item ${index + 1} is short (${length} chars), may appear sparse`,
-          item_index: index,
-          suggestion: 'Consider adding detail or combining with a related point',
-          research_basis: RESEARCH_CITATIONS.LINE_LENGTH,
-        });
-        totalPenalty += 1;
-      }
-
-      // Check children recursively
-      if (item.children) {
-        item.children.forEach((child, childIndex) =>
-          checkItem(child, index * 100 + childIndex)
-        );
-      }
-    };
-
-    items.forEach((item, index) => checkItem(item, index));
-
-    return {
-      rule: 'LINE_LENGTH',
-      max_points: LINE_LENGTH.POINTS,
-      earned_points: Math.max(0, LINE_LENGTH.POINTS - totalPenalty),
-      issues,
-    };
-  }
-
-  /**
-   * Validate serial position - important items should be first/last
-   */
-  private validateSerialPosition(items: BulletItem[]): RuleScore {
-    const issues: ValidationIssue[] = [];
-    let points: number = SERIAL_POSITION.POINTS;
-
-    // Check if items have importance hints
-    const hasImportance = items.some((item) => item.importance);
-
-    if (hasImportance && items.length > 3) {
-      const highImportanceItems = items
-        .map((item, index) => ({ item, index }))
-        .filter(({ item }) => item.importance === 'high');
-
-      highImportanceItems.forEach(({ item, index }) => {
-        const isPrimacy = index < SERIAL_POSITION.PRIMACY_ZONE;
-        const isRecency = index >= items.length - SERIAL_POSITION.RECENCY_ZONE;
-
-        if (!isPrimacy && !isRecency) {
-          const shortText =
-            item.text.length > 40 ? item.text.substring(0, 40) + '...' : item.text;
-          issues.push({
-            rule: 'SERIAL_POSITION',
-            severity: 'warning',
-            message: `High-importance item "${shortText}" is in recall valley (position ${index + 1})`,
-            item_index: index,
-            suggestion: `Move to position 1, 2, or ${items.length} for better recall`,
-            research_basis: RESEARCH_CITATIONS.SERIAL_POSITION,
-          });
-          points -= 5;
-        }
-      });
-    } else if (items.length > 4) {
-      // Provide guidance even without explicit importance
-      issues.push({
-        rule: 'SERIAL_POSITION',
-        severity: 'suggestion',
-        message: `Consider placing most critical information in positions 1, 2, or ${items.length}`,
-        suggestion: `Items in positions 3-${items.length - 1} are in the "recall valley" with lower retention`,
-        research_basis: RESEARCH_CITATIONS.SERIAL_POSITION,
-      });
-    }
-
-    return {
-      rule: 'SERIAL_POSITION',
-      max_points: SERIAL_POSITION.POINTS,
-      earned_points: Math.max(0, points),
-      issues,
-    };
-  }
-
-  /**
-   * Validate parallel grammatical structure
-   */
-  private validateStructure(items: BulletItem[]): RuleScore {
-    const issues: ValidationIssue[] = [];
-    let points: number = STRUCTURE.POINTS;
-
-    if (items.length < 2) {
-      return { rule: 'STRUCTURE', max_points: STRUCTURE.POINTS, earned_points: points, issues };
-    }
-
-    // Detect starting patterns
-    const patterns = items.map((item) => this.detectGrammarPattern(item.text));
-    const dominantPattern = this.getMostCommon(patterns);
-
-    patterns.forEach((pattern, index) => {
-      if (dominantPattern && pattern !== 'unknown' && pattern !== dominantPattern && dominantPattern !== 'unknown') {
-        issues.push({
-          rule: 'STRUCTURE',
-          severity: 'warning',
-          message: `Item ${index + 1} uses "${pattern}" pattern while most items use "${dominantPattern}"`,
-          item_index: index,
-          suggestion: `Rewrite to match the "${dominantPattern}" pattern for consistency`,
-          research_basis: RESEARCH_CITATIONS.STRUCTURE,
-        });
-        points -= 4;
-      }
-    });
-
-    return {
-      rule: 'STRUCTURE',
-      max_points: STRUCTURE.POINTS,
-      earned_points: Math.max(0, points),
-      issues,
-    };
-  }
-
-  /**
-   * Validate first words are unique and scannable
-   */
-  private validateFirstWords(items: BulletItem[]): RuleScore {
-    const issues: ValidationIssue[] = [];
-    let points: number = FIRST_WORDS.POINTS;
-
-    // Extract first N words from each item
-    const firstWords = items.map((item) => {
-      const words = item.text.trim().split(/\s+/);
-      return words.slice(0, FIRST_WORDS.CRITICAL_WORD_COUNT).join(' ').toLowerCase();
-    });
-
-    // Check for duplicates
-    const seen = new Map<string, number[]>();
-    firstWords.forEach((words, index) => {
-      if (!seen.has(words)) {
-        seen.set(words, []);
-      }
-      seen.get(words)!.push(index);
-    });
-
-    seen.forEach((indices, words) => {
-      if (indices.length > 1) {
-        issues.push({
-          rule: 'FIRST_WORDS',
-          severity: 'warning',
-          message: `Items ${indices.map((i) => i + 1).join(', ')} start with similar words "${words}"`,
-          suggestion:
-            'Vary the opening words to help readers quickly distinguish between items',
-          research_basis: RESEARCH_CITATIONS.FIRST_WORDS,
-        });
-        points -= 3;
-      }
-    });
-
-    return {
-      rule: 'FIRST_WORDS',
-      max_points: FIRST_WORDS.POINTS,
-      earned_points: Math.max(0, points),
-      issues,
-    };
-  }
-
-  /**
-   * Validate formatting consistency (punctuation, capitalization)
-   */
-  private validateFormatting(items: BulletItem[]): RuleScore {
-    const issues: ValidationIssue[] = [];
-    let points: number = FORMATTING.POINTS;
-
-    if (items.length < 2) {
-      return { rule: 'FORMATTING', max_points: FORMATTING.POINTS, earned_points: points, issues };
-    }
-
-    // Check ending punctuation consistency
-    const endChars = items.map((item) => {
-      const text = item.text.trim();
-      const lastChar = text[text.length - 1];
-      if (['.', '!', '?'].includes(lastChar)) return 'sentence';
-      if (lastChar === ':') return 'colon';
-      return 'none';
-    });
-
-    const dominantEnd = this.getMostCommon(endChars);
-    const inconsistentEnds = dominantEnd ? endChars.filter((e) => e !== dominantEnd).length : 0;
-    if (dominantEnd && inconsistentEnds > 0 && inconsistentEnds < endChars.length) {
-      issues.push({
-        rule: 'FORMATTING',
-        severity: 'suggestion',
-        message: `Inconsistent ending punctuation: ${inconsistentEnds} items differ from the majority`,
-        suggestion:
-          dominantEnd === 'sentence'
-            ? 'Add periods to all items for consistency'
-            : 'Remove periods from all items for consistency',
-        research_basis: RESEARCH_CITATIONS.FORMATTING,
-      });
-      points -= 2;
-    }
-
-    // Check capitalization consistency
-    const capitalizations = items.map((item) => {
-      const firstChar = item.text.trim()[0];
-      return firstChar === firstChar.toUpperCase() ? 'upper' : 'lower';
-    });
-
-    const dominantCap = this.getMostCommon(capitalizations);
-    const inconsistentCaps = dominantCap ? capitalizations.filter((c) => c !== dominantCap).length : 0;
-    if (dominantCap && inconsistentCaps > 0 && inconsistentCaps < capitalizations.length) {
-      issues.push({
-        rule: 'FORMATTING',
-        severity: 'suggestion',
-        message: `Inconsistent capitalization: ${inconsistentCaps} items differ from the majority`,
-        suggestion:
-          dominantCap === 'upper'
-            ? 'Capitalize the first letter of all items'
-            : 'Use lowercase for the first letter of all items',
-        research_basis: RESEARCH_CITATIONS.FORMATTING,
-      });
-      points -= 2;
-    }
-
-    return {
-      rule: 'FORMATTING',
-      max_points: FORMATTING.POINTS,
-      earned_points: Math.max(0, points),
-      issues,
-    };
-  }
-
   // ===========================================================================
   // Helper Methods
   // ===========================================================================
 
   /**
-   * Detect grammatical pattern of a bullet item
+   * Calculate average line length from collected lengths
    */
-  private detectGrammarPattern(text: string): GrammarPattern {
-    const words = text.trim().split(/\s+/);
-    if (words.length === 0) return 'unknown';
-
-    const firstWord = words[0].toLowerCase().replace(/[^a-z]/g, '');
-
-    // Check for imperative verbs
-    if (IMPERATIVE_VERBS.has(firstWord)) {
-      return 'verb-imperative';
-    }
-
-    // Check for gerunds (-ing)
-    // Exclude common non-gerund -ing words
-    const nonGerunds = new Set([
-      'king', 'ring', 'thing', 'string', 'spring', 'swing', 'bring', 'sing',
-      'bling', 'fling', 'sling', 'sting', 'wing', 'cling', 'wring',
-      'anything', 'everything', 'nothing', 'something',
-    ]);
-    if (firstWord.endsWith('ing') && firstWord.length > 4 && !nonGerunds.has(firstWord)) {
-      return 'verb-gerund';
-    }
-
-    // Check for noun phrases (articles)
-    if (['the', 'a', 'an', 'this', 'that', 'each', 'every', 'all', 'some'].includes(firstWord)) {
-      return 'noun-phrase';
-    }
-
-    // Check if it looks like a complete sentence (has common verb patterns)
-    const textLower = text.toLowerCase();
-    if (
-      textLower.includes(' is ') ||
-      textLower.includes(' are ') ||
-      textLower.includes(' was ') ||
-      textLower.includes(' were ') ||
-      textLower.includes(' has ') ||
-      textLower.includes(' have ') ||
-      textLower.includes(' will ') ||
-      textLower.includes(' can ')
-    ) {
-      return 'sentence';
-    }
-
-    return 'unknown';
-  }
-
-  /**
-   * Get the most common element in an array
-   * Returns undefined for empty arrays (caller must handle)
-   */
-  private getMostCommon<T>(arr: T[]): T | undefined {
-    if (arr.length === 0) {
-      return undefined;
-    }
-
-    const counts = new Map<T, number>();
-    arr.forEach((item) => {
-      counts.set(item, (counts.get(item) || 0) + 1);
-    });
-
-    let maxCount = 0;
-    let mostCommon = arr[0];
-    counts.forEach((count, item) => {
-      if (count > maxCount) {
-        maxCount = count;
-        mostCommon = item;
-      }
-    });
-
-    return mostCommon;
-  }
-
-  /**
-   * Calculate maximum nesting depth
-   */
-  private calculateMaxDepth(items: BulletItem[], currentDepth = 1): number {
-    let max = currentDepth;
-    for (const item of items) {
-      if (item.children && item.children.length > 0) {
-        max = Math.max(max, this.calculateMaxDepth(item.children, currentDepth + 1));
-      }
-    }
-    return max;
-  }
-
-  /**
-   * Calculate average line length
-   */
-  private calculateAvgLineLength(items: BulletItem[]): number {
-    const lengths: number[] = [];
-
-    const collectLengths = (item: BulletItem) => {
-      lengths.push(item.text.length);
-      if (item.children) {
-        item.children.forEach(collectLengths);
-      }
-    };
-
-    items.forEach(collectLengths);
-
+  private averageLength(lengths: number[]): number {
     if (lengths.length === 0) return 0;
     return Math.round(lengths.reduce((sum, len) => sum + len, 0) / lengths.length);
   }
@@ -1096,50 +1350,4 @@ export class BulletServer {
     }
     return 'These changes will significantly improve your bullet list.';
   }
-
-  /**
-   * Analyze context fit
-   */
-  private analyzeContext(
-    items: BulletItem[],
-    context: Context
-  ): { fit: ContextFit; feedback?: string } {
-    if (context === 'presentation') {
-      return {
-        fit: 'poor',
-        feedback:
-          '3M research shows presentations are 43% more persuasive with visuals instead of bullets. Consider using graphics with narration.',
-      };
-    }
-
-    if (context === 'reference') {
-      // Reference materials benefit from clear hierarchy and findability
-      const maxDepth = this.calculateMaxDepth(items);
-      if (maxDepth === 1 && items.length > 5) {
-        return {
-          fit: 'good',
-          feedback:
-            'For reference materials, consider using hierarchy (sub-bullets) to group related items for faster lookup.',
-        };
-      }
-      return {
-        fit: 'excellent',
-        feedback: 'Well-structured for reference use. Ensure consistent formatting for quick scanning.',
-      };
-    }
-
-    // Check for heterogeneous content (different grammar patterns suggest different types of info)
-    const patterns = items.map((item) => this.detectGrammarPattern(item.text));
-    const uniquePatterns = new Set(patterns.filter((p) => p !== 'unknown')).size;
-
-    if (uniquePatterns > 2) {
-      return {
-        fit: 'good',
-        feedback:
-          'Content appears heterogeneous. Bullets work best with related, similar items. Consider grouping by category.',
-      };
-    }
-
-    return { fit: 'excellent' };
-  }
 }
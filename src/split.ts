@@ -0,0 +1,265 @@
+/**
+ * List splitting for bullet-mcp
+ * Clusters the items of an oversized list into groups that fit the list-length
+ * limits, using shared words, leading terms and grammar patterns
+ */
+
+import type { BulletItem, Language, RuleThresholds } from './types.js';
+import { LIST_GROUPING } from './constants.js';
+import { detectGrammarPattern, type GrammarPattern } from './grammar.js';
+
+/**
+ * Words that say nothing about an item's topic
+ */
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'that', 'this', 'these', 'those',
+  'are', 'was', 'were', 'has', 'have', 'had', 'will', 'can', 'should', 'would', 'could',
+  'not', 'but', 'all', 'any', 'each', 'every', 'some', 'more', 'most', 'less', 'than',
+  'then', 'when', 'where', 'which', 'who', 'what', 'how', 'why', 'your', 'our', 'their',
+  'its', 'you', 'they', 'them', 'use', 'using', 'also', 'only', 'very', 'just', 'over',
+  'under', 'about', 'before', 'after', 'between', 'within', 'without', 'per', 'via',
+]);
+
+/**
+ * Features of one item used for grouping
+ */
+interface ItemFeatures {
+  /** Stemmed content words */
+  terms: Set<string>;
+  /** First word as written, keyed by stem */
+  surfaces: Map<string, string>;
+  /** Stem of the first word, or '' when it is a stop word */
+  lead: string;
+  pattern: GrammarPattern;
+}
+
+/**
+ * A proposed group of items from one list
+ */
+export interface ItemGroup {
+  heading: string;
+  shared_terms: string[];
+  indices: number[];
+}
+
+/**
+ * Crude stem so "tests", "testing" and "tested" or "deploy" and "deployment" match
+ */
+function stem(word: string): string {
+  let base = word;
+  if (base.endsWith('ies') && base.length > 4) {
+    base = `${base.slice(0, -3)}y`;
+  } else if (base.endsWith('s') && !base.endsWith('ss') && base.length > 3) {
+    base = base.slice(0, -1);
+  }
+  for (const suffix of ['ation', 'ment', 'ing', 'ed']) {
+    if (base.endsWith(suffix) && base.length - suffix.length >= 3) {
+      return base.slice(0, -suffix.length);
+    }
+  }
+  return base;
+}
+
+/**
+ * Extract the grouping features of an item
+ */
+function extractFeatures(item: BulletItem, language: Language): ItemFeatures {
+  const words = item.text.match(/[\p{L}\p{N}][\p{L}\p{N}-]*/gu) ?? [];
+  const terms = new Set<string>();
+  const surfaces = new Map<string, string>();
+
+  for (const word of words) {
+    const lower = word.toLowerCase();
+    if (lower.length < 3 || STOP_WORDS.has(lower)) continue;
+    const term = stem(lower);
+    terms.add(term);
+    if (!surfaces.has(term)) surfaces.set(term, word);
+  }
+
+  const first = words[0]?.toLowerCase() ?? '';
+  return {
+    terms,
+    surfaces,
+    lead: first && !STOP_WORDS.has(first) ? stem(first) : '',
+    pattern: detectGrammarPattern(item.text, language),
+  };
+}
+
+/**
+ * Similarity of two items: shared content words plus leading term and pattern bonuses
+ */
+function similarity(a: ItemFeatures, b: ItemFeatures): number {
+  let shared = 0;
+  a.terms.forEach((term) => {
+    if (b.terms.has(term)) shared++;
+  });
+  const union = a.terms.size + b.terms.size - shared;
+
+  let score = union > 0 ? (shared / union) * LIST_GROUPING.LEXICAL_WEIGHT : 0;
+  if (a.lead && a.lead === b.lead) score += LIST_GROUPING.LEADING_TERM_WEIGHT;
+  if (a.pattern !== 'unknown' && a.pattern === b.pattern) score += LIST_GROUPING.PATTERN_WEIGHT;
+  return score;
+}
+
+/**
+ * Number of groups: about OPTIMAL_ITEMS each, kept within MIN_ITEMS-MAX_ITEMS when possible
+ */
+export function groupCount(count: number, limits: RuleThresholds['LIST_LENGTH']): number {
+  const fewest = Math.ceil(count / limits.MAX_ITEMS);
+  const most = Math.max(fewest, Math.floor(count / limits.MIN_ITEMS));
+  return Math.min(most, Math.max(fewest, Math.ceil(count / limits.OPTIMAL_ITEMS)));
+}
+
+// ============================================================================
+// Clustering
+// ============================================================================
+
+/**
+ * Split a list into groups of MIN_ITEMS-MAX_ITEMS related items
+ * The most similar groups are merged (average linkage, never above MAX_ITEMS)
+ * until the group count is reached; groups below MIN_ITEMS are then dissolved
+ * or topped up, and items move between groups while that raises similarity.
+ * Groups and the items in them keep their original order
+ */
+export function splitItems(
+  items: BulletItem[],
+  limits: RuleThresholds['LIST_LENGTH'],
+  language: Language = 'en'
+): ItemGroup[] {
+  const features = items.map((item) => extractFeatures(item, language));
+  const sim = features.map((a) => features.map((b) => similarity(a, b)));
+  const count = items.length;
+  const target = groupCount(count, limits);
+  const fewest = Math.ceil(count / limits.MAX_ITEMS);
+
+  /** Average similarity of an item to the other members of a group */
+  const affinity = (index: number, group: number[]) => {
+    const others = group.filter((member) => member !== index);
+    return others.length > 0 ? others.reduce((sum, member) => sum + sim[index][member], 0) / others.length : 0;
+  };
+  const linkage = (a: number[], b: number[]) =>
+    a.reduce((sum, index) => sum + b.reduce((inner, other) => inner + sim[index][other], 0), 0) /
+    (a.length * b.length);
+
+  let groups = items.map((_, index) => [index]);
+
+  while (groups.length > target) {
+    let best: [number, number] | undefined;
+    let bestScore = -Infinity;
+    for (let a = 0; a < groups.length; a++) {
+      for (let b = a + 1; b < groups.length; b++) {
+        if (groups[a].length + groups[b].length > limits.MAX_ITEMS) continue;
+        const score = linkage(groups[a], groups[b]);
+        if (score > bestScore) {
+          best = [a, b];
+          bestScore = score;
+        }
+      }
+    }
+    if (!best) break;
+    const [a, b] = best;
+    groups[a] = [...groups[a], ...groups[b]];
+    groups.splice(b, 1);
+  }
+
+  // Dissolve groups below MIN_ITEMS into the others, or top them up when there is no room
+  for (let guard = 0; guard < count * 2; guard++) {
+    const small = groups.findIndex((group) => group.length < limits.MIN_ITEMS);
+    if (small === -1) break;
+    const others = groups.filter((_, g) => g !== small);
+    const room = others.reduce((sum, group) => sum + limits.MAX_ITEMS - group.length, 0);
+
+    if (groups.length > target && others.length >= fewest && room >= groups[small].length) {
+      for (const index of groups[small]) {
+        const open = others.filter((group) => group.length < limits.MAX_ITEMS);
+        const home = open.reduce((bestGroup, group) =>
+          affinity(index, group) > affinity(index, bestGroup) ? group : bestGroup
+        );
+        home.push(index);
+      }
+      groups = others;
+      continue;
+    }
+
+    let donor: { index: number; from: number; gain: number } | undefined;
+    groups.forEach((group, from) => {
+      if (from === small || group.length <= limits.MIN_ITEMS) return;
+      for (const index of group) {
+        const gain = affinity(index, groups[small]) - affinity(index, group);
+        if (!donor || gain > donor.gain) donor = { index, from, gain };
+      }
+    });
+    if (!donor) break;
+
+    const { index, from } = donor;
+    groups[from] = groups[from].filter((member) => member !== index);
+    groups[small].push(index);
+  }
+
+  // Move items to a better-matching group while sizes stay within limits
+  for (let pass = 0; pass < LIST_GROUPING.MAX_PASSES; pass++) {
+    let moved = false;
+    for (let index = 0; index < count; index++) {
+      const from = groups.findIndex((group) => group.includes(index));
+      if (groups[from].length <= limits.MIN_ITEMS) continue;
+
+      let to = -1;
+      let bestGain = 1e-9;
+      groups.forEach((group, g) => {
+        if (g === from || group.length >= limits.MAX_ITEMS) return;
+        const gain = affinity(index, group) - affinity(index, groups[from]);
+        if (gain > bestGain) {
+          to = g;
+          bestGain = gain;
+        }
+      });
+
+      if (to !== -1) {
+        groups[from] = groups[from].filter((member) => member !== index);
+        groups[to].push(index);
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+
+  const ordered = groups
+    .filter((group) => group.length > 0)
+    .map((group) => [...group].sort((a, b) => a - b))
+    .sort((a, b) => a[0] - b[0]);
+
+  const used = new Set<string>();
+  return ordered.map((indices, g) => {
+    const shared = sharedTerms(indices.map((index) => features[index]), features);
+    const heading = shared.find((term) => !used.has(term.toLowerCase())) ?? `Group ${g + 1}`;
+    used.add(heading.toLowerCase());
+    return {
+      heading: heading.charAt(0).toUpperCase() + heading.slice(1),
+      shared_terms: shared,
+      indices,
+    };
+  });
+}
+
+/**
+ * Content words used by two or more items, those most specific to the group first
+ * A word counts against a group for every item outside it that uses the word too
+ */
+function sharedTerms(members: ItemFeatures[], all: ItemFeatures[]): string[] {
+  const counts = new Map<string, number>();
+  const surfaces = new Map<string, string>();
+  for (const member of members) {
+    member.terms.forEach((term) => {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+      if (!surfaces.has(term)) surfaces.set(term, member.surfaces.get(term)!);
+    });
+  }
+  const outside = (term: string, inside: number) =>
+    all.filter((features) => features.terms.has(term)).length - inside;
+
+  return [...counts.entries()]
+    .filter(([, count]) => count >= 2)
+    .map(([term, count]) => ({ term, specificity: count - outside(term, count) }))
+    .sort((a, b) => b.specificity - a.specificity)
+    .map(({ term }) => surfaces.get(term)!);
+}
@@ -0,0 +1,408 @@
+/**
+ * Part-of-speech tagging for bullet-mcp
+ * A small offline lexicon plus suffix and context rules, tuned for the short,
+ * often subject-less phrases bullets open with
+ */
+
+/**
+ * Part of speech of a word
+ */
+export type Tag =
+  | 'verb'
+  | 'verb-s'
+  | 'verb-past'
+  | 'participle'
+  | 'gerund'
+  | 'be'
+  | 'modal'
+  | 'noun'
+  | 'plural'
+  | 'proper'
+  | 'adjective'
+  | 'adverb'
+  | 'determiner'
+  | 'pronoun'
+  | 'preposition'
+  | 'conjunction'
+  | 'wh'
+  | 'number';
+
+/**
+ * A word with its most likely tag in context
+ */
+export interface TaggedWord {
+  word: string;
+  /** Most likely tag given the neighbouring words */
+  tag: Tag;
+  /** Every tag the lexicon allows for the word, most likely first */
+  tags: Tag[];
+}
+
+// ============================================================================
+// Lexicon
+// ============================================================================
+
+/**
+ * Closed word classes; a word found here takes no other tag
+ */
+const CLOSED_CLASSES: Array<[Tag, string[]]> = [
+  ['be', ['is', 'are', 'was', 'were', 'be', 'been', 'being', 'am', "isn't", "aren't", "wasn't", "weren't"]],
+  [
+    'modal',
+    [
+      'will', 'would', 'can', 'could', 'shall', 'should', 'may', 'might', 'must', 'has', 'had', 'does', 'did',
+      "won't", "wouldn't", "can't", 'cannot', "couldn't", "shouldn't", "mustn't", "hasn't", "haven't", "hadn't",
+      "doesn't", "didn't",
+    ],
+  ],
+  [
+    'determiner',
+    [
+      'the', 'a', 'an', 'this', 'that', 'these', 'those', 'each', 'every', 'all', 'some', 'any', 'no', 'both',
+      'either', 'neither', 'many', 'few', 'several', 'most', 'much', 'another', 'such', 'my', 'your', 'our',
+      'their', 'its', 'his', 'her',
+    ],
+  ],
+  [
+    'pronoun',
+    [
+      'i', 'we', 'you', 'they', 'he', 'she', 'it', 'us', 'them', 'me', 'him', 'there', 'everyone', 'someone',
+      'anyone', 'nobody', 'everything', 'something', 'anything', 'nothing',
+    ],
+  ],
+  [
+    'preposition',
+    [
+      'in', 'on', 'at', 'by', 'for', 'with', 'without', 'from', 'to', 'of', 'into', 'onto', 'over', 'under',
+      'about', 'after', 'before', 'between', 'through', 'throughout', 'during', 'via', 'per', 'across', 'against',
+      'among', 'around', 'behind', 'beyond', 'despite', 'except', 'inside', 'outside', 'toward', 'towards',
+      'until', 'upon', 'within', 'along', 'than', 'as', 'like', 'up', 'down', 'off', 'out',
+    ],
+  ],
+  [
+    'conjunction',
+    [
+      'and', 'or', 'but', 'nor', 'so', 'yet', 'because', 'if', 'while', 'although', 'though', 'unless', 'whereas',
+      'since',
+    ],
+  ],
+  ['wh', ['what', 'why', 'how', 'when', 'where', 'who', 'whom', 'whose', 'which']],
+];
+
+/**
+ * Base forms of verbs that bullets commonly open with
+ */
+const VERBS = [
+  'accept', 'access', 'add', 'adjust', 'adopt', 'aim', 'alert', 'align', 'allow', 'analyze', 'answer', 'apply',
+  'approve', 'archive', 'ask', 'assign', 'assume', 'audit', 'automate', 'avoid', 'back', 'batch', 'begin',
+  'benchmark', 'block', 'boost', 'break', 'bring', 'build', 'bundle', 'buy', 'cache', 'call', 'cancel',
+  'capture', 'catch', 'change', 'check', 'choose', 'clarify', 'clean', 'clear', 'click', 'close', 'collect',
+  'combine', 'come', 'comment', 'commit', 'communicate', 'compare', 'compile', 'complete', 'compress',
+  'configure', 'confirm', 'connect', 'consider', 'consolidate', 'contact', 'continue', 'contribute', 'control',
+  'convert', 'copy', 'correct', 'create', 'cut', 'debug', 'decide', 'declare', 'decouple', 'decrease', 'define',
+  'delegate', 'delete', 'deliver', 'deploy', 'deprecate', 'describe', 'design', 'detect', 'determine',
+  'develop', 'disable', 'discuss', 'display', 'document', 'do', 'download', 'draft', 'draw', 'drink', 'drive',
+  'drop', 'eat', 'edit', 'eliminate', 'emit', 'enable', 'encourage', 'encrypt', 'enforce', 'engage', 'ensure',
+  'enter', 'establish', 'estimate', 'evaluate', 'examine', 'exclude', 'execute', 'expand', 'expect',
+  'explain', 'explore', 'export', 'expose', 'extend', 'extract', 'fail', 'feel', 'fetch', 'file', 'filter',
+  'find', 'finish', 'fix', 'flag', 'flush', 'focus', 'follow', 'forget', 'format', 'forward', 'free', 'freeze',
+  'gather', 'generate', 'get', 'give', 'go', 'group', 'grow', 'guide', 'handle', 'have', 'help', 'hide',
+  'highlight', 'hire', 'hit', 'hold', 'identify', 'ignore', 'implement', 'import', 'improve', 'include',
+  'increase', 'index', 'inform', 'initialize', 'inject', 'inspect', 'install', 'integrate', 'introduce',
+  'invalidate', 'investigate', 'invite', 'invoke', 'isolate', 'iterate', 'join', 'keep', 'know', 'label',
+  'launch', 'lead', 'learn', 'leave', 'let', 'limit', 'link', 'list', 'listen', 'load', 'lock', 'log', 'look',
+  'loop', 'lose', 'lower', 'maintain', 'make', 'manage', 'map', 'mark', 'maximize', 'measure', 'meet',
+  'merge', 'migrate', 'minimize', 'mock', 'monitor', 'move', 'name', 'need', 'notify', 'obtain', 'offer',
+  'open', 'optimize', 'order', 'organize', 'outline', 'override', 'own', 'package', 'parse', 'pass', 'patch',
+  'pay', 'perform', 'persist', 'pick', 'pin', 'place', 'plan', 'point', 'poll', 'post', 'prefer', 'prepare',
+  'present', 'preserve', 'prevent', 'print', 'prioritize', 'process', 'profile', 'promote', 'protect',
+  'provide', 'publish', 'pull', 'push', 'put', 'query', 'queue', 'raise', 'rate', 'reach', 'read', 'rebuild',
+  'receive', 'record', 'reduce', 'refactor', 'refer', 'refresh', 'reject', 'release', 'reload', 'remember',
+  'remove', 'rename', 'render', 'repeat', 'replace', 'report', 'request', 'require', 'reset', 'resolve',
+  'respond', 'rest', 'restart', 'restore', 'restrict', 'retrieve', 'retry', 'return', 'reuse', 'review',
+  'revert', 'revoke', 'rewrite', 'rotate', 'route', 'run', 'sanitize', 'save', 'say', 'scale', 'scan',
+  'schedule', 'search', 'secure', 'see', 'seek', 'select', 'sell', 'send', 'separate', 'serve', 'set',
+  'share', 'ship', 'show', 'shut', 'sign', 'simplify', 'skip', 'sleep', 'solve', 'sort', 'speak', 'specify',
+  'speed', 'spend', 'split', 'spread', 'stage', 'stand', 'start', 'state', 'stay', 'stop', 'store', 'stream',
+  'structure', 'stub', 'submit', 'summarize', 'support', 'switch', 'sync', 'tag', 'take', 'talk', 'target',
+  'teach', 'tell', 'test', 'think', 'throttle', 'throw', 'tighten', 'time', 'trace', 'track', 'train',
+  'transform', 'translate', 'trigger', 'trim', 'try', 'tune', 'turn', 'type', 'understand', 'undo',
+  'unify', 'unlock', 'update', 'upgrade', 'upload', 'use', 'utilize', 'validate', 'verify', 'view', 'visit',
+  'wait', 'walk', 'want', 'warn', 'watch', 'wear', 'win', 'work', 'wrap', 'write',
+];
+
+/**
+ * Verbs that are just as often nouns ("a test", "the update")
+ */
+const NOUN_VERBS = new Set([
+  'access', 'alert', 'answer', 'back', 'batch', 'benchmark', 'block', 'boost', 'break', 'build', 'bundle',
+  'cache', 'call', 'catch', 'change', 'check', 'comment', 'commit', 'contact', 'control', 'copy', 'cut', 'design',
+  'display', 'document', 'draft', 'drop', 'estimate', 'export', 'file', 'filter', 'fix', 'flag', 'focus',
+  'format', 'group', 'guide', 'handle', 'help', 'hit', 'hold', 'import', 'index', 'install', 'label', 'launch',
+  'limit',
+  'link', 'list', 'load', 'lock', 'log', 'look', 'loop', 'map', 'mark', 'measure', 'mock', 'monitor', 'name',
+  'need', 'order', 'outline', 'package', 'patch', 'pass', 'pin', 'place', 'plan', 'point', 'poll', 'post',
+  'present', 'print', 'process', 'profile', 'push', 'query', 'queue', 'rate', 'reach', 'record', 'release',
+  'reload', 'report', 'request', 'reset', 'rest', 'restart', 'retry', 'return', 'review', 'run', 'scale',
+  'scan', 'schedule', 'search', 'set', 'share', 'ship', 'show', 'sign', 'sort', 'speed', 'split', 'spread',
+  'stage', 'start', 'state', 'stop', 'store', 'stream', 'structure', 'stub', 'support', 'switch', 'sync',
+  'tag', 'talk', 'target', 'test', 'time', 'trace', 'track', 'train', 'trigger', 'turn', 'type', 'update',
+  'upgrade', 'upload', 'use', 'view', 'visit', 'wait', 'walk', 'watch', 'work', 'wrap',
+]);
+
+/**
+ * Past tense and past participle of irregular verbs
+ */
+const IRREGULAR_VERBS: Record<string, [string, string]> = {
+  begin: ['began', 'begun'],
+  break: ['broke', 'broken'],
+  bring: ['brought', 'brought'],
+  build: ['built', 'built'],
+  buy: ['bought', 'bought'],
+  catch: ['caught', 'caught'],
+  choose: ['chose', 'chosen'],
+  come: ['came', 'come'],
+  cut: ['cut', 'cut'],
+  do: ['did', 'done'],
+  draw: ['drew', 'drawn'],
+  drink: ['drank', 'drunk'],
+  drive: ['drove', 'driven'],
+  eat: ['ate', 'eaten'],
+  feel: ['felt', 'felt'],
+  find: ['found', 'found'],
+  forget: ['forgot', 'forgotten'],
+  freeze: ['froze', 'frozen'],
+  get: ['got', 'gotten'],
+  give: ['gave', 'given'],
+  go: ['went', 'gone'],
+  grow: ['grew', 'grown'],
+  have: ['had', 'had'],
+  hide: ['hid', 'hidden'],
+  hit: ['hit', 'hit'],
+  hold: ['held', 'held'],
+  keep: ['kept', 'kept'],
+  know: ['knew', 'known'],
+  lead: ['led', 'led'],
+  leave: ['left', 'left'],
+  let: ['let', 'let'],
+  lose: ['lost', 'lost'],
+  make: ['made', 'made'],
+  meet: ['met', 'met'],
+  override: ['overrode', 'overridden'],
+  pay: ['paid', 'paid'],
+  put: ['put', 'put'],
+  read: ['read', 'read'],
+  rebuild: ['rebuilt', 'rebuilt'],
+  reset: ['reset', 'reset'],
+  rewrite: ['rewrote', 'rewritten'],
+  run: ['ran', 'run'],
+  say: ['said', 'said'],
+  see: ['saw', 'seen'],
+  seek: ['sought', 'sought'],
+  sell: ['sold', 'sold'],
+  send: ['sent', 'sent'],
+  set: ['set', 'set'],
+  show: ['showed', 'shown'],
+  shut: ['shut', 'shut'],
+  sleep: ['slept', 'slept'],
+  speak: ['spoke', 'spoken'],
+  spend: ['spent', 'spent'],
+  split: ['split', 'split'],
+  spread: ['spread', 'spread'],
+  stand: ['stood', 'stood'],
+  take: ['took', 'taken'],
+  teach: ['taught', 'taught'],
+  tell: ['told', 'told'],
+  think: ['thought', 'thought'],
+  throw: ['threw', 'thrown'],
+  understand: ['understood', 'understood'],
+  undo: ['undid', 'undone'],
+  wear: ['wore', 'worn'],
+  win: ['won', 'won'],
+  write: ['wrote', 'written'],
+};
+
+/**
+ * Adjectives without a telling suffix
+ */
+const ADJECTIVES = new Set([
+  'able', 'active', 'advanced', 'automated', 'aware', 'bad', 'basic', 'best', 'better', 'big', 'bold', 'brief',
+  'broken', 'busy', 'cheap', 'clean', 'clear', 'close', 'closed', 'coherent', 'common', 'complete', 'complex',
+  'concise', 'concurrent', 'consistent', 'convenient', 'correct', 'current', 'dedicated', 'deep', 'default',
+  'detailed', 'different', 'direct', 'due', 'early', 'easy', 'efficient', 'empty', 'entire', 'equivalent',
+  'evident', 'exact', 'excellent', 'expensive', 'explicit', 'extra', 'fair', 'false', 'familiar', 'fast',
+  'faster', 'final', 'fine', 'firm', 'first', 'flat', 'free', 'frequent', 'fresh', 'full', 'good', 'great',
+  'hard', 'heavy', 'high', 'higher', 'huge', 'idle', 'implicit', 'independent', 'key', 'large', 'last', 'late',
+  'lean', 'legacy', 'light', 'likely', 'live', 'local', 'long', 'loose', 'low', 'lower', 'main', 'major',
+  'minor', 'modern', 'narrow', 'new', 'next', 'nice', 'old', 'only', 'open', 'other', 'permanent',
+  'persistent', 'plain', 'poor', 'primary', 'private', 'prompt', 'proper', 'public', 'quick', 'rare', 'ready',
+  'real', 'recent', 'relevant', 'remote', 'required', 'rich', 'robust', 'safe', 'same', 'secure', 'separate',
+  'short', 'significant', 'silent', 'similar', 'simple', 'simpler', 'single', 'slow', 'small', 'smaller',
+  'smart', 'solid', 'specific', 'stable', 'stale', 'strict', 'strong', 'sufficient', 'sure', 'tight', 'tiny',
+  'transparent', 'true', 'unique', 'unused', 'up-to-date', 'urgent', 'valid', 'vital', 'weak', 'whole', 'wide',
+  'worse', 'worst', 'wrong',
+]);
+
+/**
+ * Adverbs that do not end in -ly
+ */
+const ADVERBS = new Set([
+  'again', 'ahead', 'almost', 'already', 'also', 'always', 'anyway', 'away', 'even', 'ever', 'here',
+  'instead', 'just', 'later', 'maybe', 'never', 'not', 'now', 'often', 'once', 'otherwise', 'perhaps',
+  'quite', 'rather', 'soon', 'sometimes', 'still', 'then', 'today', 'together', 'tomorrow', 'too', 'twice',
+  'upfront', 'very', 'well',
+]);
+
+/**
+ * Words ending in -ing that are not gerunds
+ */
+const NON_GERUNDS = new Set([
+  'anything', 'bring', 'ceiling', 'cling', 'during', 'evening', 'everything', 'fling', 'king', 'morning',
+  'nothing', 'ring', 'sibling', 'sing', 'sling', 'something', 'spring', 'sting', 'string', 'swing', 'thing',
+  'wing', 'wring',
+]);
+
+/**
+ * Words ending in -s that are not plurals or verb forms
+ */
+const NON_PLURALS = /(?:ss|us|is|ous|ics)$/;
+
+const ADJECTIVE_SUFFIX = /(?:able|ible|ful|less|ous|ive|ic|ical|al|ish|ary|ant)$/;
+const NOUN_SUFFIX = /(?:tion|sion|ment|ness|ity|ance|ence|ship|ism|ist|er|or|age|ure|dom|hood)$/;
+
+const CLOSED = new Map(CLOSED_CLASSES.flatMap(([tag, words]) => words.map((word) => [word, tag] as const)));
+const VERB_SET = new Set(VERBS);
+const PAST_FORMS = new Map<string, Tag[]>();
+for (const [, [past, participle]] of Object.entries(IRREGULAR_VERBS)) {
+  PAST_FORMS.set(past, past === participle ? ['verb-past', 'participle'] : ['verb-past']);
+  if (past !== participle) PAST_FORMS.set(participle, ['participle']);
+}
+
+/**
+ * Base forms a suffixed word may come from ("stopped" -> stop, "copies" -> copy, "bigger" -> big)
+ */
+function stems(word: string, suffix: 'ed' | 'er' | 's'): string[] {
+  if (suffix === 's') {
+    const found = [word.slice(0, -1)];
+    if (/(?:ss|x|z|ch|sh|o)es$/.test(word)) found.push(word.slice(0, -2));
+    if (word.endsWith('ies')) found.push(`${word.slice(0, -3)}y`);
+    return found;
+  }
+  const found = [word.slice(0, -2), word.slice(0, -1)];
+  if (/([b-df-hj-np-tv-z])\1e[dr]$/.test(word)) found.push(word.slice(0, -3));
+  if (word.endsWith(`i${suffix}`)) found.push(`${word.slice(0, -3)}y`);
+  return found;
+}
+
+/**
+ * Every tag a word can take, most likely first
+ */
+export function lookupTags(word: string): Tag[] {
+  const lower = word.toLowerCase();
+  if (/^[0-9]/.test(lower)) return ['number'];
+
+  const closed = CLOSED.get(lower);
+  if (closed) return [closed];
+
+  const tags: Tag[] = [];
+  const add = (...found: Tag[]) => found.forEach((tag) => tags.includes(tag) || tags.push(tag));
+
+  if (VERB_SET.has(lower)) {
+    add('verb');
+    if (NOUN_VERBS.has(lower)) add('noun');
+  }
+  if (ADJECTIVES.has(lower)) add('adjective');
+  if (ADVERBS.has(lower)) add('adverb');
+  if (PAST_FORMS.has(lower)) add(...PAST_FORMS.get(lower)!);
+  if (IRREGULAR_VERBS[lower]?.[1] === lower) add('participle');
+  if (tags.length > 0) return tags;
+
+  if (lower.endsWith('ing') && lower.length > 4 && !NON_GERUNDS.has(lower)) return ['gerund'];
+  if (lower.endsWith('ed') && lower.length > 3) {
+    return stems(lower, 'ed').some((stem) => VERB_SET.has(stem))
+      ? ['verb-past', 'participle']
+      : ['participle', 'verb-past'];
+  }
+  if (lower.endsWith('ly') && lower.length > 3) return ['adverb'];
+  if (lower.endsWith('er') && stems(lower, 'er').some((stem) => ADJECTIVES.has(stem))) return ['adjective'];
+  if (ADJECTIVE_SUFFIX.test(lower) && !NOUN_SUFFIX.test(lower)) return ['adjective'];
+  if (lower.endsWith('s') && lower.length > 3 && !NON_PLURALS.test(lower)) {
+    const verbStem = stems(lower, 's').find((stem) => VERB_SET.has(stem));
+    if (!verbStem) return ['plural'];
+    return NOUN_VERBS.has(verbStem) ? ['plural', 'verb-s'] : ['verb-s'];
+  }
+  return ['noun'];
+}
+
+// ============================================================================
+// Tagging
+// ============================================================================
+
+/**
+ * Tags that can only be a clause's main verb
+ */
+export const FINITE_TAGS = new Set<Tag>(['be', 'modal', 'verb-s', 'verb-past']);
+
+/**
+ * Words of a text in order, keeping contractions and hyphenated words whole
+ */
+export function tokenize(text: string): string[] {
+  return text.match(/[A-Za-z0-9][A-Za-z0-9'’-]*/g)?.map((word) => word.replace(/’/g, "'")) ?? [];
+}
+
+/**
+ * Readings the lexicon misses but the neighbouring words give away: a verb form after a
+ * comparative is a plural noun ("Faster builds"), and an opening noun followed by a
+ * determiner is a command ("Email the team")
+ */
+function contextTags(tags: Tag[], previous: TaggedWord | undefined, next: string | undefined): Tag[] {
+  const comparative = previous?.tag === 'adjective' && /er$/i.test(previous.word);
+  if (comparative && tags.length === 1 && tags[0] === 'verb-s') return ['plural', 'verb-s'];
+
+  const lowerNext = next?.toLowerCase();
+  const determinerFollows = lowerNext !== undefined && lowerNext !== 'that' && CLOSED.get(lowerNext) === 'determiner';
+  if (!previous && tags.length === 1 && tags[0] === 'noun' && determinerFollows) return ['verb', 'noun'];
+  return tags;
+}
+
+/**
+ * Pick the tag of an ambiguous word from the words around it
+ */
+function chooseTag(tags: Tag[], previous: TaggedWord | undefined, next: Tag[] | undefined): Tag {
+  const prefer = (...order: Tag[]) => order.find((tag) => tags.includes(tag)) ?? tags[0];
+
+  if (!previous) {
+    // Bullets usually open with a command unless a verb follows ("Cache invalidates stale entries")
+    const verbFollows = next?.length === 1 && FINITE_TAGS.has(next[0]);
+    return verbFollows ? prefer('noun', 'plural', 'verb') : prefer('verb');
+  }
+  if (['determiner', 'adjective', 'number'].includes(previous.tag)) return prefer('noun', 'plural', 'adjective');
+  if (previous.tag === 'modal' || previous.word.toLowerCase() === 'to') return prefer('verb');
+  if (previous.tag === 'pronoun') return prefer('verb-s', 'verb-past', 'verb');
+  if (previous.tag === 'be') return prefer('participle', 'gerund', 'adjective');
+  return tags[0];
+}
+
+/**
+ * Tag every word of a text
+ */
+export function tagWords(text: string): TaggedWord[] {
+  const words = tokenize(text);
+  const candidates = words.map(lookupTags);
+  const tagged: TaggedWord[] = [];
+
+  words.forEach((word, index) => {
+    const tags = contextTags(candidates[index], tagged[index - 1], words[index + 1]);
+    const proper = index > 0 && /^[A-Z]/.test(word) && tags.length === 1 && ['noun', 'plural'].includes(tags[0]);
+    const acronym = /^[A-Z][A-Z0-9]+s?$/.test(word) && !CLOSED.has(word.toLowerCase());
+    const tag =
+      proper || acronym
+        ? 'proper'
+        : tags.length === 1
+          ? tags[0]
+          : chooseTag(tags, tagged[index - 1], candidates[index + 1]);
+    tagged.push({ word, tag, tags: proper || acronym ? ['proper'] : tags });
+  });
+
+  return tagged;
+}
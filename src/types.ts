@@ -16,10 +16,26 @@ export interface BulletItem {
   children?: BulletItem[];
   /** Priority hint for serial position optimization */
   importance?: 'high' | 'medium' | 'low';
+  /** Keep this item at its position when reordering */
+  locked?: boolean;
 }
 
-/** Context type for document analysis */
-export type Context = 'document' | 'presentation' | 'reference';
+/** Where a list will be read; sets context thresholds and the context fit check */
+export type Context =
+  | 'document'
+  | 'presentation'
+  | 'reference'
+  | 'email'
+  | 'chat'
+  | 'slide'
+  | 'changelog'
+  | 'executive-summary';
+
+/** Readers a list is written for; sets the target reading grade */
+export type Audience = 'general' | 'low-literacy' | 'expert';
+
+/** Language a list is written in (ISO 639-1) */
+export type Language = 'en' | 'es' | 'de' | 'fr';
 
 /**
  * A section containing grouped bullet items (for long documents)
@@ -38,7 +54,7 @@ export interface BulletSection {
 }
 
 /**
- * Input to the bullet tool - supports flat items OR sections (mutually exclusive)
+ * Input to the bullet tool - supports flat items, sections, markdown OR html (mutually exclusive)
  */
 export interface BulletInput {
   /** Title/heading for the bullet list (required) */
@@ -51,8 +67,26 @@ export interface BulletInput {
   items?: BulletItem[];
   /** Grouped sections for long documents (sectioned mode) */
   sections?: BulletSection[];
+  /** Raw Markdown list source (markdown mode) */
+  markdown?: string;
+  /** HTML fragment containing <ul>/<ol> lists (HTML mode) */
+  html?: string;
   /** Usage context affects recommendations */
   context?: Context;
+  /** Intended readers (default: general) */
+  audience?: Audience;
+  /** Language of the items (default: detected from the text) */
+  language?: Language;
+}
+
+/**
+ * Position in a Markdown source (1-indexed)
+ */
+export interface SourceLocation {
+  /** Line number */
+  line: number;
+  /** Column number */
+  column: number;
 }
 
 // ============================================================================
@@ -62,6 +96,16 @@ export interface BulletInput {
 /** Severity level for validation issues */
 export type Severity = 'error' | 'warning' | 'suggestion';
 
+/**
+ * Length of an item as given and as displayed
+ */
+export interface LineLength {
+  /** UTF-16 code units of the text, markup included */
+  raw: number;
+  /** Display columns after stripping inline markup (wide characters count two) */
+  visible: number;
+}
+
 /**
  * A single validation issue found during analysis
  */
@@ -72,10 +116,20 @@ export interface ValidationIssue {
   severity: Severity;
   /** Human-readable description of the issue */
   message: string;
-  /** Which item has the issue (0-indexed) */
+  /** Which top-level item has the issue (0-indexed); the first entry of path */
   item_index?: number;
+  /** Position of the item from the list root, e.g. [2, 0, 1] for the second child of the first child of the third item */
+  path?: number[];
+  /** Which section the issue belongs to (sectioned mode only, 0-indexed) */
+  section_index?: number;
+  /** Source line of the item (markdown mode only) */
+  line?: number;
+  /** Source column of the item text (markdown mode only) */
+  column?: number;
   /** Actionable suggestion to fix the issue */
   suggestion?: string;
+  /** Raw and visible length of the item (LINE_LENGTH only) */
+  line_length?: LineLength;
   /** Citation to supporting research */
   research_basis?: string;
 }
@@ -124,6 +178,8 @@ export interface SectionScore {
   issues: ValidationIssue[];
   /** Context used for this section */
   context: Context;
+  /** Readability of the section's items */
+  readability: ReadabilityMetrics;
 }
 
 /**
@@ -140,6 +196,46 @@ export interface StructuredBulletList {
   items: string[];
 }
 
+/**
+ * Spread of item lengths in display columns
+ */
+export interface LengthSpread {
+  /** Shortest item */
+  min: number;
+  /** Longest item */
+  max: number;
+  /** Population variance of the lengths */
+  variance: number;
+  /** Standard deviation of the lengths */
+  std_dev: number;
+  /** Standard deviation as a percentage of the average length */
+  spread_percent: number;
+}
+
+/**
+ * Offline readability metrics of an item or a list
+ */
+export interface ReadabilityMetrics {
+  /** Flesch-Kincaid grade level */
+  grade: number;
+  /** Average syllables per word */
+  syllables_per_word: number;
+  /** Share of words with LONG_WORD_CHARS or more letters (0-1) */
+  long_word_ratio: number;
+}
+
+/**
+ * Readability of a whole analysis against the audience's target grade
+ */
+export interface ReadabilityReport extends ReadabilityMetrics {
+  /** Audience the list was checked for */
+  audience: Audience;
+  /** Highest comfortable grade level for the audience */
+  target_grade: number;
+  /** Metrics of each top-level item, in order (across sections in sectioned mode) */
+  items: ReadabilityMetrics[];
+}
+
 /**
  * Complete analysis result returned by the bullet tool
  */
@@ -170,8 +266,14 @@ export interface BulletAnalysis {
   item_count: number;
   /** Maximum nesting depth found */
   max_depth: number;
-  /** Average line length in characters */
+  /** Average visible line length in display columns */
   avg_line_length: number;
+  /** How much item lengths vary around the average */
+  line_length_spread: LengthSpread;
+  /** Reading grade and vocabulary difficulty for the audience */
+  readability: ReadabilityReport;
+  /** Language the list was analyzed as, given in the input or detected */
+  language: Language;
   /** How well the content fits the specified context */
   context_fit: ContextFit;
   /** Context-specific feedback */
@@ -180,6 +282,372 @@ export interface BulletAnalysis {
   section_scores?: SectionScore[];
 }
 
+/**
+ * Analysis of a single list found in a scanned document
+ */
+export interface ListAnalysis {
+  /** Position of the first item */
+  location: SourceLocation;
+  /** Last source line belonging to the list */
+  end_line: number;
+  /** Nearest heading above the list */
+  heading?: string;
+  /** Full analysis of the list */
+  analysis: BulletAnalysis;
+}
+
+/**
+ * Result of scanning a whole Markdown document
+ */
+export interface DocumentAnalysis {
+  /** Average score across all lists (0-100) */
+  overall_score: number;
+  /** Letter grade for the document */
+  grade: Grade;
+  /** Number of lists found */
+  list_count: number;
+  /** Total number of top-level items across all lists */
+  item_count: number;
+  /** Total errors across all lists */
+  error_count: number;
+  /** Total warnings across all lists */
+  warning_count: number;
+  /** Total suggestions across all lists */
+  suggestion_count: number;
+  /** Per-rule score breakdown averaged across lists */
+  scores: RuleScore[];
+  /** Brief summary of the document analysis */
+  summary: string;
+  /** Per-list analyses in document order */
+  lists: ListAnalysis[];
+}
+
+/**
+ * Result for one entry of a batch
+ */
+export interface BatchEntryResult {
+  /** Position of the entry in the batch */
+  index: number;
+  /** Caller-supplied id (when valid) */
+  id?: string;
+  /** Analysis of the entry */
+  analysis?: BulletAnalysis;
+  /** Why the entry could not be analyzed */
+  error?: string;
+}
+
+/**
+ * Spread of overall scores across analyzed entries
+ */
+export interface ScoreDistribution {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  /** Entry counts per 10-point band, from "0-9" to "90-100" */
+  histogram: Array<{ range: string; count: number }>;
+}
+
+/**
+ * How often a rule was violated across a batch
+ */
+export interface RuleViolationCount {
+  /** Rule identifier */
+  rule: string;
+  /** Issues reported for the rule */
+  count: number;
+  /** Entries with at least one issue for the rule */
+  entries: number;
+  /** Issues by severity */
+  errors: number;
+  warnings: number;
+  suggestions: number;
+}
+
+/**
+ * Result of the bullet_batch tool
+ */
+export interface BatchResult {
+  /** Entries in the batch */
+  entry_count: number;
+  /** Entries analyzed successfully */
+  analyzed_count: number;
+  /** Entries that failed validation */
+  failed_count: number;
+  /** Score spread across analyzed entries (omitted when none were analyzed) */
+  score_distribution?: ScoreDistribution;
+  /** Analyzed entries per grade */
+  grade_counts: Record<Grade, number>;
+  /** Rules with the most issues, most frequent first */
+  top_violations: RuleViolationCount[];
+  /** Brief summary of the batch */
+  summary: string;
+  /** Per-entry results in batch order */
+  results: BatchEntryResult[];
+}
+
+/** Criterion that separated two ranked candidates */
+export type RankCriterion = 'score' | 'errors' | 'warnings' | 'item_count' | 'line_length' | 'tie';
+
+/**
+ * One candidate in a best-of-N ranking
+ */
+export interface RankedCandidate {
+  /** Position in the ranking (1 = best) */
+  rank: number;
+  /** Position of the candidate in the input */
+  index: number;
+  /** Title of the candidate */
+  title: string;
+  /** Overall score (0-100) */
+  overall_score: number;
+  /** Letter grade */
+  grade: Grade;
+  /** Number of errors */
+  error_count: number;
+  /** Number of warnings */
+  warning_count: number;
+  /** Average distance of each list's item count from OPTIMAL_ITEMS */
+  item_count_distance: number;
+  /** Distance of the average line length from OPTIMAL_CHARS */
+  line_length_distance: number;
+  /** Full analysis of the candidate */
+  analysis: BulletAnalysis;
+}
+
+/**
+ * Result of the bullet_rank tool
+ */
+export interface RankResult {
+  /** Candidates from best to worst */
+  ranking: RankedCandidate[];
+  /** Input index of the best candidate */
+  winner_index: number;
+  /** Criterion that put the winner ahead of the runner-up (two or more candidates) */
+  decided_by?: RankCriterion;
+  /** Why the winner beat the runner-up */
+  explanation: string;
+}
+
+/**
+ * Where one item goes in a proposed order
+ */
+export interface ItemMove {
+  /** Item text */
+  text: string;
+  /** Importance hint of the item */
+  importance?: BulletItem['importance'];
+  /** Whether the item was locked in place */
+  locked?: boolean;
+  /** Top-level index in the input */
+  from_index: number;
+  /** Top-level index in the proposed order */
+  to_index: number;
+}
+
+/**
+ * Proposed order for a single list
+ */
+export interface ListOrder {
+  /** Section title (sectioned mode only) */
+  section?: string;
+  /** Item texts in the proposed order */
+  order: string[];
+  /** Every item with its current and proposed index */
+  moves: ItemMove[];
+  /** Importance-weighted recall (0-1) of the current order */
+  expected_recall_before: number;
+  /** Importance-weighted recall (0-1) of the proposed order */
+  expected_recall_after: number;
+  /** SERIAL_POSITION points earned by the current order */
+  serial_position_before: number;
+  /** SERIAL_POSITION points earned by the proposed order */
+  serial_position_after: number;
+  /** Change in SERIAL_POSITION points */
+  serial_position_delta: number;
+}
+
+/**
+ * Result of the bullet_reorder tool
+ */
+export interface OrderResult {
+  /** Input with every list in its proposed order, in items or sections mode */
+  reordered: BulletInput;
+  /** Proposed order for the flat list or for each section */
+  lists: ListOrder[];
+}
+
+/**
+ * An issue matched between two drafts by the bullet_compare tool
+ */
+export interface IssueChange {
+  /** Rule identifier */
+  rule: string;
+  /** Severity in the later draft (earlier draft for resolved issues) */
+  severity: Severity;
+  /** Severity in the earlier draft, when it differs */
+  severity_before?: Severity;
+  /** Message from the later draft (earlier draft for resolved issues) */
+  message: string;
+  /** Section title (sectioned mode only) */
+  section?: string;
+  /** Text of the item the issue is about (item-level issues only) */
+  item_text?: string;
+  /** Item index in the earlier draft */
+  item_index_before?: number;
+  /** Item index in the later draft */
+  item_index_after?: number;
+  /** Item path in the earlier draft */
+  path_before?: number[];
+  /** Item path in the later draft */
+  path_after?: number[];
+}
+
+/**
+ * Change in one rule's points between two drafts
+ */
+export interface RuleDelta {
+  /** Rule identifier */
+  rule: string;
+  /** Maximum possible points for this rule */
+  max_points: number;
+  /** Points earned by the earlier draft */
+  earned_before: number;
+  /** Points earned by the later draft */
+  earned_after: number;
+  /** Change in points earned */
+  delta: number;
+}
+
+/**
+ * Change in one section between two drafts, matched by title
+ */
+export interface SectionComparison {
+  /** Section title */
+  title: string;
+  /** Whether the section is in both drafts, only the later one, or only the earlier one */
+  status: 'matched' | 'added' | 'removed';
+  /** Section score in the earlier draft */
+  score_before?: number;
+  /** Section score in the later draft */
+  score_after?: number;
+  /** Change in section score (matched sections only) */
+  score_delta?: number;
+  /** Section grade in the earlier draft */
+  grade_before?: Grade;
+  /** Section grade in the later draft */
+  grade_after?: Grade;
+  /** Issues fixed in this section */
+  resolved: IssueChange[];
+  /** Issues new in this section */
+  introduced: IssueChange[];
+  /** Issues present in both drafts of this section */
+  unchanged: IssueChange[];
+}
+
+/**
+ * Result of the bullet_compare tool
+ */
+export interface CompareResult {
+  /** Overall score of the earlier draft */
+  score_before: number;
+  /** Overall score of the later draft */
+  score_after: number;
+  /** Change in overall score */
+  score_delta: number;
+  /** Grade of the earlier draft */
+  grade_before: Grade;
+  /** Grade of the later draft */
+  grade_after: Grade;
+  /** Points change for every rule */
+  rules: RuleDelta[];
+  /** Issues in the earlier draft that are gone from the later one */
+  resolved: IssueChange[];
+  /** Issues in the later draft that the earlier one did not have */
+  introduced: IssueChange[];
+  /** Issues present in both drafts */
+  unchanged: IssueChange[];
+  /** Per-section changes (when either draft is sectioned) */
+  sections?: SectionComparison[];
+  /** One-line summary of the change */
+  summary: string;
+}
+
+/**
+ * A group proposed when splitting an oversized list
+ */
+export interface SplitGroup {
+  /** Title of the section the items came from (sectioned mode only) */
+  section?: string;
+  /** Proposed heading for the group */
+  heading: string;
+  /** Content words shared by two or more items in the group, most specific first */
+  shared_terms: string[];
+  /** Indices of the grouped items in the original list */
+  item_indices: number[];
+}
+
+/**
+ * Result of the bullet_split tool
+ */
+export interface SplitResult {
+  /** Input with every oversized list replaced by one section per group */
+  split: BulletInput;
+  /** Groups proposed for each oversized list, in section order */
+  groups: SplitGroup[];
+  /** Overall score of the original input */
+  score_before: number;
+  /** Overall score of the split input */
+  score_after: number;
+  /** Grade of the original input */
+  grade_before: Grade;
+  /** Grade of the split input */
+  grade_after: Grade;
+}
+
+/** Kind of mechanical fix applied by the bullet_fix tool */
+export type FixKind = 'whitespace' | 'punctuation' | 'capitalization' | 'reorder';
+
+/**
+ * A single edit applied by the bullet_fix tool
+ */
+export interface FixEdit {
+  /** Kind of fix */
+  fix: FixKind;
+  /** Rule the fix addresses */
+  rule: string;
+  /** Section title (sectioned mode only) */
+  section?: string;
+  /** Position of the item in the input list: top-level index, then child indices */
+  path: number[];
+  /** Item text before the edit (text fixes) */
+  before?: string;
+  /** Item text after the edit (text fixes) */
+  after?: string;
+  /** New top-level index of the item (reorder fixes) */
+  to_index?: number;
+  /** Description of the edit */
+  message: string;
+}
+
+/**
+ * Result of the bullet_fix tool
+ */
+export interface FixResult {
+  /** Corrected input in items or sections mode, ready to pass back to the bullet tool */
+  fixed: BulletInput;
+  /** Edits applied, in the order they were made */
+  edits: FixEdit[];
+  /** Overall score of the original input */
+  score_before: number;
+  /** Overall score of the fixed input */
+  score_after: number;
+  /** Grade of the original input */
+  grade_before: Grade;
+  /** Grade of the fixed input */
+  grade_after: Grade;
+}
+
 // ============================================================================
 // Configuration Types
 // ============================================================================
@@ -202,10 +670,126 @@ export interface DisplayConfig {
   colorOutput: boolean;
 }
 
+/** Identifier of a built-in validation rule */
+export type RuleId =
+  | 'LIST_LENGTH'
+  | 'HIERARCHY'
+  | 'LINE_LENGTH'
+  | 'SERIAL_POSITION'
+  | 'STRUCTURE'
+  | 'FIRST_WORDS'
+  | 'FORMATTING'
+  | 'ONE_IDEA'
+  | 'LENGTH_UNIFORMITY'
+  | 'CONCISENESS'
+  | 'READABILITY';
+
+/**
+ * Tunable thresholds for each built-in rule (names match constants.ts)
+ */
+export interface RuleThresholds {
+  LIST_LENGTH: { MIN_ITEMS: number; OPTIMAL_ITEMS: number; MAX_ITEMS: number; HARD_MAX_ITEMS: number };
+  HIERARCHY: { MAX_DEPTH: number; HARD_MAX_DEPTH: number };
+  LINE_LENGTH: {
+    MIN_CHARS: number;
+    OPTIMAL_MIN_CHARS: number;
+    OPTIMAL_CHARS: number;
+    OPTIMAL_MAX_CHARS: number;
+    HARD_MAX_CHARS: number;
+  };
+  SERIAL_POSITION: { PRIMACY_ZONE: number; RECENCY_ZONE: number };
+  STRUCTURE: Record<string, never>;
+  FIRST_WORDS: { CRITICAL_WORD_COUNT: number };
+  FORMATTING: Record<string, never>;
+  ONE_IDEA: { MAX_IDEAS: number };
+  LENGTH_UNIFORMITY: { MAX_SPREAD_PERCENT: number; OUTLIER_PERCENT: number };
+  CONCISENESS: { MAX_WORDS_PER_IDEA: number };
+  READABILITY: {
+    LOW_LITERACY_GRADE: number;
+    GENERAL_GRADE: number;
+    EXPERT_GRADE: number;
+    ITEM_GRADE_MARGIN: number;
+    LONG_WORD_CHARS: number;
+  };
+}
+
+/**
+ * Per-rule overrides from a project config file
+ */
+export interface RuleOverride {
+  /** Set false to skip the rule entirely */
+  enabled?: boolean;
+  /** Point weight of the rule (scores are renormalized) */
+  points?: number;
+  /** Force every issue of the rule to this severity */
+  severity?: Severity;
+  /** Threshold overrides, keyed by constant name */
+  thresholds?: Record<string, number>;
+}
+
+/** Rule overrides keyed by rule identifier (built-in or custom) */
+export type RulesConfig = Record<string, RuleOverride>;
+
+/** Threshold values keyed by constant name */
+export type Thresholds = Record<string, number>;
+
+/**
+ * Fully resolved settings for a single rule
+ */
+export interface ResolvedRule<T extends Thresholds = Thresholds> {
+  enabled: boolean;
+  points: number;
+  severity?: Severity;
+  thresholds: T;
+}
+
+/** Resolved settings for every registered rule */
+export type ResolvedRules = Record<string, ResolvedRule>;
+
+/**
+ * Context passed to a rule's validate function
+ */
+export interface RuleContext<T extends Thresholds = Thresholds> {
+  /** Rule thresholds with config overrides applied */
+  thresholds: T;
+  /** Usage context of the list being validated */
+  context: Context;
+  /** Intended readers of the list */
+  audience: Audience;
+  /** Language of the list */
+  language: Language;
+  /** Path of the item whose sub-list is being validated (child lists only) */
+  parentPath?: number[];
+}
+
+/**
+ * A validation rule, built in or loaded from a custom rule module
+ */
+export interface Rule<T extends Thresholds = Thresholds> {
+  /** Unique identifier, used in scores, issues and the rules config */
+  id: string;
+  /** Default point weight */
+  points: number;
+  /** Basis for the rule, attached to issues as research_basis */
+  citation: string;
+  /** What the rule checks, shown on its reference page */
+  description?: string;
+  /** Default thresholds, overridable under rules.<id>.thresholds */
+  thresholds?: T;
+  /** Also score every child list as a list of its own, folding its results into this rule's score */
+  childLists?: boolean;
+  /** Score a list; earned points are rescaled from max_points to the configured weight */
+  validate(items: BulletItem[], ctx: RuleContext<T>): RuleScore;
+}
+
 /**
  * Complete configuration for the bullet server
  */
 export interface BulletConfig {
   validation: ValidationConfig;
   display: DisplayConfig;
+  /** Per-rule overrides (defaults from constants.ts when omitted) */
+  rules?: RulesConfig;
+  /** Absolute paths of custom rule modules */
+  customRules?: string[];
 }
@@ -0,0 +1,139 @@
+/**
+ * Shared helpers for bullet-mcp rules and analysis
+ */
+
+import type { BulletItem, LengthSpread } from './types.js';
+
+/**
+ * Get the most common element in an array
+ * Returns undefined for empty arrays (caller must handle)
+ */
+export function getMostCommon<T>(arr: T[]): T | undefined {
+  if (arr.length === 0) {
+    return undefined;
+  }
+
+  const counts = new Map<T, number>();
+  arr.forEach((item) => {
+    counts.set(item, (counts.get(item) || 0) + 1);
+  });
+
+  let maxCount = 0;
+  let mostCommon = arr[0];
+  counts.forEach((count, item) => {
+    if (count > maxCount) {
+      maxCount = count;
+      mostCommon = item;
+    }
+  });
+
+  return mostCommon;
+}
+
+/**
+ * Calculate maximum nesting depth
+ */
+export function calculateMaxDepth(items: BulletItem[], currentDepth = 1): number {
+  let max = currentDepth;
+  for (const item of items) {
+    if (item.children && item.children.length > 0) {
+      max = Math.max(max, calculateMaxDepth(item.children, currentDepth + 1));
+    }
+  }
+  return max;
+}
+
+/**
+ * Texts of a list and all its sub-lists, parents before their children
+ */
+export function flattenTexts(items: BulletItem[]): string[] {
+  return items.flatMap((item) => [item.text, ...flattenTexts(item.children ?? [])]);
+}
+
+/**
+ * Visit every item of a list and its sub-lists, parents before their children
+ * Each item comes with its path from the list root, e.g. [2, 0] for the first child of the third item
+ */
+export function walkItems(
+  items: BulletItem[],
+  visit: (item: BulletItem, path: number[]) => void,
+  parentPath: number[] = []
+): void {
+  items.forEach((item, index) => {
+    const path = [...parentPath, index];
+    visit(item, path);
+    walkItems(item.children ?? [], visit, path);
+  });
+}
+
+/**
+ * Find the item an issue's path refers to
+ */
+export function itemAt(items: BulletItem[], path: readonly number[]): BulletItem | undefined {
+  let item: BulletItem | undefined;
+  let list: BulletItem[] | undefined = items;
+  for (const index of path) {
+    item = list?.[index];
+    if (!item) return undefined;
+    list = item.children;
+  }
+  return item;
+}
+
+/**
+ * Label an item path for messages: "3" for a top-level item, "3.1.2" for nested ones
+ */
+export function itemLabel(path: readonly number[]): string {
+  return path.map((index) => index + 1).join('.');
+}
+
+/**
+ * Shorten item text for messages
+ */
+export function shorten(text: string): string {
+  return text.length > 40 ? text.substring(0, 40) + '...' : text;
+}
+
+/**
+ * Spread of a set of lengths around their average
+ */
+export function lengthSpread(lengths: number[]): LengthSpread {
+  if (lengths.length === 0) {
+    return { min: 0, max: 0, variance: 0, std_dev: 0, spread_percent: 0 };
+  }
+
+  const mean = lengths.reduce((sum, length) => sum + length, 0) / lengths.length;
+  const variance = lengths.reduce((sum, length) => sum + (length - mean) ** 2, 0) / lengths.length;
+  const stdDev = Math.sqrt(variance);
+  const round1 = (value: number) => Math.round(value * 10) / 10;
+
+  return {
+    min: Math.min(...lengths),
+    max: Math.max(...lengths),
+    variance: round1(variance),
+    std_dev: round1(stdDev),
+    spread_percent: mean > 0 ? Math.round((stdDev / mean) * 100) : 0,
+  };
+}
+
+/** Ending punctuation style of an item, as compared by the FORMATTING rule */
+export type EndingStyle = 'sentence' | 'colon' | 'none';
+
+/**
+ * Classify how an item ends
+ */
+export function getEndingStyle(text: string): EndingStyle {
+  const trimmed = text.trim();
+  const lastChar = trimmed[trimmed.length - 1];
+  if (['.', '!', '?'].includes(lastChar)) return 'sentence';
+  if (lastChar === ':') return 'colon';
+  return 'none';
+}
+
+/**
+ * Classify the case of an item's first character
+ */
+export function getCapitalization(text: string): 'upper' | 'lower' {
+  const firstChar = text.trim()[0];
+  return firstChar === firstChar.toUpperCase() ? 'upper' : 'lower';
+}
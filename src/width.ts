@@ -0,0 +1,114 @@
+/**
+ * Display width measurement for bullet-mcp
+ * Measures items as readers see them: inline Markdown and HTML stripped,
+ * combined characters counted once and East Asian wide characters as two columns
+ */
+
+import { decodeEntities } from './html.js';
+
+/**
+ * Code spans, whose content displays verbatim: "`npm test`"
+ */
+const CODE_SPAN = /(`+)(.+?)\1/g;
+
+/**
+ * Inline markup outside code spans and the text it displays as, applied in order
+ */
+const INLINE_MARKUP: Array<[RegExp, string]> = [
+  // Images and links: "![alt](src)", "[text](https://...)", "[text][ref]"
+  [/!?\[([^\]]*)\]\([^)]*\)/g, '$1'],
+  [/!?\[([^\]]*)\]\[[^\]]*\]/g, '$1'],
+  // Autolinks: "<https://example.com>"
+  [/<((?:https?|mailto|ftp):[^>\s]+)>/gi, '$1'],
+  // HTML tags: "<b>", "</a>", "<br/>"
+  [/<\/?[a-z][a-z0-9-]*(?:\s[^<>]*)?\/?>/gi, ''],
+  // Bold, italics and strikethrough; underscores only outside words ("snake_case_name" stays)
+  [/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2'],
+  [/\*(?=\S)(.+?)(?<=\S)\*/g, '$1'],
+  [/(?<![\p{L}\p{N}])_(?=\S)(.+?)(?<=\S)_(?![\p{L}\p{N}])/gu, '$1'],
+  [/~~(?=\S)(.+?)(?<=\S)~~/g, '$1'],
+];
+
+/**
+ * Backslash escapes ("\*"), parked in the Private Use Area while markup is stripped
+ */
+const ESCAPE = /\\([\\`*_{}[\]()#+\-.!~|<>])/g;
+const PARKED = /[\uE000-\uE07F]/g;
+
+/**
+ * Splits text into user-perceived characters: flags, emoji sequences, letters with their marks
+ */
+const SEGMENTER = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Code point ranges that display two columns wide (Unicode East Asian Width W and F)
+ */
+const WIDE_RANGES: Array<[number, number]> = [
+  [0x1100, 0x115f], // Hangul Jamo initials
+  [0x231a, 0x231b], // watch, hourglass
+  [0x2e80, 0x303e], // CJK radicals, Kangxi, CJK symbols and punctuation
+  [0x3041, 0x33ff], // Hiragana, Katakana, Bopomofo, CJK compatibility
+  [0x3400, 0x4dbf], // CJK extension A
+  [0x4e00, 0x9fff], // CJK unified ideographs
+  [0xa000, 0xa4cf], // Yi
+  [0xac00, 0xd7a3], // Hangul syllables
+  [0xf900, 0xfaff], // CJK compatibility ideographs
+  [0xfe30, 0xfe4f], // CJK compatibility forms
+  [0xff00, 0xff60], // Fullwidth forms
+  [0xffe0, 0xffe6], // Fullwidth signs
+  [0x1f300, 0x1f64f], // Pictographs and emoticons
+  [0x1f680, 0x1f6ff], // Transport and map symbols
+  [0x1f900, 0x1f9ff], // Supplemental symbols and pictographs
+  [0x1fa70, 0x1faff], // Symbols and pictographs extended-A
+  [0x20000, 0x3fffd], // CJK extensions B and beyond
+];
+
+const isWide = (codePoint: number) => WIDE_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end);
+
+/**
+ * Characters that take no column: controls and zero-width spaces and joiners
+ */
+const ZERO_WIDTH = /^[\p{Cc}\u200B-\u200F\u2060\uFEFF]/u;
+
+/**
+ * Text of an item as rendered, without inline Markdown, HTML tags or character references
+ */
+export function stripInlineMarkup(text: string): string {
+  // Splitting on the code span pattern yields text, backticks and code content in turn
+  return text
+    .split(CODE_SPAN)
+    .map((part, index) => {
+      if (index % 3 === 1) return '';
+      if (index % 3 === 2) return part;
+      const parked = part.replace(ESCAPE, (_, char: string) => String.fromCharCode(0xe000 + char.charCodeAt(0)));
+      const stripped = INLINE_MARKUP.reduce((result, [pattern, markup]) => result.replace(pattern, markup), parked);
+      return decodeEntities(stripped.replace(PARKED, (char) => String.fromCharCode(char.charCodeAt(0) - 0xe000)));
+    })
+    .join('');
+}
+
+/**
+ * Split text into user-perceived characters
+ */
+export function graphemes(text: string): string[] {
+  return Array.from(SEGMENTER.segment(text), ({ segment }) => segment);
+}
+
+/**
+ * Columns a text takes on screen
+ * Wide characters and emoji shown as emoji (with U+FE0F) count two, the rest one
+ */
+export function displayWidth(text: string): number {
+  return graphemes(text).reduce((width, cluster) => {
+    if (ZERO_WIDTH.test(cluster) || /^\p{M}/u.test(cluster)) return width;
+    const emoji = cluster.includes('\uFE0F') || /\p{Regional_Indicator}/u.test(cluster);
+    return width + (emoji || isWide(cluster.codePointAt(0)!) ? 2 : 1);
+  }, 0);
+}
+
+/**
+ * Visible length of an item: display width of its text with markup stripped
+ */
+export function visibleLength(text: string): number {
+  return displayWidth(stripInlineMarkup(text));
+}
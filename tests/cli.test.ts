@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli, expandPaths, EXIT_CODES } from '../src/cli.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import type { BulletConfig } from '../src/types.js';
+
+const config: BulletConfig = {
+  validation: { ...DEFAULT_CONFIG.validation },
+  display: { colorOutput: false },
+};
+
+const GOOD_LIST = [
+  '## Setup',
+  '',
+  '- Use consistent grammar throughout the whole list',
+  '- Create parallel structure for better scanning',
+  '- Maintain readability with similar text forms',
+].join('\n');
+
+const LONG_LIST = Array.from(
+  { length: 12 },
+  (_, i) => `- Item ${i + 1} with enough text to be valid length`
+).join('\n');
+
+describe('CLI', () => {
+  let dir: string;
+  let output: string;
+  const write = (text: string) => {
+    output += text;
+  };
+  const run = (...argv: string[]) => runCli(argv, config, write, dir);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bullet-cli-'));
+    output = '';
+    mkdirSync(join(dir, 'docs', 'nested'), { recursive: true });
+    writeFileSync(join(dir, 'docs', 'good.md'), GOOD_LIST);
+    writeFileSync(join(dir, 'docs', 'nested', 'long.md'), LONG_LIST);
+    writeFileSync(join(dir, 'docs', 'notes.txt'), LONG_LIST);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('expandPaths', () => {
+    it('should expand ** globs', () => {
+      const files = expandPaths(['docs/**/*.md'], dir);
+      expect(files).toEqual([join(dir, 'docs', 'good.md'), join(dir, 'docs', 'nested', 'long.md')]);
+    });
+
+    it('should expand single-level globs', () => {
+      expect(expandPaths(['docs/*.md'], dir)).toEqual([join(dir, 'docs', 'good.md')]);
+    });
+
+    it('should find Markdown files in directories', () => {
+      expect(expandPaths(['docs'], dir)).toHaveLength(2);
+    });
+
+    it('should throw for missing files and empty globs', () => {
+      expect(() => expandPaths(['missing.md'], dir)).toThrow('No such file');
+      expect(() => expandPaths(['docs/**/*.html'], dir)).toThrow('No files matching');
+    });
+  });
+
+  describe('check', () => {
+    it('should pass for well-formed lists', async () => {
+      expect(await run('docs/good.md')).toBe(EXIT_CODES.OK);
+      expect(output).toContain('docs/good.md');
+      expect(output).toContain('All lists passed');
+    });
+
+    it('should fail when a list has errors', async () => {
+      expect(await run('docs/**/*.md')).toBe(EXIT_CODES.FAILED);
+      expect(output).toContain('LIST_LENGTH');
+      expect(output).toContain('1 list(s) failed');
+    });
+
+    it('should fail when a list scores below --min-score', async () => {
+      writeFileSync(join(dir, 'short.md'), '- Short text here\n- Another short one\n- Third short item');
+      expect(await run('short.md', '--min-score', '90')).toBe(EXIT_CODES.OK);
+      expect(await run('short.md', '--min-score', '100')).toBe(EXIT_CODES.FAILED);
+      expect(output).toContain('min score 100');
+    });
+
+    it('should print JSON with --format json', async () => {
+      expect(await run('docs/good.md', '--format', 'json')).toBe(EXIT_CODES.OK);
+      const result = JSON.parse(output);
+      expect(result.passed).toBe(true);
+      expect(result.files[0].path).toBe(join('docs', 'good.md'));
+      expect(result.files[0].analysis.list_count).toBe(1);
+    });
+
+    it('should give the same verdict as the bullet_scan tool', async () => {
+      const { BulletServer } = await import('../src/server.js');
+      const scan = await new BulletServer(config).scan({ document: LONG_LIST });
+      await run('docs/nested/long.md', '--format', 'json');
+      expect(JSON.parse(output).files[0].analysis).toEqual(JSON.parse(scan.content[0].text));
+    });
+
+    it('should treat warnings as errors in strict mode', async () => {
+      writeFileSync(join(dir, 'eight.md'), LONG_LIST.split('\n').slice(0, 8).join('\n'));
+      expect(await run('eight.md')).toBe(EXIT_CODES.OK);
+
+      const strict = { ...config, validation: { ...config.validation, strictMode: true } };
+      expect(await runCli(['eight.md'], strict, write, dir)).toBe(EXIT_CODES.FAILED);
+    });
+
+    it('should run custom rules from the config', async () => {
+      writeFileSync(
+        join(dir, 'no-setup.mjs'),
+        `export default {
+  id: 'NO_SETUP',
+  points: 10,
+  citation: 'Team style guide',
+  validate: (items) => ({
+    rule: 'NO_SETUP',
+    max_points: 10,
+    earned_points: 0,
+    issues: [{ rule: 'NO_SETUP', severity: 'error', message: 'Setup lists are banned' }],
+  }),
+};`
+      );
+      const custom = { ...config, customRules: [join(dir, 'no-setup.mjs')] };
+      expect(await runCli(['docs/good.md'], custom, write, dir)).toBe(EXIT_CODES.FAILED);
+      expect(output).toContain('Setup lists are banned');
+
+      output = '';
+      const broken = { ...config, customRules: [join(dir, 'missing.mjs')] };
+      expect(await runCli(['docs/good.md'], broken, write, dir)).toBe(EXIT_CODES.USAGE);
+      expect(output).toContain('Could not load custom rule module');
+    });
+  });
+
+  describe('usage errors', () => {
+    it('should show help', async () => {
+      expect(await run('--help')).toBe(EXIT_CODES.OK);
+      expect(output).toContain('Usage: bullet-mcp check');
+    });
+
+    it('should reject missing files argument', async () => {
+      expect(await run()).toBe(EXIT_CODES.USAGE);
+    });
+
+    it('should reject invalid options', async () => {
+      expect(await run('docs', '--format', 'xml')).toBe(EXIT_CODES.USAGE);
+      expect(await run('docs', '--min-score', 'high')).toBe(EXIT_CODES.USAGE);
+      expect(await run('docs', '--context', 'slides')).toBe(EXIT_CODES.USAGE);
+      expect(await run('docs', '--unknown')).toBe(EXIT_CODES.USAGE);
+    });
+
+    it('should report missing files', async () => {
+      expect(await run('missing.md')).toBe(EXIT_CODES.USAGE);
+      expect(output).toContain('No such file');
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { countWords, findWordiness, tighten } from '../src/concise.js';
+
+describe('Wordiness Detection', () => {
+  describe('findWordiness', () => {
+    it('should find nothing in tight wording', () => {
+      expect(findWordiness('Cache responses for frequently requested pages')).toEqual([]);
+      expect(findWordiness('Review every pull request before merging')).toEqual([]);
+    });
+
+    it('should find filler phrases with their rewrites', () => {
+      const found = findWordiness('Basically, batch writes in order to cut latency');
+      expect(found.map(({ kind, phrase, rewrite }) => ({ kind, phrase, rewrite }))).toEqual([
+        { kind: 'filler', phrase: 'Basically', rewrite: '' },
+        { kind: 'filler', phrase: 'in order to', rewrite: 'to' },
+      ]);
+    });
+
+    it('should prefer the longest filler phrase', () => {
+      const [found] = findWordiness('It is important to note that builds are cached');
+      expect(found.phrase).toBe('It is important to note that');
+    });
+
+    it('should find redundant pairs', () => {
+      const [found] = findWordiness('Log each and every failed request');
+      expect(found).toMatchObject({ kind: 'redundancy', phrase: 'each and every', rewrite: 'each' });
+    });
+
+    it('should find nominalizations behind light verbs', () => {
+      const [found] = findWordiness('Perform an analysis of the slow queries');
+      expect(found).toMatchObject({ kind: 'nominalization', phrase: 'Perform an analysis of', rewrite: 'analyze' });
+      expect(findWordiness('Team made a decision on pricing')[0].rewrite).toBe('decide');
+    });
+  });
+
+  describe('tighten', () => {
+    it('should apply every rewrite and keep the capital letter', () => {
+      expect(tighten('Basically, batch writes in order to cut latency')).toBe('Batch writes to cut latency');
+      expect(tighten('Perform an analysis of the slow queries')).toBe('Analyze the slow queries');
+    });
+
+    it('should leave tight wording alone', () => {
+      expect(tighten('Cache responses for frequently requested pages')).toBe(
+        'Cache responses for frequently requested pages'
+      );
+    });
+  });
+
+  describe('countWords', () => {
+    it('should ignore stray punctuation', () => {
+      expect(countWords('Ship weekly - then measure')).toBe(4);
+    });
+  });
+});
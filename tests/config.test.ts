@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { loadConfig, DEFAULT_CONFIG } from '../src/config.js';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig, DEFAULT_CONFIG, resolveRules, validateConfigFile } from '../src/config.js';
+import { BUILT_IN_RULES } from '../src/rules.js';
+import type { Rule } from '../src/types.js';
 
 describe('Configuration', () => {
   const originalEnv = process.env;
@@ -81,4 +86,187 @@ describe('Configuration', () => {
       expect(config.display.colorOutput).toBe(false);
     });
   });
+
+  describe('Config File', () => {
+    let dir: string;
+
+    const writeConfig = (name: string, content: unknown) =>
+      writeFileSync(join(dir, name), typeof content === 'string' ? content : JSON.stringify(content));
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'bullet-config-'));
+      delete process.env.BULLET_CONFIG;
+      delete process.env.BULLET_STRICT_MODE;
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load .bulletrc.json from the working directory', () => {
+      writeConfig('.bulletrc.json', {
+        validation: { strictMode: true },
+        rules: { LINE_LENGTH: { thresholds: { OPTIMAL_MAX_CHARS: 85, HARD_MAX_CHARS: 90 } } },
+      });
+
+      const config = loadConfig(dir);
+
+      expect(config.validation.strictMode).toBe(true);
+      expect(config.validation.enableResearchCitations).toBe(true);
+      expect(config.rules!.LINE_LENGTH!.thresholds).toEqual({ OPTIMAL_MAX_CHARS: 85, HARD_MAX_CHARS: 90 });
+    });
+
+    it('should find bullet.config.json in a parent directory', () => {
+      writeConfig('bullet.config.json', { rules: { FORMATTING: false } });
+      const nested = join(dir, 'docs', 'guide');
+      mkdirSync(nested, { recursive: true });
+
+      expect(loadConfig(nested).rules!.FORMATTING).toEqual({ enabled: false });
+    });
+
+    it('should prefer the file named by BULLET_CONFIG', () => {
+      writeConfig('.bulletrc.json', { rules: { FORMATTING: false } });
+      writeConfig('team.json', { rules: { STRUCTURE: { points: 40 } } });
+      process.env.BULLET_CONFIG = 'team.json';
+
+      const config = loadConfig(dir);
+
+      expect(config.rules).toEqual({ STRUCTURE: { points: 40 } });
+    });
+
+    it('should throw when BULLET_CONFIG points to a missing file', () => {
+      process.env.BULLET_CONFIG = 'missing.json';
+      expect(() => loadConfig(dir)).toThrow('Config file not found');
+    });
+
+    it('should let env vars override the config file', () => {
+      writeConfig('.bulletrc.json', { validation: { strictMode: false } });
+      process.env.BULLET_STRICT_MODE = 'true';
+
+      expect(loadConfig(dir).validation.strictMode).toBe(true);
+    });
+
+    it('should resolve customRules relative to the config file', () => {
+      writeConfig('.bulletrc.json', { customRules: ['./rules/banned-terms.mjs'] });
+      const nested = join(dir, 'docs');
+      mkdirSync(nested);
+
+      expect(loadConfig(nested).customRules).toEqual([join(dir, 'rules', 'banned-terms.mjs')]);
+    });
+
+    it('should report invalid JSON with the file path', () => {
+      writeConfig('.bulletrc.json', '{ not json');
+      expect(() => loadConfig(dir)).toThrow(/Could not read config .*\.bulletrc\.json/);
+    });
+  });
+
+  describe('validateConfigFile', () => {
+    it('should list every problem', () => {
+      let message = '';
+      try {
+        validateConfigFile(
+          {
+            colours: true,
+            validation: { strictMode: 'yes' },
+            rules: {
+              LINE_LENGHT: {},
+              STRUCTURE: { points: -5, severity: 'fatal' },
+              LIST_LENGTH: { thresholds: { MAX_ITEMS: 6.5, FEWEST: 2 } },
+              FORMATTING: { thresholds: { ANY: 1 } },
+            },
+          },
+          'test.json'
+        );
+      } catch (error) {
+        message = (error as Error).message;
+      }
+
+      expect(message).toContain('Invalid config in test.json');
+      expect(message).toContain('colours is not a known option');
+      expect(message).toContain('validation.strictMode must be true or false');
+      expect(message).toContain('rules.LINE_LENGHT is not a known option');
+      expect(message).toContain('rules.STRUCTURE.points must be a number >= 0');
+      expect(message).toContain('rules.STRUCTURE.severity must be one of');
+      expect(message).toContain('rules.LIST_LENGTH.thresholds.MAX_ITEMS must be a whole number');
+      expect(message).toContain('rules.LIST_LENGTH.thresholds.FEWEST is not a known option');
+      expect(message).toContain('rules.FORMATTING has no configurable thresholds');
+    });
+
+    it('should accept custom rule overrides when customRules is set', () => {
+      const config = validateConfigFile(
+        {
+          customRules: ['./banned-terms.mjs'],
+          rules: { BANNED_TERMS: { points: 5, thresholds: { MAX_HITS: 2 } } },
+        },
+        'test.json'
+      );
+      expect(config.rules!.BANNED_TERMS).toEqual({ points: 5, thresholds: { MAX_HITS: 2 } });
+    });
+
+    it('should reject customRules that are not module paths', () => {
+      expect(() => validateConfigFile({ customRules: './rules.mjs' }, 'test.json')).toThrow(
+        'customRules must be an array of module paths'
+      );
+      expect(() => validateConfigFile({ customRules: [''] }, 'test.json')).toThrow(
+        'customRules must be an array of module paths'
+      );
+    });
+
+    it('should reject out-of-order thresholds', () => {
+      expect(() =>
+        validateConfigFile({ rules: { LINE_LENGTH: { thresholds: { HARD_MAX_CHARS: 70 } } } }, 'test.json')
+      ).toThrow('OPTIMAL_MAX_CHARS <= HARD_MAX_CHARS');
+    });
+
+    it('should reject configs that disable every rule', () => {
+      const rules = Object.fromEntries(
+        [
+          'LIST_LENGTH',
+          'HIERARCHY',
+          'LINE_LENGTH',
+          'SERIAL_POSITION',
+          'STRUCTURE',
+          'FIRST_WORDS',
+          'FORMATTING',
+          'ONE_IDEA',
+          'LENGTH_UNIFORMITY',
+          'CONCISENESS',
+          'READABILITY',
+        ].map((id) => [id, false])
+      );
+      expect(() => validateConfigFile({ rules }, 'test.json')).toThrow('At least one rule');
+    });
+  });
+
+  describe('resolveRules', () => {
+    it('should merge overrides over defaults', () => {
+      const rules = resolveRules({ LINE_LENGTH: { points: 5, thresholds: { HARD_MAX_CHARS: 90 } } });
+
+      expect(rules.LINE_LENGTH.points).toBe(5);
+      expect(rules.LINE_LENGTH.thresholds.HARD_MAX_CHARS).toBe(90);
+      expect(rules.LINE_LENGTH.thresholds.OPTIMAL_CHARS).toBe(66);
+      expect(rules.STRUCTURE.points).toBe(20);
+    });
+
+    it('should resolve custom rules alongside the built-ins', () => {
+      const custom: Rule = {
+        id: 'BANNED_TERMS',
+        points: 10,
+        citation: '',
+        thresholds: { MAX_HITS: 0 },
+        validate: () => ({ rule: 'BANNED_TERMS', max_points: 10, earned_points: 10, issues: [] }),
+      };
+      const rules = resolveRules({ BANNED_TERMS: { thresholds: { MAX_HITS: 3 } } }, [...BUILT_IN_RULES, custom]);
+
+      expect(rules.BANNED_TERMS).toEqual({ enabled: true, points: 10, thresholds: { MAX_HITS: 3 } });
+      expect(rules.LIST_LENGTH.enabled).toBe(true);
+    });
+
+    it('should reject unknown rule ids and thresholds', () => {
+      expect(() => resolveRules({ BANNED_TERMS: {} })).toThrow('rules.BANNED_TERMS does not match');
+      expect(() => resolveRules({ HIERARCHY: { thresholds: { MAX_WIDTH: 3 } } })).toThrow(
+        'rules.HIERARCHY.thresholds.MAX_WIDTH is not a threshold of HIERARCHY'
+      );
+    });
+  });
 });
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { fixItems } from '../src/fix.js';
+import { SERIAL_POSITION } from '../src/constants.js';
+import type { BulletItem } from '../src/types.js';
+
+const ZONES = { PRIMACY_ZONE: SERIAL_POSITION.PRIMACY_ZONE, RECENCY_ZONE: SERIAL_POSITION.RECENCY_ZONE };
+
+const texts = (items: BulletItem[]) => items.map((item) => item.text);
+
+describe('Auto-fix', () => {
+  describe('Whitespace', () => {
+    it('should trim and collapse whitespace, children included', () => {
+      const { items, edits } = fixItems(
+        [{ text: '  Parent   item ', children: [{ text: 'Child\titem ' }] }, { text: 'Clean item' }],
+        ZONES
+      );
+      expect(items[0].text).toBe('Parent item');
+      expect(items[0].children![0].text).toBe('Child item');
+      expect(edits.map((e) => e.path)).toEqual([[0], [0, 0]]);
+      expect(edits[1].message).toBe('Trimmed whitespace in item 1.1');
+    });
+  });
+
+  describe('Punctuation', () => {
+    it('should add periods when most items end with one', () => {
+      const { items, edits } = fixItems(
+        [{ text: 'First sentence.' }, { text: 'Second sentence.' }, { text: 'Third sentence' }],
+        ZONES
+      );
+      expect(texts(items)).toEqual(['First sentence.', 'Second sentence.', 'Third sentence.']);
+      expect(edits).toHaveLength(1);
+      expect(edits[0]).toMatchObject({ fix: 'punctuation', rule: 'FORMATTING', path: [2] });
+    });
+
+    it('should remove periods but keep ellipses and questions', () => {
+      const { items } = fixItems(
+        [
+          { text: 'First fragment' },
+          { text: 'Second fragment' },
+          { text: 'Third fragment' },
+          { text: 'Fourth fragment' },
+          { text: 'Fifth fragment.' },
+          { text: 'Sixth fragment...' },
+          { text: 'Seventh fragment?' },
+        ],
+        ZONES
+      );
+      expect(texts(items).slice(4)).toEqual(['Fifth fragment', 'Sixth fragment...', 'Seventh fragment?']);
+    });
+  });
+
+  describe('Capitalization', () => {
+    it('should capitalize items to match the majority', () => {
+      const { items } = fixItems([{ text: 'Alpha item' }, { text: 'Beta item' }, { text: 'gamma item' }], ZONES);
+      expect(texts(items)).toEqual(['Alpha item', 'Beta item', 'Gamma item']);
+    });
+
+    it('should not lowercase acronyms or product names', () => {
+      const { items, edits } = fixItems(
+        [
+          { text: 'alpha item' },
+          { text: 'beta item' },
+          { text: 'gamma item' },
+          { text: 'epsilon item' },
+          { text: 'API item' },
+          { text: 'GitHub item' },
+          { text: 'Delta item' },
+        ],
+        ZONES
+      );
+      expect(texts(items).slice(4)).toEqual(['API item', 'GitHub item', 'delta item']);
+      expect(edits).toHaveLength(1);
+    });
+  });
+
+  describe('Child Lists', () => {
+    it('should match punctuation and capitalization within each child list', () => {
+      const children = [{ text: 'Set the region.' }, { text: 'set the zone.' }, { text: 'Set the size' }];
+      const { items, edits } = fixItems(
+        [{ text: 'Configure the cluster', children }, { text: 'Deploy the app' }, { text: 'Verify the logs' }],
+        ZONES
+      );
+      expect(texts(items[0].children!)).toEqual(['Set the region.', 'Set the zone.', 'Set the size.']);
+      expect(edits.map((e) => [e.fix, e.path])).toEqual([
+        ['punctuation', [0, 2]],
+        ['capitalization', [0, 1]],
+      ]);
+      expect(edits[0].message).toBe('Added a period to item 1.3 to match the other items');
+    });
+  });
+
+  describe('Serial Position', () => {
+    it('should swap high-importance items out of the recall valley', () => {
+      const { items, edits } = fixItems(
+        [
+          { text: 'One' },
+          { text: 'Two', importance: 'medium' },
+          { text: 'Three', importance: 'high' },
+          { text: 'Four' },
+          { text: 'Five', importance: 'low' },
+        ],
+        ZONES
+      );
+      // "Five" is the least important item in a key position
+      expect(texts(items)).toEqual(['One', 'Two', 'Five', 'Four', 'Three']);
+      expect(edits.map((e) => [e.path[0], e.to_index])).toEqual([
+        [2, 4],
+        [4, 2],
+      ]);
+    });
+
+    it('should leave lists without importance hints unchanged', () => {
+      const input = ['One', 'Two', 'Three', 'Four', 'Five'].map((text) => ({ text }));
+      const { items, edits } = fixItems(input, ZONES);
+      expect(texts(items)).toEqual(texts(input));
+      expect(edits).toHaveLength(0);
+    });
+
+    it('should keep high items in place when every key position is taken', () => {
+      const input: BulletItem[] = ['One', 'Two', 'Three', 'Four', 'Five'].map((text) => ({ text, importance: 'high' }));
+      const { edits } = fixItems(input, ZONES);
+      expect(edits).toHaveLength(0);
+    });
+  });
+
+  it('should not modify the input', () => {
+    const input = [{ text: ' padded ' }, { text: 'Second item.' }, { text: 'Third item.' }];
+    fixItems(input, ZONES);
+    expect(input[0].text).toBe(' padded ');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { detectGrammarPattern } from '../src/grammar.js';
+
+describe('Grammar Patterns', () => {
+  it('should detect imperatives, including qualified ones', () => {
+    expect(detectGrammarPattern('Configure retries for the client')).toBe('verb-imperative');
+    expect(detectGrammarPattern('Update docs when APIs change')).toBe('verb-imperative');
+    expect(detectGrammarPattern('Always validate input')).toBe('verb-imperative');
+    expect(detectGrammarPattern("Don't deploy on Fridays")).toBe('verb-imperative');
+  });
+
+  it('should read an opening noun followed by a determiner as a command', () => {
+    expect(detectGrammarPattern('Email the team')).toBe('verb-imperative');
+    expect(detectGrammarPattern('Ping the owner before merging')).toBe('verb-imperative');
+  });
+
+  it('should detect gerunds', () => {
+    expect(detectGrammarPattern('Reducing cold starts with snapshots')).toBe('verb-gerund');
+  });
+
+  it('should detect noun phrases', () => {
+    expect(detectGrammarPattern('Deployment settings for production')).toBe('noun-phrase');
+    expect(detectGrammarPattern('Fast startup times')).toBe('noun-phrase');
+    expect(detectGrammarPattern('The new dashboard')).toBe('noun-phrase');
+  });
+
+  it('should read a verb form after a comparative as a noun', () => {
+    expect(detectGrammarPattern('Faster builds with caching')).toBe('noun-phrase');
+    expect(detectGrammarPattern('Cleaner logs for debugging')).toBe('noun-phrase');
+  });
+
+  it('should detect adjective phrases', () => {
+    expect(detectGrammarPattern('Fast and reliable')).toBe('adjective-phrase');
+    expect(detectGrammarPattern('Compatible with Node 18')).toBe('adjective-phrase');
+    expect(detectGrammarPattern('Secure by default')).toBe('adjective-phrase');
+  });
+
+  it('should detect passive clauses with or without a subject', () => {
+    expect(detectGrammarPattern('Logs are rotated daily')).toBe('passive');
+    expect(detectGrammarPattern('Tokens can be revoked at any time')).toBe('passive');
+    expect(detectGrammarPattern('Stored in Redis for an hour')).toBe('passive');
+    expect(detectGrammarPattern('Fully tested on Node 18')).toBe('passive');
+  });
+
+  it('should detect full sentences', () => {
+    expect(detectGrammarPattern('Users can reset passwords')).toBe('sentence');
+    expect(detectGrammarPattern('The API returns JSON')).toBe('sentence');
+    expect(detectGrammarPattern('Caching reduces load')).toBe('sentence');
+    expect(detectGrammarPattern('Test coverage is low')).toBe('sentence');
+    expect(detectGrammarPattern('Clean install takes 2 minutes')).toBe('sentence');
+  });
+
+  it('should detect questions', () => {
+    expect(detectGrammarPattern('Why use bullets?')).toBe('question');
+    expect(detectGrammarPattern('How to configure SSL')).toBe('question');
+    expect(detectGrammarPattern('Is the cache warm')).toBe('question');
+  });
+
+  it('should return unknown for openings outside the classes', () => {
+    expect(detectGrammarPattern('')).toBe('unknown');
+    expect(detectGrammarPattern('Reduced latency by 40%')).toBe('unknown');
+  });
+});
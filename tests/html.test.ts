@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { decodeEntities, parseHtml, scanHtmlLists } from '../src/html.js';
+
+const DEFAULTS = {
+  title: 'Test Title',
+  description: 'Test description for the bullet list',
+  intro: 'Here are the items:',
+};
+
+describe('HTML Parsing', () => {
+  describe('Lists', () => {
+    it('should parse <ul> and <ol> items', () => {
+      const parsed = parseHtml('<ul><li>First</li><li>Second</li></ul><ol><li>Third</li></ol>', DEFAULTS);
+      expect(parsed.items!.map((i) => i.text)).toEqual(['First', 'Second', 'Third']);
+    });
+
+    it('should nest child lists under their <li>', () => {
+      const parsed = parseHtml(
+        '<ul><li>Parent<ul><li>Child<ol><li>Grandchild</li></ol></li></ul></li><li>Sibling</li></ul>',
+        DEFAULTS
+      );
+      expect(parsed.items).toHaveLength(2);
+      expect(parsed.items![0].text).toBe('Parent');
+      expect(parsed.items![0].children![0].text).toBe('Child');
+      expect(parsed.items![0].children![0].children![0].text).toBe('Grandchild');
+    });
+
+    it('should close <li> elements with omitted end tags', () => {
+      const parsed = parseHtml('<ul><li>First<li>Second<li>Third</ul>', DEFAULTS);
+      expect(parsed.items!.map((i) => i.text)).toEqual(['First', 'Second', 'Third']);
+    });
+
+    it('should reject empty <li> elements', () => {
+      expect(() => parseHtml('<ul><li>First</li><li> </li></ul>', DEFAULTS)).toThrow('empty <li>');
+    });
+
+    it('should promote the items of a nested list whose <li> has no text', () => {
+      const parsed = parseHtml('<ul><li><ul><li>First</li><li>Second</li></ul></li><li>Third</li></ul>', DEFAULTS);
+      expect(parsed.items!.map((i) => i.text)).toEqual(['First', 'Second', 'Third']);
+      expect(parsed.items!.every((i) => !i.children)).toBe(true);
+    });
+
+    it('should reject fragments without lists', () => {
+      expect(() => parseHtml('<p>Just prose</p>', DEFAULTS)).toThrow('no <ul> or <ol>');
+    });
+  });
+
+  describe('Inline Markup', () => {
+    it('should strip inline tags and collapse whitespace', () => {
+      const parsed = parseHtml(
+        '<ul><li>Use <strong>bold</strong>\n   and <a href="https://example.com/very/long/url">links</a></li></ul>',
+        DEFAULTS
+      );
+      expect(parsed.items![0].text).toBe('Use bold and links');
+    });
+
+    it('should decode character references', () => {
+      const parsed = parseHtml('<ul><li>Fast &amp; safe &#8211; &#x2014; &nbsp;done</li></ul>', DEFAULTS);
+      expect(parsed.items![0].text).toBe('Fast & safe – — done');
+    });
+
+    it('should replace out-of-range character references', () => {
+      expect(decodeEntities('Ship &#x110000; &#xD800; &#0; now')).toBe('Ship \uFFFD \uFFFD \uFFFD now');
+      expect(decodeEntities('&#x10FFFF;')).toBe('\u{10FFFF}');
+    });
+
+    it('should ignore comments, scripts and styles', () => {
+      const parsed = parseHtml(
+        '<style>li { color: red }</style><ul><!-- <li>Hidden</li> --><li>Shown<script>x()</script></li></ul>',
+        DEFAULTS
+      );
+      expect(parsed.items!.map((i) => i.text)).toEqual(['Shown']);
+    });
+  });
+
+  describe('Headings', () => {
+    it('should turn sibling headings into sections', () => {
+      const parsed = parseHtml(
+        '<h2>Setup</h2><p>Getting started.</p><p>Steps:</p><ul><li>Install</li></ul><h2><em>Usage</em></h2><ul><li>Run</li></ul>',
+        DEFAULTS
+      );
+      expect(parsed.sections!.map((s) => s.title)).toEqual(['Setup', 'Usage']);
+      expect(parsed.sections![0].description).toBe('Getting started.');
+      expect(parsed.sections![0].intro).toBe('Steps:');
+      expect(parsed.sections![1].intro).toBe(DEFAULTS.intro);
+    });
+
+    it('should keep headings inside items as item text', () => {
+      const lists = scanHtmlLists('<ul><li><h3>Heading</h3> text</li></ul>');
+      expect(lists[0].heading).toBeUndefined();
+      expect(lists[0].items[0].text).toBe('Heading text');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { findIdeaBreaks, ideaPreview } from '../src/ideas.js';
+
+const kinds = (text: string) => findIdeaBreaks(text).map((b) => b.kind);
+
+describe('Compound Bullet Detection', () => {
+  describe('findIdeaBreaks', () => {
+    it('should find nothing in a single idea', () => {
+      expect(findIdeaBreaks('Cache responses for frequently requested pages')).toEqual([]);
+      expect(findIdeaBreaks('Build and test the app on every commit')).toEqual([]);
+      expect(findIdeaBreaks('Compare salt and pepper shakers by price')).toEqual([]);
+    });
+
+    it('should split at sentence breaks but not abbreviations or decimals', () => {
+      expect(kinds('Deploy on Fridays. Monitor the error rate closely')).toEqual(['sentence']);
+      expect(kinds('Prefer small formats, e.g. JSON over XML payloads')).toEqual([]);
+      expect(kinds('Upgrade to version 3.5 before the next release')).toEqual([]);
+    });
+
+    it('should split at semicolons', () => {
+      const [semicolon] = findIdeaBreaks('Rotate keys monthly; audit access every quarter');
+      expect(semicolon).toMatchObject({ kind: 'semicolon', marker: ';' });
+    });
+
+    it('should split at conjunctions joining independent clauses', () => {
+      expect(findIdeaBreaks('Latency dropped by half, but the error rate is up')[0]).toMatchObject({
+        kind: 'conjunction',
+        marker: ', but',
+      });
+      expect(kinds('Ship weekly and we collect feedback sooner')).toEqual(['conjunction']);
+      expect(kinds('Cache reads, and log every write to disk')).toEqual(['conjunction']);
+    });
+
+    it('should split at "and also" chains without double counting the conjunction', () => {
+      const breaks = findIdeaBreaks('Review the logs daily and also we rotate the keys');
+      expect(breaks).toHaveLength(1);
+      expect(breaks[0]).toMatchObject({ kind: 'chain', marker: 'and also' });
+    });
+
+    it('should ignore markers without an idea on both sides', () => {
+      expect(findIdeaBreaks('Done; ship it')).toEqual([]);
+      expect(findIdeaBreaks('Measure the baseline first.')).toEqual([]);
+    });
+
+    it('should use the conjunctions and verbs of the list language', () => {
+      expect(findIdeaBreaks('Configurar el servidor, y el equipo puede revisar los registros', 'es')).toMatchObject([
+        { kind: 'conjunction', marker: ', y' },
+      ]);
+      expect(findIdeaBreaks('Den Server konfigurieren und wir prüfen die Logs', 'de')).toMatchObject([
+        { kind: 'conjunction', marker: 'und' },
+      ]);
+      expect(findIdeaBreaks('Installer le paquet, et mettre à jour les dépendances', 'fr')).toMatchObject([
+        { kind: 'conjunction', marker: ', et' },
+      ]);
+      expect(findIdeaBreaks('Instalar el paquete primero. Él configura el resto', 'es')).toMatchObject([
+        { kind: 'sentence' },
+      ]);
+    });
+
+    it('should not apply English conjunctions to other languages', () => {
+      expect(findIdeaBreaks('Revisar el código and then desplegar a producción', 'es')).toEqual([]);
+    });
+
+    it('should return breaks in text order', () => {
+      const text = 'Tag releases; write notes. The team reviews them, and it ships';
+      expect(kinds(text)).toEqual(['semicolon', 'sentence', 'conjunction']);
+    });
+  });
+
+  describe('ideaPreview', () => {
+    it('should quote the opening words of the next idea', () => {
+      const text = 'Rotate keys monthly; audit access every quarter';
+      const [semicolon] = findIdeaBreaks(text);
+      expect(ideaPreview(text, semicolon.offset)).toBe('audit access every quarter');
+      expect(ideaPreview(text, semicolon.offset, 2)).toBe('audit access...');
+    });
+  });
+});
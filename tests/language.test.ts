@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { detectGrammarPattern } from '../src/grammar.js';
+import { detectLanguage, languagePack } from '../src/language.js';
+
+describe('Language Support', () => {
+  describe('detectLanguage', () => {
+    it('should detect each supported language', () => {
+      expect(detectLanguage(['Configurar el servidor antes del despliegue', 'Usa HTTPS en producción'])).toBe('es');
+      expect(detectLanguage(['Verwenden Sie HTTPS in der Produktion', 'Tests regelmäßig ausführen'])).toBe('de');
+      expect(detectLanguage(['Configurez le serveur avant le déploiement', 'Les journaux sont archivés'])).toBe('fr');
+      expect(detectLanguage(['Use HTTPS in production', 'Rotate logs daily'])).toBe('en');
+    });
+
+    it('should fall back to English on weak evidence', () => {
+      expect(detectLanguage(['Café latte', 'Docker'])).toBe('en');
+      expect(detectLanguage([])).toBe('en');
+    });
+  });
+
+  it('should have no pattern pack for English', () => {
+    expect(languagePack('en')).toBeUndefined();
+    expect(languagePack('de')?.infinitiveLast).toBe(true);
+  });
+
+  describe('Spanish patterns', () => {
+    it('should tell infinitives from imperatives', () => {
+      expect(detectGrammarPattern('Configurar el servidor antes del despliegue', 'es')).toBe('verb-infinitive');
+      expect(detectGrammarPattern('Usa HTTPS en producción', 'es')).toBe('verb-imperative');
+      expect(detectGrammarPattern('No uses eval', 'es')).toBe('verb-imperative');
+    });
+
+    it('should detect informal imperatives by ending before an object', () => {
+      expect(detectGrammarPattern('Empieza cada elemento con un verbo fuerte', 'es')).toBe('verb-imperative');
+      expect(detectGrammarPattern('Cambia tu contraseña cada mes', 'es')).toBe('verb-imperative');
+      expect(detectGrammarPattern('Permite la exportación de datos', 'es')).toBe('noun-phrase');
+    });
+
+    it('should detect gerunds, passives, sentences and questions', () => {
+      expect(detectGrammarPattern('Instalando las dependencias', 'es')).toBe('verb-gerund');
+      expect(detectGrammarPattern('Los registros son rotados cada día', 'es')).toBe('passive');
+      expect(detectGrammarPattern('Se recomienda usar HTTPS', 'es')).toBe('passive');
+      expect(detectGrammarPattern('Probado en producción', 'es')).toBe('passive');
+      expect(detectGrammarPattern('El servidor funciona sin conexión', 'es')).toBe('sentence');
+      expect(detectGrammarPattern('¿Cómo funciona la caché?', 'es')).toBe('question');
+    });
+
+    it('should not take nouns and adjectives for verb forms', () => {
+      expect(detectGrammarPattern('Soporte para múltiples idiomas', 'es')).toBe('noun-phrase');
+      expect(detectGrammarPattern('Resultado de cada prueba', 'es')).toBe('noun-phrase');
+      expect(detectGrammarPattern('Rápido y ligero', 'es')).toBe('adjective-phrase');
+    });
+  });
+
+  describe('German patterns', () => {
+    it('should detect verb-final infinitives and polite imperatives', () => {
+      expect(detectGrammarPattern('Tests regelmäßig ausführen', 'de')).toBe('verb-infinitive');
+      expect(detectGrammarPattern('Verwenden Sie HTTPS in der Produktion', 'de')).toBe('verb-imperative');
+      expect(detectGrammarPattern('Prüfe die Eingaben', 'de')).toBe('verb-imperative');
+    });
+
+    it('should detect informal imperatives by ending before an object', () => {
+      expect(detectGrammarPattern('Beginne jeden Punkt mit einem starken Verb', 'de')).toBe('verb-imperative');
+      expect(detectGrammarPattern('Aktualisiere die Abhängigkeiten', 'de')).toBe('verb-imperative');
+      expect(detectGrammarPattern('Liste der offenen Aufgaben', 'de')).toBe('noun-phrase');
+    });
+
+    it('should find the verb in second position', () => {
+      expect(detectGrammarPattern('Der Server startet in zwei Sekunden', 'de')).toBe('sentence');
+      expect(detectGrammarPattern('Logs werden täglich rotiert', 'de')).toBe('passive');
+      expect(detectGrammarPattern('Getestet auf Linux und macOS', 'de')).toBe('passive');
+    });
+
+    it('should detect noun and adjective phrases and questions', () => {
+      expect(detectGrammarPattern('Schnelle Builds ohne Cache', 'de')).toBe('noun-phrase');
+      expect(detectGrammarPattern('Schnell und stabil', 'de')).toBe('adjective-phrase');
+      expect(detectGrammarPattern('Wie man SSL konfiguriert', 'de')).toBe('question');
+    });
+  });
+
+  describe('French patterns', () => {
+    it('should tell infinitives from imperatives', () => {
+      expect(detectGrammarPattern('Configurer le serveur avant le déploiement', 'fr')).toBe('verb-infinitive');
+      expect(detectGrammarPattern('Configurez le serveur avant le déploiement', 'fr')).toBe('verb-imperative');
+      expect(detectGrammarPattern("N'utilisez pas eval", 'fr')).toBe('verb-imperative');
+    });
+
+    it('should detect gerunds and passives', () => {
+      expect(detectGrammarPattern('En utilisant le cache local', 'fr')).toBe('verb-gerund');
+      expect(detectGrammarPattern('Les journaux sont archivés chaque jour', 'fr')).toBe('passive');
+      expect(detectGrammarPattern('Testé sur Linux', 'fr')).toBe('passive');
+    });
+
+    it('should not take nouns for verb forms', () => {
+      expect(detectGrammarPattern('Fichier de configuration unique', 'fr')).toBe('noun-phrase');
+      expect(detectGrammarPattern('Sécurité renforcée par défaut', 'fr')).toBe('noun-phrase');
+    });
+  });
+});
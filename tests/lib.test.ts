@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { analyzeBullets, scanDocument, BulletServer, DEFAULT_CONFIG, LIST_LENGTH } from '../src/lib.js';
+import type { BulletAnalysis, BulletConfig, RulesConfig } from '../src/lib.js';
+
+const INPUT = {
+  title: 'Test Title',
+  description: 'Test description for the bullet list',
+  intro: 'Here are the items:',
+  items: [
+    { text: 'Use consistent grammar throughout the list' },
+    { text: 'Create parallel structure for better scanning' },
+    { text: 'Maintain readability with similar text forms' },
+  ],
+};
+
+describe('Library API', () => {
+  it('should return a typed analysis', () => {
+    const analysis: BulletAnalysis = analyzeBullets(INPUT);
+    expect(analysis.title).toBe('Test Title');
+    expect(analysis.item_count).toBe(3);
+    expect(analysis.scores).toHaveLength(11);
+  });
+
+  it('should match the MCP tool output', async () => {
+    const result = await new BulletServer(DEFAULT_CONFIG).analyze(INPUT);
+    expect(analyzeBullets(INPUT)).toEqual(JSON.parse(result.content[0].text));
+  });
+
+  it('should apply the given config', () => {
+    const config: BulletConfig = {
+      validation: { strictMode: false, enableResearchCitations: false },
+      display: { colorOutput: false },
+    };
+    const analysis = analyzeBullets({ ...INPUT, items: [{ text: 'Too short' }] }, config);
+    expect(analysis.suggestions.length).toBeGreaterThan(0);
+    expect(analysis.scores.flatMap((s) => s.issues).every((i) => !i.research_basis)).toBe(true);
+  });
+
+  it('should apply rule overrides', () => {
+    const rules: RulesConfig = { LIST_LENGTH: { thresholds: { MIN_ITEMS: 1 } } };
+    const items = INPUT.items.slice(0, 2);
+    const analysis = analyzeBullets({ ...INPUT, items }, { ...DEFAULT_CONFIG, rules });
+    expect(analysis.scores.find((s) => s.rule === 'LIST_LENGTH')?.issues).toHaveLength(0);
+  });
+
+  it('should throw for malformed input', () => {
+    expect(() => analyzeBullets({ ...INPUT, items: [] })).toThrow('Items array cannot be empty');
+  });
+
+  it('should scan documents', () => {
+    const analysis = scanDocument('## Steps\n\n- One step\n- Two steps');
+    expect(analysis.list_count).toBe(1);
+    expect(analysis.lists[0].heading).toBe('Steps');
+  });
+
+  it('should export constants', () => {
+    expect(LIST_LENGTH.MAX_ITEMS).toBe(7);
+  });
+
+  it('should not write to stdio on import', async () => {
+    const error = vi.spyOn(console, 'error');
+    vi.resetModules();
+    await import('../src/lib.js');
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { parseMarkdown, scanMarkdownLists } from '../src/markdown.js';
+
+const DEFAULTS = {
+  title: 'Test Title',
+  description: 'Test description for the bullet list',
+  intro: 'Here are the items:',
+};
+
+describe('Markdown Parsing', () => {
+  describe('List Markers', () => {
+    it('should parse -, * and + bullets', () => {
+      const parsed = parseMarkdown('- First item\n* Second item\n+ Third item', DEFAULTS);
+      expect(parsed.items!.map((i) => i.text)).toEqual(['First item', 'Second item', 'Third item']);
+    });
+
+    it('should parse numbered lists', () => {
+      const parsed = parseMarkdown('1. First item\n2. Second item\n10) Tenth item', DEFAULTS);
+      expect(parsed.items!.map((i) => i.text)).toEqual(['First item', 'Second item', 'Tenth item']);
+    });
+
+    it('should append continuation lines to the previous item', () => {
+      const parsed = parseMarkdown('- First item that\n  wraps onto a second line\n- Second item', DEFAULTS);
+      expect(parsed.items![0].text).toBe('First item that wraps onto a second line');
+      expect(parsed.items).toHaveLength(2);
+    });
+
+    it('should not treat thematic breaks as items', () => {
+      const parsed = parseMarkdown('- First item\n\n---\n\n- Second item', DEFAULTS);
+      expect(parsed.items!.map((i) => i.text)).toEqual(['First item', 'Second item']);
+    });
+
+    it('should ignore list markers inside fenced code', () => {
+      const parsed = parseMarkdown('- Real item\n\n```\n- not an item\n```\n- Another real item', DEFAULTS);
+      expect(parsed.items!.map((i) => i.text)).toEqual(['Real item', 'Another real item']);
+    });
+  });
+
+  describe('Nesting', () => {
+    it('should nest items by indentation', () => {
+      const parsed = parseMarkdown(
+        '- Parent\n  - Child one\n  - Child two\n    - Grandchild\n- Sibling',
+        DEFAULTS
+      );
+      expect(parsed.items).toHaveLength(2);
+      expect(parsed.items![0].children!.map((c) => c.text)).toEqual(['Child one', 'Child two']);
+      expect(parsed.items![0].children![1].children![0].text).toBe('Grandchild');
+    });
+
+    it('should treat tabs as indentation', () => {
+      const parsed = parseMarkdown('- Parent\n\t- Child', DEFAULTS);
+      expect(parsed.items![0].children![0].text).toBe('Child');
+    });
+  });
+
+  describe('Headings', () => {
+    it('should turn headings into sections', () => {
+      const parsed = parseMarkdown(
+        '## Setup\n\n- Install the package\n- Configure the server\n\n## Usage\n\n- Run the tool',
+        DEFAULTS
+      );
+      expect(parsed.items).toBeUndefined();
+      expect(parsed.sections!.map((s) => s.title)).toEqual(['Setup', 'Usage']);
+      expect(parsed.sections![1].items[0].text).toBe('Run the tool');
+    });
+
+    it('should use paragraphs before a list as description and intro', () => {
+      const parsed = parseMarkdown(
+        '## Setup\n\nGetting the server running.\n\nSteps to follow:\n\n- Install the package',
+        DEFAULTS
+      );
+      expect(parsed.sections![0].description).toBe('Getting the server running.');
+      expect(parsed.sections![0].intro).toBe('Steps to follow:');
+    });
+
+    it('should fall back to defaults for missing section text', () => {
+      const parsed = parseMarkdown('- Orphan item\n\n## Named\n\n- Named item', DEFAULTS);
+      expect(parsed.sections![0].title).toBe(DEFAULTS.title);
+      expect(parsed.sections![1].description).toBe(DEFAULTS.description);
+      expect(parsed.sections![1].intro).toBe(DEFAULTS.intro);
+    });
+
+    it('should skip headings that own no list', () => {
+      const parsed = parseMarkdown('# Document\n\n## Section\n\n- Only item', DEFAULTS);
+      expect(parsed.sections!.map((s) => s.title)).toEqual(['Section']);
+    });
+  });
+
+  describe('Source Locations', () => {
+    it('should record line and column of each item', () => {
+      const parsed = parseMarkdown('Intro text\n\n- First\n  - Nested', DEFAULTS);
+      const first = parsed.items![0];
+      expect(parsed.locations.get(first)).toEqual({ line: 3, column: 3 });
+      expect(parsed.locations.get(first.children![0])).toEqual({ line: 4, column: 5 });
+    });
+
+    it('should report empty items with their position', () => {
+      expect(() => parseMarkdown('- First\n-\n- Third', DEFAULTS)).toThrow('line 2, column 1');
+    });
+
+    it('should reject sources without lists', () => {
+      expect(() => parseMarkdown('Just a paragraph.', DEFAULTS)).toThrow('no list items');
+    });
+  });
+
+  describe('scanMarkdownLists', () => {
+    it('should split lists separated by paragraphs', () => {
+      const lists = scanMarkdownLists('- One\n- Two\n\nSome prose.\n\n- Three');
+      expect(lists).toHaveLength(2);
+      expect(lists[1].paragraphs).toEqual(['Some prose.']);
+      expect(lists[1].location).toEqual({ line: 6, column: 3 });
+    });
+
+    it('should leave out empty items and record their positions', () => {
+      const emptyItems: Array<{ line: number; column: number }> = [];
+      const lists = scanMarkdownLists('- First\n-\n  - Nested\n- \n  Third\n\n-', new Map(), emptyItems);
+      expect(lists).toHaveLength(1);
+      expect(lists[0].items.map((i) => i.text)).toEqual(['First', 'Nested', 'Third']);
+      expect(emptyItems).toEqual([
+        { line: 2, column: 1 },
+        { line: 7, column: 1 },
+      ]);
+    });
+
+    it('should record the last line of each list', () => {
+      const lists = scanMarkdownLists('- One\n  continued\n- Two\n\nProse.');
+      expect(lists[0].endLine).toBe(3);
+    });
+
+    it('should skip YAML front matter', () => {
+      const lists = scanMarkdownLists('---\ntags:\n- draft\n---\n- Real item');
+      expect(lists).toHaveLength(1);
+      expect(lists[0].items.map((i) => i.text)).toEqual(['Real item']);
+    });
+
+    it('should skip tables and blockquotes', () => {
+      const lists = scanMarkdownLists('| - a | b |\n|---|---|\n\n> - quoted\n\n- Real item');
+      expect(lists).toHaveLength(1);
+      expect(lists[0].items[0].text).toBe('Real item');
+    });
+
+    it('should skip indented code blocks', () => {
+      const lists = scanMarkdownLists('Prose.\n\n    - code line\n\n- Real item');
+      expect(lists).toHaveLength(1);
+      expect(lists[0].items[0].text).toBe('Real item');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { expectedRecall, optimizeOrder, recallWeight } from '../src/order.js';
+import { SERIAL_POSITION } from '../src/constants.js';
+import type { BulletItem } from '../src/types.js';
+
+const ZONES = { PRIMACY_ZONE: SERIAL_POSITION.PRIMACY_ZONE, RECENCY_ZONE: SERIAL_POSITION.RECENCY_ZONE };
+
+const texts = (items: BulletItem[]) => items.map((item) => item.text);
+
+describe('Serial Position Optimizer', () => {
+  describe('recallWeight', () => {
+    it('should peak at both ends and dip in the middle', () => {
+      const weights = [0, 1, 2, 3, 4, 5, 6].map((position) => recallWeight(position, 7, ZONES));
+      expect(weights[0]).toBe(1);
+      expect(weights[6]).toBe(1);
+      expect(weights[3]).toBeLessThan(weights[1]);
+      expect(weights[3]).toBeLessThan(weights[5]);
+    });
+  });
+
+  describe('expectedRecall', () => {
+    it('should be higher when important items sit at the ends', () => {
+      const valley: BulletItem[] = [{ text: 'A' }, { text: 'B' }, { text: 'C', importance: 'high' }, { text: 'D' }, { text: 'E' }];
+      const edge: BulletItem[] = [valley[2], valley[0], valley[1], valley[3], valley[4]];
+      expect(expectedRecall(edge, ZONES)).toBeGreaterThan(expectedRecall(valley, ZONES));
+    });
+  });
+
+  describe('optimizeOrder', () => {
+    it('should fill the best-recalled positions by importance', () => {
+      const { items } = optimizeOrder(
+        [
+          { text: 'Low', importance: 'low' },
+          { text: 'High 1', importance: 'high' },
+          { text: 'Medium' },
+          { text: 'High 2', importance: 'high' },
+          { text: 'Medium 2', importance: 'medium' },
+        ],
+        ZONES
+      );
+      // The primacy zone is wider, so the second item is recalled better than the fourth
+      expect(texts(items)).toEqual(['High 1', 'Medium 2', 'Medium', 'Low', 'High 2']);
+    });
+
+    it('should leave lists without importance hints unchanged', () => {
+      const input = ['One', 'Two', 'Three', 'Four', 'Five'].map((text) => ({ text }));
+      const { items, moves } = optimizeOrder(input, ZONES);
+      expect(texts(items)).toEqual(texts(input));
+      expect(moves.every((move) => move.from_index === move.to_index)).toBe(true);
+    });
+
+    it('should keep locked items at their index', () => {
+      const { items, moves } = optimizeOrder(
+        [
+          { text: 'Locked', importance: 'low', locked: true },
+          { text: 'Two' },
+          { text: 'High', importance: 'high' },
+          { text: 'Four' },
+        ],
+        ZONES
+      );
+      expect(texts(items)).toEqual(['Locked', 'Two', 'Four', 'High']);
+      expect(moves[0]).toEqual({ text: 'Locked', importance: 'low', locked: true, from_index: 0, to_index: 0 });
+      expect(moves[3]).toMatchObject({ text: 'High', from_index: 2, to_index: 3 });
+    });
+
+    it('should not modify the input', () => {
+      const input: BulletItem[] = [{ text: 'A' }, { text: 'B' }, { text: 'C', importance: 'high' }, { text: 'D' }];
+      optimizeOrder(input, ZONES);
+      expect(texts(input)).toEqual(['A', 'B', 'C', 'D']);
+    });
+  });
+});
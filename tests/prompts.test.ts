@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { BulletServer } from '../src/server.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import { CONTEXT_THRESHOLDS, LINE_LENGTH, LIST_LENGTH } from '../src/constants.js';
+
+const promptText = (server: BulletServer, name: string, args: Record<string, string>) => {
+  const content = server.getPrompt(name, args).messages[0].content;
+  return content.type === 'text' ? content.text : '';
+};
+
+describe('Prompts', () => {
+  const server = new BulletServer(DEFAULT_CONFIG);
+  const SOURCE = 'Our quarterly results were strong across every region.';
+
+  it('should list the summarization prompts with their arguments', () => {
+    const prompts = server.listPrompts();
+    expect(prompts.map((p) => p.name)).toEqual(['summarize-as-bullets', 'sectioned-report', 'presentation-outline']);
+    expect(prompts[0].arguments!.map((a) => a.name)).toEqual(['source_text', 'context', 'audience']);
+    expect(prompts[0].arguments![0].required).toBe(true);
+  });
+
+  it('should embed the thresholds from the constants', () => {
+    const text = promptText(server, 'summarize-as-bullets', { source_text: SOURCE });
+    expect(text).toContain(`Use ${LIST_LENGTH.MIN_ITEMS}-${LIST_LENGTH.MAX_ITEMS} items (${LIST_LENGTH.OPTIMAL_ITEMS} is optimal)`);
+    expect(text).toContain(`${LINE_LENGTH.OPTIMAL_MIN_CHARS}-${LINE_LENGTH.OPTIMAL_MAX_CHARS} characters`);
+    expect(text).toContain('check the list with the "bullet" tool');
+    expect(text.endsWith(`"""\n${SOURCE}\n"""`)).toBe(true);
+  });
+
+  it('should use configured thresholds and skip disabled rules', () => {
+    const configured = new BulletServer({
+      ...DEFAULT_CONFIG,
+      rules: { LIST_LENGTH: { thresholds: { MAX_ITEMS: 6 } }, FORMATTING: { enabled: false } },
+    });
+    const text = promptText(configured, 'sectioned-report', { source_text: SOURCE });
+    expect(text).toContain(`Use ${LIST_LENGTH.MIN_ITEMS}-6 items`);
+    expect(text).not.toContain('ending punctuation');
+    expect(text).toContain('sections mode');
+  });
+
+  it('should apply the context and audience', () => {
+    const text = promptText(server, 'summarize-as-bullets', {
+      source_text: SOURCE,
+      context: 'reference',
+      audience: 'low-literacy',
+    });
+    expect(text).toMatch(/^Summarize the source text below as a bullet list for low-literacy readers, to be used in a reference\./);
+    expect(text).toContain('"context": "reference", "audience": "low-literacy"');
+    expect(text).toContain('Write at a reading grade of 5 or lower for low-literacy readers');
+  });
+
+  it('should default to the general audience in the tool call', () => {
+    const text = promptText(server, 'presentation-outline', { source_text: SOURCE });
+    expect(text).toMatch(/^Turn the source text below into a presentation outline, with/);
+    expect(text).toContain('"context": "slide", "audience": "general"');
+  });
+
+  it('should always use the slide context for outlines', () => {
+    const text = promptText(server, 'presentation-outline', { source_text: SOURCE, context: 'document' });
+    const { MIN_ITEMS, OPTIMAL_ITEMS } = CONTEXT_THRESHOLDS.slide.LIST_LENGTH;
+    expect(text).toContain('"context": "slide"');
+    expect(text).toContain(`Use ${MIN_ITEMS}-${OPTIMAL_ITEMS} items`);
+    expect(text).toContain('6x6 guideline');
+  });
+
+  it('should reject unknown prompts and invalid arguments', () => {
+    expect(() => server.getPrompt('haiku', { source_text: SOURCE })).toThrow('Unknown prompt: haiku');
+    expect(() => server.getPrompt('summarize-as-bullets', {})).toThrow('Missing required argument "source_text"');
+    expect(() => server.getPrompt('summarize-as-bullets', { source_text: SOURCE, context: 'poster' })).toThrow(
+      'context must be one of document, presentation, reference, email, chat, slide, changelog, executive-summary'
+    );
+    expect(() => server.getPrompt('summarize-as-bullets', { source_text: SOURCE, audience: 'executives' })).toThrow(
+      'audience must be one of general, low-literacy, expert'
+    );
+  });
+
+  it('should embed the thresholds and advice of the chosen context', () => {
+    const text = promptText(server, 'summarize-as-bullets', { source_text: SOURCE, context: 'executive-summary' });
+    expect(text).toContain('Use 3-5 items (3 is optimal), never more than 5.');
+    expect(text).toContain('lead with the conclusion or recommendation');
+    expect(text).toContain('"context": "executive-summary"');
+  });
+});
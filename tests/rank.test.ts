@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { rankCandidates, type RankEntry } from '../src/rank.js';
+import type { BulletAnalysis, RuleScore } from '../src/types.js';
+
+const score = (rule: string, earned: number): RuleScore => ({ rule, max_points: 20, earned_points: earned, issues: [] });
+
+const entry = (index: number, overrides: Partial<RankEntry> = {}, scores: RuleScore[] = []): RankEntry => ({
+  index,
+  title: `Draft ${index + 1}`,
+  overall_score: 90,
+  grade: 'A',
+  error_count: 0,
+  warning_count: 0,
+  item_count_distance: 0,
+  line_length_distance: 0,
+  analysis: { scores } as BulletAnalysis,
+  ...overrides,
+});
+
+describe('Candidate Ranking', () => {
+  it('should rank by overall score and name the rules behind the lead', () => {
+    const result = rankCandidates([
+      entry(0, { overall_score: 80 }, [score('LINE_LENGTH', 9), score('FIRST_WORDS', 10)]),
+      entry(1, { overall_score: 95 }, [score('LINE_LENGTH', 15), score('FIRST_WORDS', 10)]),
+      entry(2, { overall_score: 70 }),
+    ]);
+
+    expect(result.ranking.map((c) => [c.rank, c.index])).toEqual([
+      [1, 1],
+      [2, 0],
+      [3, 2],
+    ]);
+    expect(result.winner_index).toBe(1);
+    expect(result.decided_by).toBe('score');
+    expect(result.explanation).toBe(
+      'Candidate 2 ("Draft 2") beat Candidate 1 ("Draft 1") on overall score (95 vs 80), earning more points on LINE_LENGTH +6.'
+    );
+  });
+
+  it('should break ties by errors, then warnings', () => {
+    expect(rankCandidates([entry(0, { error_count: 1 }), entry(1)]).decided_by).toBe('errors');
+
+    const result = rankCandidates([entry(0, { warning_count: 3 }), entry(1, { warning_count: 1 })]);
+    expect(result.winner_index).toBe(1);
+    expect(result.decided_by).toBe('warnings');
+    expect(result.explanation).toContain('fewer warnings (1 vs 3)');
+  });
+
+  it('should break remaining ties by closeness to the optimal item count, then line length', () => {
+    const byItems = rankCandidates([entry(0, { item_count_distance: 2 }), entry(1, { item_count_distance: 0 })]);
+    expect(byItems).toMatchObject({ winner_index: 1, decided_by: 'item_count' });
+
+    const byLines = rankCandidates([entry(0, { line_length_distance: 4 }), entry(1, { line_length_distance: 12 })]);
+    expect(byLines).toMatchObject({ winner_index: 0, decided_by: 'line_length' });
+  });
+
+  it('should keep input order for full ties', () => {
+    const result = rankCandidates([entry(0), entry(1)]);
+    expect(result.winner_index).toBe(0);
+    expect(result.decided_by).toBe('tie');
+  });
+
+  it('should handle a single candidate', () => {
+    const result = rankCandidates([entry(0)]);
+    expect(result.decided_by).toBeUndefined();
+    expect(result.explanation).toBe('Candidate 1 ("Draft 1") is the only candidate.');
+  });
+});
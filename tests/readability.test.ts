@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { countSyllables, hardWords, measureReadability, targetGrade } from '../src/readability.js';
+import { READABILITY } from '../src/constants.js';
+
+const LIMITS = {
+  LOW_LITERACY_GRADE: READABILITY.LOW_LITERACY_GRADE,
+  GENERAL_GRADE: READABILITY.GENERAL_GRADE,
+  EXPERT_GRADE: READABILITY.EXPERT_GRADE,
+  ITEM_GRADE_MARGIN: READABILITY.ITEM_GRADE_MARGIN,
+  LONG_WORD_CHARS: READABILITY.LONG_WORD_CHARS,
+};
+
+describe('Readability Metrics', () => {
+  describe('countSyllables', () => {
+    it('should count vowel groups', () => {
+      expect(countSyllables('the')).toBe(1);
+      expect(countSyllables('water')).toBe(2);
+      expect(countSyllables('readability')).toBe(5);
+      expect(countSyllables('implementation')).toBe(5);
+    });
+
+    it('should not count a silent final e', () => {
+      expect(countSyllables('make')).toBe(1);
+      expect(countSyllables('Utilize')).toBe(3);
+    });
+
+    it('should count numbers as one syllable', () => {
+      expect(countSyllables('2024')).toBe(1);
+    });
+  });
+
+  describe('measureReadability', () => {
+    it('should score plain items at a low grade', () => {
+      const metrics = measureReadability(['Take one pill each day', 'Call us if you feel sick'], 7);
+      expect(metrics.grade).toBe(0);
+      expect(metrics.syllables_per_word).toBe(1);
+      expect(metrics.long_word_ratio).toBe(0);
+    });
+
+    it('should score long words at a high grade', () => {
+      const metrics = measureReadability(['Administer medication consistently according to instructions'], 7);
+      expect(metrics.grade).toBeGreaterThan(15);
+      expect(metrics.long_word_ratio).toBe(0.83);
+    });
+
+    it('should count extra sentences within an item', () => {
+      const one = measureReadability(['Rest well and drink water often every single day'], 7);
+      const two = measureReadability(['Rest well. Drink water often every single day'], 7);
+      expect(two.grade).toBeLessThan(one.grade);
+    });
+
+    it('should return zeros for empty text', () => {
+      expect(measureReadability([], 7)).toEqual({ grade: 0, syllables_per_word: 0, long_word_ratio: 0 });
+    });
+  });
+
+  describe('targetGrade', () => {
+    it('should map each audience to its threshold', () => {
+      expect(targetGrade('low-literacy', LIMITS)).toBe(5);
+      expect(targetGrade('general', LIMITS)).toBe(8);
+      expect(targetGrade('expert', LIMITS)).toBe(12);
+    });
+  });
+
+  describe('hardWords', () => {
+    it('should list words of three or more syllables, longest first', () => {
+      expect(hardWords('Use the medication as the physician directed')).toEqual(['medication', 'physician']);
+    });
+  });
+});
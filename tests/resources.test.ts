@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { BulletServer } from '../src/server.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import { LINE_LENGTH, LIST_LENGTH, RESEARCH_CITATIONS } from '../src/constants.js';
+import type { Rule } from '../src/types.js';
+
+const readText = (server: BulletServer, uri: string) => server.readResource(uri).contents[0].text as string;
+
+describe('Resources', () => {
+  const server = new BulletServer(DEFAULT_CONFIG);
+
+  it('should list the study, the infographic, the rule index and every rule page', () => {
+    const uris = server.listResources().map((resource) => resource.uri);
+    expect(uris.slice(0, 3)).toEqual(['bullet://docs/study', 'bullet://docs/infographic', 'bullet://rules']);
+    expect(uris).toContain('bullet://rules/LIST_LENGTH');
+    expect(uris).toContain('bullet://rules/FORMATTING');
+    expect(uris).toHaveLength(14);
+  });
+
+  it('should read the study and the infographic from the package', () => {
+    const study = server.readResource('bullet://docs/study').contents[0];
+    expect(study.mimeType).toBe('text/markdown');
+    expect(study.text).toMatch(/^# The science of bullet points/);
+    expect(readText(server, 'bullet://docs/infographic')).toContain('BULLET-MCP');
+  });
+
+  it('should build rule pages from the constants', () => {
+    const page = readText(server, 'bullet://rules/LIST_LENGTH');
+    expect(page).toContain(`| Points | ${LIST_LENGTH.POINTS} | ${LIST_LENGTH.POINTS} |`);
+    expect(page).toContain(`| \`HARD_MAX_ITEMS\` | ${LIST_LENGTH.HARD_MAX_ITEMS} | ${LIST_LENGTH.HARD_MAX_ITEMS} |`);
+    expect(page).toContain(RESEARCH_CITATIONS.LIST_LENGTH);
+  });
+
+  it('should show configured settings next to the defaults', () => {
+    const configured = new BulletServer({
+      ...DEFAULT_CONFIG,
+      rules: { LINE_LENGTH: { points: 5, thresholds: { HARD_MAX_CHARS: 100 } }, FORMATTING: { enabled: false } },
+    });
+    const page = readText(configured, 'bullet://rules/LINE_LENGTH');
+    expect(page).toContain(`| Points | 5 | ${LINE_LENGTH.POINTS} |`);
+    expect(page).toContain(`| \`HARD_MAX_CHARS\` | 100 | ${LINE_LENGTH.HARD_MAX_CHARS} |`);
+    expect(readText(configured, 'bullet://rules')).toMatch(/\| \[FORMATTING\]\(bullet:\/\/rules\/FORMATTING\) \| \d+ \| no \|/);
+  });
+
+  it('should publish pages for custom rules', () => {
+    const rule: Rule = {
+      id: 'NO_JARGON',
+      points: 5,
+      citation: '',
+      description: 'Avoid internal jargon.',
+      thresholds: { MAX_TERMS: 0 },
+      validate: () => ({ rule: 'NO_JARGON', max_points: 5, earned_points: 5, issues: [] }),
+    };
+    const custom = new BulletServer(DEFAULT_CONFIG, [rule]);
+    const page = readText(custom, 'bullet://rules/NO_JARGON');
+    expect(page).toContain('Avoid internal jargon.');
+    expect(page).toContain('No citation provided.');
+  });
+
+  it('should reject unknown resources', () => {
+    expect(() => server.readResource('bullet://rules/NOPE')).toThrow('Unknown resource: bullet://rules/NOPE');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BUILT_IN_RULES, RuleRegistry, loadCustomRules, validateRule } from '../src/rules.js';
+import type { Rule } from '../src/types.js';
+
+const BANNED_TERMS: Rule = {
+  id: 'BANNED_TERMS',
+  points: 10,
+  citation: 'Team style guide',
+  validate: () => ({ rule: 'BANNED_TERMS', max_points: 10, earned_points: 10, issues: [] }),
+};
+
+describe('Rule Registry', () => {
+  describe('RuleRegistry', () => {
+    it('should start with the built-in rules in reporting order', () => {
+      expect(new RuleRegistry().list().map((r) => r.id)).toEqual([
+        'LIST_LENGTH',
+        'HIERARCHY',
+        'LINE_LENGTH',
+        'SERIAL_POSITION',
+        'STRUCTURE',
+        'FIRST_WORDS',
+        'FORMATTING',
+        'ONE_IDEA',
+        'LENGTH_UNIFORMITY',
+        'CONCISENESS',
+        'READABILITY',
+      ]);
+    });
+
+    it('should append registered rules', () => {
+      const registry = new RuleRegistry().register(BANNED_TERMS);
+      expect(registry.has('BANNED_TERMS')).toBe(true);
+      expect(registry.list()).toHaveLength(BUILT_IN_RULES.length + 1);
+    });
+
+    it('should reject duplicate ids', () => {
+      expect(() => new RuleRegistry().register({ ...BANNED_TERMS, id: 'LINE_LENGTH' })).toThrow(
+        'Rule "LINE_LENGTH" from register() is already registered'
+      );
+    });
+
+    it('should reject malformed rules', () => {
+      const malformed = { id: 'BROKEN', points: -1, citation: 'x' } as unknown as Rule;
+      expect(() => new RuleRegistry().register(malformed)).toThrow(
+        'Invalid rule "BROKEN" from register(): points must be a number >= 0; validate must be a function'
+      );
+    });
+  });
+
+  describe('validateRule', () => {
+    // Loses 2 points for every item marked TODO
+    const NO_TODO: Rule = {
+      id: 'NO_TODO',
+      points: 10,
+      citation: '',
+      childLists: true,
+      validate(items) {
+        const issues = items
+          .map((item, index) => ({ item, index }))
+          .filter(({ item }) => item.text.includes('TODO'))
+          .map(({ index }) => ({
+            rule: 'NO_TODO',
+            severity: 'warning' as const,
+            message: `Item ${index + 1} is unfinished`,
+            item_index: index,
+          }));
+        return { rule: 'NO_TODO', max_points: 10, earned_points: 10 - issues.length * 2, issues };
+      },
+    };
+    const ITEMS = [
+      { text: 'TODO first' },
+      { text: 'Second', children: [{ text: 'Done' }, { text: 'TODO nested', children: [{ text: 'TODO deeper' }] }] },
+    ];
+    const CTX = { thresholds: {}, context: 'document' as const, audience: 'general' as const };
+
+    it('should fold child list results into the score', () => {
+      const score = validateRule(NO_TODO, ITEMS, CTX);
+      expect(score.earned_points).toBe(4);
+      expect(score.issues.map(({ message, item_index, path }) => ({ message, item_index, path }))).toEqual([
+        { message: 'Item 1 is unfinished', item_index: 0, path: undefined },
+        { message: 'Under item 2: Item 2 is unfinished', item_index: 1, path: [1, 1] },
+        { message: 'Under item 2.2: Item 1 is unfinished', item_index: 1, path: [1, 1, 0] },
+      ]);
+    });
+
+    it('should leave child lists alone for rules that do not ask for them', () => {
+      const score = validateRule({ ...NO_TODO, childLists: undefined }, ITEMS, CTX);
+      expect(score.earned_points).toBe(8);
+      expect(score.issues).toHaveLength(1);
+    });
+
+    it('should pass the parent path to child list validation', () => {
+      const seen: Array<number[] | undefined> = [];
+      const recording: Rule = {
+        ...NO_TODO,
+        validate: (items, ctx) => {
+          seen.push(ctx.parentPath);
+          return NO_TODO.validate(items, ctx);
+        },
+      };
+      validateRule(recording, ITEMS, CTX);
+      expect(seen).toEqual([undefined, [1], [1, 1]]);
+    });
+
+    it('should floor the folded score at zero', () => {
+      const items = [{ text: 'Parent', children: Array.from({ length: 6 }, () => ({ text: 'TODO' })) }];
+      expect(validateRule(NO_TODO, items, CTX).earned_points).toBe(0);
+    });
+  });
+
+  describe('loadCustomRules', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'bullet-rules-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load a default-exported rule or array of rules', async () => {
+      writeFileSync(
+        join(dir, 'single.mjs'),
+        `export default { id: 'ONE', points: 5, citation: '', validate: () => ({ rule: 'ONE', max_points: 5, earned_points: 5, issues: [] }) };`
+      );
+      writeFileSync(
+        join(dir, 'many.mjs'),
+        `const rule = (id) => ({ id, points: 5, citation: '', validate: () => ({ rule: id, max_points: 5, earned_points: 5, issues: [] }) });
+export default [rule('TWO'), rule('THREE')];`
+      );
+
+      const rules = await loadCustomRules([join(dir, 'single.mjs'), join(dir, 'many.mjs')]);
+      expect(rules.map((r) => r.id)).toEqual(['ONE', 'TWO', 'THREE']);
+    });
+
+    it('should require a default export', async () => {
+      const path = join(dir, 'named.mjs');
+      writeFileSync(path, `export const rule = {};`);
+      await expect(loadCustomRules([path])).rejects.toThrow('must default-export a rule or an array of rules');
+    });
+
+    it('should report modules that cannot be loaded', async () => {
+      await expect(loadCustomRules([join(dir, 'missing.mjs')])).rejects.toThrow('Could not load custom rule module');
+    });
+
+    it('should validate exported rules', async () => {
+      const path = join(dir, 'invalid.mjs');
+      writeFileSync(path, `export default { id: 'NO_VALIDATE', points: 5, citation: '' };`);
+      await expect(loadCustomRules([path])).rejects.toThrow('validate must be a function');
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { BulletServer } from '../src/server.js';
 import { DEFAULT_CONFIG } from '../src/config.js';
-import type { BulletConfig, BulletItem } from '../src/types.js';
+import type { BulletConfig, BulletItem, Rule, ValidationIssue } from '../src/types.js';
 
 // Helper to create config
 const createConfig = (overrides: Partial<BulletConfig> = {}): BulletConfig => ({
@@ -202,6 +202,7 @@ describe('BulletServer', () => {
       const hierarchyScore = analysis.scores.find((s: any) => s.rule === 'HIERARCHY');
       expect(hierarchyScore.issues).toHaveLength(1);
       expect(hierarchyScore.issues[0].severity).toBe('warning');
+      expect(hierarchyScore.issues[0].path).toEqual([0, 0, 0]);
     });
 
     it('should give error for 4+ levels of nesting', async () => {
@@ -227,6 +228,7 @@ describe('BulletServer', () => {
       const hierarchyScore = analysis.scores.find((s: any) => s.rule === 'HIERARCHY');
       expect(hierarchyScore.issues).toHaveLength(1);
       expect(hierarchyScore.issues[0].severity).toBe('error');
+      expect(hierarchyScore.issues[0].path).toEqual([0, 0, 0, 0]);
       expect(hierarchyScore.earned_points).toBe(0);
     });
   });
@@ -273,6 +275,41 @@ describe('BulletServer', () => {
       expect(lineLengthScore.issues.length).toBeGreaterThan(0);
       expect(lineLengthScore.issues[0].severity).toBe('warning');
     });
+
+    it('should measure the visible text, not the markup', async () => {
+      const items = [
+        { text: 'Read the **[deployment guide](https://docs.example.com/guides/deployment/production)** before each release' },
+        { text: 'Normal length bullet point for comparison here' },
+        { text: 'Another normal length bullet point for test' },
+      ];
+      const analysis = await parseResult(server, createInput({ items }));
+      const lineLengthScore = analysis.scores.find((s: any) => s.rule === 'LINE_LENGTH');
+      expect(items[0].text.length).toBeGreaterThan(80);
+      expect(lineLengthScore.issues).toHaveLength(0);
+    });
+
+    it('should measure items with out-of-range character references', async () => {
+      const items = [
+        { text: 'Ship the &#x110000; build today' },
+        { text: 'Normal length bullet point for comparison here' },
+        { text: 'Another normal length bullet point for test' },
+      ];
+      const analysis = await parseResult(server, createInput({ items }));
+      const [issue] = analysis.scores.find((s: any) => s.rule === 'LINE_LENGTH').issues;
+      expect(issue.line_length).toEqual({ raw: 31, visible: 22 });
+    });
+
+    it('should count wide characters as two columns and report both lengths', async () => {
+      const items = [
+        { text: '部署前请在测试环境中完整运行所有集成测试并检查日志输出确认没有任何错误或者警告信息然后再发布到生产环境中' },
+        { text: 'Normal length bullet point for comparison here' },
+        { text: 'Another normal length bullet point for test' },
+      ];
+      const analysis = await parseResult(server, createInput({ items, language: 'en' }));
+      const [issue] = analysis.scores.find((s: any) => s.rule === 'LINE_LENGTH').issues;
+      expect(issue.message).toBe('Item 1 is too long (104 chars visible, 52 raw), exceeds readable maximum of 80');
+      expect(issue.line_length).toEqual({ raw: 52, visible: 104 });
+    });
   });
 
   // ===========================================================================
@@ -355,13 +392,27 @@ describe('BulletServer', () => {
       const items = [
         { text: 'Use consistent grammar throughout the list' }, // imperative
         { text: 'Creating parallel structure for scanning' }, // gerund
-        { text: 'The readability is improved with forms' }, // noun-phrase
+        { text: 'The readability is improved with forms' }, // passive
       ];
       const analysis = await parseResult(server, createInput({ items }));
       const structureScore = analysis.scores.find((s: any) => s.rule === 'STRUCTURE');
       expect(structureScore.issues.length).toBeGreaterThan(0);
     });
 
+    it('should name passive and adjective openings among commands', async () => {
+      const items = [
+        { text: 'Configure retries for the client' },
+        { text: 'Rotate logs every night at midnight' },
+        { text: 'Cache responses at the edge' },
+        { text: 'Stored in Redis for an hour' },
+      ];
+      const analysis = await parseResult(server, createInput({ items }));
+      const structureScore = analysis.scores.find((s: any) => s.rule === 'STRUCTURE');
+      expect(structureScore.issues.map((i: any) => i.message)).toEqual([
+        'Item 4 uses "passive" pattern while most items use "verb-imperative"',
+      ]);
+    });
+
     it('should skip check for single item', async () => {
       const items = [{ text: 'Single item does not need parallel check' }];
       const analysis = await parseResult(server, createInput({ items }));
@@ -398,6 +449,7 @@ describe('BulletServer', () => {
       const firstWordsScore = analysis.scores.find((s: any) => s.rule === 'FIRST_WORDS');
       expect(firstWordsScore.issues.length).toBeGreaterThan(0);
       expect(firstWordsScore.issues[0].severity).toBe('warning');
+      expect(firstWordsScore.issues[0].path).toEqual([1]);
     });
 
     it('should be case-insensitive', async () => {
@@ -470,7 +522,316 @@ describe('BulletServer', () => {
       const capIssues = formattingScore.issues.filter((i: any) =>
         i.message.includes('capitalization')
       );
-      expect(capIssues.length).toBeGreaterThan(0);
+      expect(capIssues).toHaveLength(1);
+      expect(capIssues[0].path).toEqual([1]);
+      expect(formattingScore.earned_points).toBe(formattingScore.max_points - 2);
+    });
+  });
+
+  // ===========================================================================
+  // One Idea Validation
+  // ===========================================================================
+
+  describe('One Idea Validation', () => {
+    const COMPOUND = 'Rotate the API keys monthly; audit who has access';
+
+    it('should pass items that carry one idea each', async () => {
+      const analysis = await parseResult(server, createInput({ items: createItems(4) }));
+      const score = analysis.scores.find((s: any) => s.rule === 'ONE_IDEA');
+      expect(score).toMatchObject({ max_points: 10, earned_points: 10, issues: [] });
+    });
+
+    it('should warn about compound items and name where to split', async () => {
+      const items = [...createItems(3), { text: COMPOUND }];
+      const analysis = await parseResult(server, createInput({ items }));
+      const warning = analysis.warnings.find((w: any) => w.rule === 'ONE_IDEA');
+      expect(warning.message).toBe('Item 4 carries 2 ideas joined by the semicolon');
+      expect(warning.item_index).toBe(3);
+      expect(warning.suggestion).toBe('Split into 2 bullets: break at the semicolon before "audit who has access"');
+    });
+
+    it('should check child items', async () => {
+      const items = [{ text: 'Security checklist for the release', children: [{ text: COMPOUND }] }, ...createItems(2)];
+      const analysis = await parseResult(server, createInput({ items }));
+      const warning = analysis.warnings.find((w: any) => w.rule === 'ONE_IDEA');
+      expect(warning).toMatchObject({ item_index: 0, path: [0, 0] });
+      expect(warning.message).toBe('Item 1.1 carries 2 ideas joined by the semicolon');
+    });
+
+    it('should respect a raised MAX_IDEAS threshold', async () => {
+      const custom = new BulletServer(createConfig({ rules: { ONE_IDEA: { thresholds: { MAX_IDEAS: 2 } } } }));
+      const items = [...createItems(3), { text: COMPOUND }];
+      const analysis = await parseResult(custom, createInput({ items }));
+      expect(analysis.scores.find((s: any) => s.rule === 'ONE_IDEA').issues).toHaveLength(0);
+    });
+
+    it('should validate each section in sections mode', async () => {
+      const analysis = await parseResult(
+        server,
+        createInput({
+          sections: [
+            createSection('Access', [...createItems(3), { text: COMPOUND }]),
+            createSection('Releases', createItems(3)),
+          ],
+        })
+      );
+      const warnings = analysis.warnings.filter((w: any) => w.rule === 'ONE_IDEA');
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].message).toContain('[Access]');
+    });
+  });
+
+  // ===========================================================================
+  // Length Uniformity Validation
+  // ===========================================================================
+
+  describe('Length Uniformity Validation', () => {
+    const uniformity = (analysis: any) => analysis.scores.find((s: any) => s.rule === 'LENGTH_UNIFORMITY');
+
+    it('should pass items of the same length', async () => {
+      const analysis = await parseResult(server, createInput({ items: createItems(4) }));
+      expect(uniformity(analysis)).toMatchObject({ max_points: 5, earned_points: 5, issues: [] });
+      expect(analysis.line_length_spread).toMatchObject({ variance: 0, std_dev: 0, spread_percent: 0 });
+    });
+
+    it('should flag lists mixing short and long items that pass the line length rule', async () => {
+      const items = [{ text: 'x'.repeat(42) }, { text: 'y'.repeat(78) }, { text: 'z'.repeat(42) }, { text: 'w'.repeat(78) }];
+      const analysis = await parseResult(server, createInput({ items }));
+      const [issue] = uniformity(analysis).issues;
+      expect(issue.message).toBe('Item lengths vary by ±18 chars (30% of the 60-char average, range 42-78)');
+      expect(issue.severity).toBe('suggestion');
+      expect(analysis.line_length_spread).toEqual({ min: 42, max: 78, variance: 324, std_dev: 18, spread_percent: 30 });
+    });
+
+    it('should flag outliers against the average of their list', async () => {
+      const items = [...createItems(4), { text: 'Short item' }];
+      const analysis = await parseResult(server, createInput({ items }));
+      const outlier = uniformity(analysis).issues.find((i: any) => i.item_index === 4);
+      expect(outlier.message).toContain('Item 5 is much shorter (10 chars)');
+    });
+
+    it('should check each child list on its own', async () => {
+      const children = [{ text: 'Compact' }, { text: 'A considerably longer nested item than the others here' }, { text: 'Tiny' }];
+      const items = [{ text: 'Parent item with enough text to be valid', children }, ...createItems(2)];
+      const analysis = await parseResult(server, createInput({ items }));
+      const messages = uniformity(analysis).issues.map((i: any) => i.message);
+      expect(messages.some((m: string) => m.startsWith('Item lengths under item 1 vary'))).toBe(true);
+      const outlier = uniformity(analysis).issues.find((i: any) => i.message.startsWith('Item 1.2 is much longer'));
+      expect(outlier).toMatchObject({ item_index: 0, path: [0, 1] });
+    });
+
+    it('should report the spread across all sections', async () => {
+      const analysis = await parseResult(
+        server,
+        createInput({
+          sections: [
+            createSection('Short', [{ text: 'x'.repeat(40) }, { text: 'x'.repeat(40) }, { text: 'x'.repeat(40) }]),
+            createSection('Long', [{ text: 'y'.repeat(80) }, { text: 'y'.repeat(80) }, { text: 'y'.repeat(80) }]),
+          ],
+        })
+      );
+      expect(analysis.avg_line_length).toBe(60);
+      expect(analysis.line_length_spread).toMatchObject({ min: 40, max: 80, std_dev: 20 });
+      expect(uniformity(analysis).issues).toHaveLength(0);
+    });
+  });
+
+  // ===========================================================================
+  // Conciseness Validation
+  // ===========================================================================
+
+  describe('Conciseness Validation', () => {
+    const conciseness = (analysis: any) => analysis.scores.find((s: any) => s.rule === 'CONCISENESS');
+
+    it('should pass tight items', async () => {
+      const analysis = await parseResult(server, createInput({ items: createItems(4) }));
+      expect(conciseness(analysis)).toMatchObject({ max_points: 10, earned_points: 10, issues: [] });
+    });
+
+    it('should suggest a rewrite for each wordy phrase', async () => {
+      const items = [...createItems(3), { text: 'Run the linter in order to catch each and every typo' }];
+      const analysis = await parseResult(server, createInput({ items }));
+      const issues = conciseness(analysis).issues;
+      expect(issues.map((i: any) => i.suggestion)).toEqual([
+        'Replace "in order to" with "to"',
+        'Replace "each and every" with "each"',
+      ]);
+      expect(issues[0]).toMatchObject({
+        severity: 'suggestion',
+        item_index: 3,
+        message: 'Item 4 uses the filler phrase "in order to"',
+      });
+    });
+
+    it('should score words per idea and propose the tightened item', async () => {
+      const wordy =
+        'It is important to note that we should basically make a decision about the very long list of options';
+      const items = [...createItems(3), { text: wordy }];
+      const analysis = await parseResult(server, createInput({ items }));
+      const perIdea = conciseness(analysis).issues.find((i: any) => i.message.includes('words per idea'));
+      expect(perIdea.message).toBe('Item 4 uses 19 words per idea (19 words, 1 idea), above 12');
+      expect(perIdea.suggestion).toBe('Tighten to "We should decide about the long list of options" (9 words)');
+    });
+
+    it('should divide words between the ideas of a compound item', async () => {
+      const items = [
+        ...createItems(3),
+        { text: 'Rotate the production API keys every month; audit who can read the billing exports' },
+      ];
+      const analysis = await parseResult(server, createInput({ items }));
+      expect(conciseness(analysis).issues).toHaveLength(0);
+    });
+  });
+
+  // ===========================================================================
+  // Readability Validation
+  // ===========================================================================
+
+  describe('Readability Validation', () => {
+    const readability = (analysis: any) => analysis.scores.find((s: any) => s.rule === 'READABILITY');
+    const PLAIN = [
+      { text: 'Take one pill with food each morning' },
+      { text: 'Drink a full glass of water with it' },
+      { text: 'Call the clinic if you feel dizzy' },
+    ];
+    const TECHNICAL = [
+      { text: 'Take the medication with breakfast every morning' },
+      { text: 'Stay hydrated throughout the treatment period' },
+      { text: 'Contact your physician about dizziness' },
+    ];
+
+    it('should report readability per list and per item for the general audience by default', async () => {
+      const analysis = await parseResult(server, createInput({ items: PLAIN }));
+      expect(analysis.readability).toMatchObject({ audience: 'general', target_grade: 8 });
+      expect(analysis.readability.items).toHaveLength(3);
+      expect(analysis.readability.grade).toBeLessThan(5);
+      expect(readability(analysis)).toMatchObject({ max_points: 10, earned_points: 10, issues: [] });
+    });
+
+    it('should flag lists above the target grade and name the long words', async () => {
+      const analysis = await parseResult(server, createInput({ items: TECHNICAL, audience: 'low-literacy' }));
+      const [list, ...items] = readability(analysis).issues;
+      expect(list.severity).toBe('warning');
+      expect(list.message).toMatch(/^List reads at grade [\d.]+, above the grade 5 target for low-literacy readers/);
+      expect(items[0].suggestion).toContain('"medication"');
+      expect(readability(analysis).earned_points).toBeLessThan(5);
+    });
+
+    it('should accept technical wording for experts more readily', async () => {
+      const general = await parseResult(server, createInput({ items: TECHNICAL }));
+      const expert = await parseResult(server, createInput({ items: TECHNICAL, audience: 'expert' }));
+      expect(expert.readability.target_grade).toBe(12);
+      expect(readability(expert).earned_points).toBeGreaterThan(readability(general).earned_points);
+    });
+
+    it('should use configured target grades', async () => {
+      const custom = new BulletServer(createConfig({ rules: { READABILITY: { thresholds: { EXPERT_GRADE: 20 } } } }));
+      const analysis = await parseResult(custom, createInput({ items: TECHNICAL, audience: 'expert' }));
+      expect(analysis.readability.target_grade).toBe(20);
+      expect(readability(analysis).issues).toHaveLength(0);
+    });
+
+    it('should reject an unknown audience', async () => {
+      const result = await server.analyze(createInput({ items: PLAIN, audience: 'children' }));
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toBe('audience must be one of general, low-literacy, expert');
+    });
+
+    it('should report readability per section', async () => {
+      const analysis = await parseResult(
+        server,
+        createInput({
+          sections: [createSection('Plain', PLAIN), createSection('Technical', TECHNICAL)],
+          audience: 'low-literacy',
+        })
+      );
+      const [plain, technical] = analysis.section_scores;
+      expect(technical.readability.grade).toBeGreaterThan(plain.readability.grade);
+      expect(analysis.readability.items).toHaveLength(6);
+      expect(readability(analysis).issues.some((i: any) => i.message.startsWith('[Technical] List reads'))).toBe(true);
+    });
+  });
+
+  // ===========================================================================
+  // Language Analysis
+  // ===========================================================================
+
+  describe('Language Analysis', () => {
+    const structure = (analysis: any) => analysis.scores.find((s: any) => s.rule === 'STRUCTURE');
+    const lineLength = (analysis: any) => analysis.scores.find((s: any) => s.rule === 'LINE_LENGTH');
+    const SPANISH = [
+      { text: 'Configurar el servidor antes del primer despliegue' },
+      { text: 'Revisar los registros de errores cada mañana' },
+      { text: 'Actualizar las dependencias una vez al mes' },
+    ];
+
+    it('should detect the language and read infinitive bullets as parallel', async () => {
+      const analysis = await parseResult(server, createInput({ items: SPANISH }));
+      expect(analysis.language).toBe('es');
+      expect(structure(analysis).issues).toHaveLength(0);
+    });
+
+    it('should report mixed patterns in the usual message shape', async () => {
+      const items = [...SPANISH, { text: 'Los registros son rotados cada día a medianoche' }];
+      const analysis = await parseResult(server, createInput({ items }));
+      expect(structure(analysis).issues.map((i: any) => i.message)).toEqual([
+        'Item 4 uses "passive" pattern while most items use "verb-infinitive"',
+      ]);
+    });
+
+    it('should use an explicit language over detection', async () => {
+      const analysis = await parseResult(server, createInput({ items: SPANISH, language: 'en' }));
+      expect(analysis.language).toBe('en');
+    });
+
+    it('should allow longer lines in German', async () => {
+      const text = 'Konfigurationsdateien vor jedem Produktionsdeployment gründlich gegen das Schema validieren';
+      const items = [{ text }, { text }, { text }];
+      const german = await parseResult(server, createInput({ items, language: 'de' }));
+      const english = await parseResult(server, createInput({ items, language: 'en' }));
+      expect(lineLength(german).issues).toHaveLength(0);
+      expect(lineLength(english).issues[0].message).toBe(
+        'Item 1 is too long (91 chars), exceeds readable maximum of 80'
+      );
+    });
+
+    it('should not score other languages with English-only readability', async () => {
+      const items = [
+        { text: 'Configurar la autenticación antes del despliegue' },
+        { text: 'Documentar las decisiones importantes del equipo' },
+        { text: 'Actualizar la documentación técnica cada semana' },
+      ];
+      const score = (analysis: any, rule: string) => analysis.scores.find((s: any) => s.rule === rule);
+      const spanish = await parseResult(server, createInput({ items }));
+      const english = await parseResult(server, createInput({ items, language: 'en' }));
+      expect(spanish.language).toBe('es');
+      for (const rule of ['READABILITY', 'CONCISENESS', 'ONE_IDEA']) {
+        expect(score(spanish, rule).issues).toHaveLength(0);
+        expect(score(spanish, rule).earned_points).toBe(score(spanish, rule).max_points);
+      }
+      expect(score(english, 'READABILITY').issues.length).toBeGreaterThan(0);
+    });
+
+    it('should allow more words per idea in other languages', async () => {
+      const text = 'Revisar todos los registros de errores del servidor antes de la reunión semanal';
+      const items = [{ text }, { text }, { text }];
+      const score = (analysis: any) => analysis.scores.find((s: any) => s.rule === 'CONCISENESS');
+      expect(score(await parseResult(server, createInput({ items, language: 'es' }))).issues).toHaveLength(0);
+      expect(score(await parseResult(server, createInput({ items, language: 'en' }))).issues).toHaveLength(3);
+    });
+
+    it('should report the language of sectioned input', async () => {
+      const analysis = await parseResult(
+        server,
+        createInput({ sections: [createSection('Mantenimiento', SPANISH)] })
+      );
+      expect(analysis.language).toBe('es');
+    });
+
+    it('should reject an unknown language', async () => {
+      const result = await server.analyze(createInput({ items: SPANISH, language: 'it' }));
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toBe('language must be one of en, es, de, fr');
     });
   });
 
@@ -495,6 +856,111 @@ describe('BulletServer', () => {
       expect(analysis.context_fit).toBe('poor');
       expect(analysis.context_feedback).toContain('visuals');
     });
+
+    it('should flag documents mixing commands, questions and passives as heterogeneous', async () => {
+      const items = [
+        { text: 'Configure retries for the client' },
+        { text: 'Why do requests time out?' },
+        { text: 'Logs are rotated every night' },
+      ];
+      const analysis = await parseResult(server, createInput({ items, context: 'document' }));
+      expect(analysis.context_fit).toBe('good');
+      expect(analysis.context_feedback).toContain('heterogeneous');
+    });
+
+    const rule = (analysis: any, id: string) => analysis.scores.find((s: any) => s.rule === id);
+    const UPDATE = [
+      { text: 'Deploy finished for all regions by noon today' },
+      { text: 'Rollback plan reviewed and signed off by ops' },
+      { text: 'Monitoring alerts tuned to cut false positives' },
+    ];
+
+    it('should apply tighter line lengths in chat', async () => {
+      const items = [{ text: 'Migrate the billing service to the new queue before the freeze' }, ...UPDATE];
+      const document = await parseResult(server, createInput({ items }));
+      const chat = await parseResult(server, createInput({ items, context: 'chat' }));
+      expect(rule(document, 'LINE_LENGTH').issues).toHaveLength(0);
+      expect(rule(chat, 'LINE_LENGTH').issues[0].message).toBe(
+        'Item 1 is too long (62 chars), exceeds readable maximum of 60'
+      );
+      expect(chat.context_fit).toBe('excellent');
+    });
+
+    it('should cap executive summaries at five items', async () => {
+      const items = createItems(6, (i) => `Revenue grew in region ${i + 1} for the third straight quarter`);
+      const analysis = await parseResult(server, createInput({ items, context: 'executive-summary' }));
+      expect(rule(analysis, 'LIST_LENGTH').issues[0].message).toBe('List has 6 items, exceeds maximum of 5');
+      expect(analysis.context_fit).toBe('poor');
+      expect(analysis.context_feedback).toContain('5 points');
+    });
+
+    it('should ask executive summaries to lead with the most important point', async () => {
+      const items = [...UPDATE.slice(0, 2), { ...UPDATE[2], importance: 'high' }];
+      const analysis = await parseResult(server, createInput({ items, context: 'executive-summary' }));
+      expect(analysis.context_fit).toBe('good');
+      expect(analysis.context_feedback).toContain('Lead with the conclusion');
+    });
+
+    it('should flag wordy slide bullets', async () => {
+      const analysis = await parseResult(server, createInput({ items: UPDATE, context: 'slide' }));
+      expect(analysis.context_fit).toBe('poor');
+      expect(analysis.context_feedback).toContain('over 6 words');
+    });
+
+    it('should suggest grouping long changelogs and flattening nested email lists', async () => {
+      const entries = createItems(10, (i) => `Fix crash when opening file number ${i + 1}`);
+      const changelog = await parseResult(server, createInput({ items: entries, context: 'changelog' }));
+      expect(rule(changelog, 'LIST_LENGTH').issues).toHaveLength(0);
+      expect(changelog.context_feedback).toContain('Added, Changed');
+
+      const nested = [{ ...UPDATE[0], children: [{ text: 'Europe and Asia went out first, the US last' }] }, ...UPDATE];
+      const email = await parseResult(server, createInput({ items: nested, context: 'email' }));
+      expect(email.context_fit).toBe('good');
+      expect(email.context_feedback).toContain('nested bullets');
+    });
+
+    it('should let configured thresholds win over the context', async () => {
+      const custom = new BulletServer(
+        createConfig({ rules: { LINE_LENGTH: { thresholds: { OPTIMAL_MAX_CHARS: 90, HARD_MAX_CHARS: 100 } } } })
+      );
+      const items = [{ text: 'Migrate the billing service to the new queue before the freeze' }, ...UPDATE];
+      const analysis = await parseResult(custom, createInput({ items, context: 'chat' }));
+      expect(rule(analysis, 'LINE_LENGTH').issues).toHaveLength(0);
+    });
+
+    it('should not mix a configured threshold with the context values of its group', async () => {
+      const custom = new BulletServer(createConfig({ rules: { LINE_LENGTH: { thresholds: { MIN_CHARS: 30 } } } }));
+      const items = [{ text: 'Migrate the billing service to the new queue before the freeze' }, ...UPDATE];
+      const analysis = await parseResult(custom, createInput({ items, context: 'chat' }));
+      // Chat's OPTIMAL_MIN_CHARS of 20 would sit below the configured MIN_CHARS, so its limits give way
+      expect(rule(analysis, 'LINE_LENGTH').issues).toHaveLength(0);
+    });
+
+    it('should judge context fit by the configured list length', async () => {
+      const custom = new BulletServer(createConfig({ rules: { LIST_LENGTH: { thresholds: { MAX_ITEMS: 8 } } } }));
+      const items = createItems(6, (i) => `Rollout step ${i + 1} finished on time`);
+      const analysis = await parseResult(custom, createInput({ items, context: 'chat' }));
+      expect(rule(analysis, 'LIST_LENGTH').issues).toHaveLength(0);
+      expect(analysis.context_fit).not.toBe('poor');
+    });
+
+    it('should apply section contexts', async () => {
+      const items = [{ text: 'Migrate the billing service to the new queue before the freeze' }, ...UPDATE];
+      const analysis = await parseResult(
+        server,
+        createInput({ sections: [createSection('Docs', items), createSection('Slack', items, { context: 'chat' })] })
+      );
+      const issues = rule(analysis, 'LINE_LENGTH').issues;
+      expect(issues.map((i: any) => i.section_index)).toEqual([1]);
+    });
+
+    it('should reject an unknown context', async () => {
+      const result = await server.analyze(createInput({ items: UPDATE, context: 'poster' }));
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toBe(
+        'context must be one of document, presentation, reference, email, chat, slide, changelog, executive-summary'
+      );
+    });
   });
 
   // ===========================================================================
@@ -578,6 +1044,109 @@ describe('BulletServer', () => {
     });
   });
 
+  // ===========================================================================
+  // Issue Locations
+  // ===========================================================================
+
+  describe('Issue Locations', () => {
+    const LONG = 'This deeply nested bullet goes on far longer than any reader would comfortably scan';
+
+    it('should report the path of deeply nested items', async () => {
+      const items = [
+        ...createItems(1),
+        { text: 'Second item with enough text to be valid', children: [{ text: 'Grouping child item here', children: [{ text: 'First grandchild item text' }, { text: LONG }] }] },
+        ...createItems(1),
+      ];
+      const analysis = await parseResult(server, createInput({ items }));
+      const issue = analysis.warnings.find((w: any) => w.rule === 'LINE_LENGTH');
+      expect(issue).toMatchObject({ item_index: 1, path: [1, 0, 1] });
+      expect(issue.message).toContain('Item 2.1.2 is too long');
+    });
+
+    it('should locate children past the hundredth', async () => {
+      const children = Array.from({ length: 120 }, (_, i) => ({ text: i === 105 ? LONG : `Child ${i + 1} of the long list` }));
+      const items = [{ text: 'Parent of a very long child list', children }, ...createItems(2)];
+      const analysis = await parseResult(server, createInput({ items }));
+      const issue = analysis.warnings.find((w: any) => w.rule === 'LINE_LENGTH');
+      expect(issue).toMatchObject({ item_index: 0, path: [0, 105] });
+      expect(issue.message).toContain('Item 1.106');
+    });
+
+    it('should give every sectioned issue its section index', async () => {
+      const analysis = await parseResult(
+        server,
+        createInput({ sections: [createSection('One', createItems(3)), createSection('Two', createItems(1))] })
+      );
+      const issues = analysis.scores.flatMap((s: any) => s.issues);
+      expect(issues.length).toBeGreaterThan(0);
+      for (const issue of issues) {
+        expect(issue.section_index).toBe(issue.message.startsWith('[One]') ? 0 : 1);
+      }
+    });
+
+    it('should point markdown issues at the nested source line', async () => {
+      const analysis = await parseResult(
+        server,
+        createInput({
+          markdown: [
+            '- First bullet with a perfectly reasonable length',
+            '  - Nested bullet with a perfectly reasonable length',
+            `    - ${LONG}`,
+            '- Second bullet with a perfectly reasonable length',
+            '- Third bullet with a perfectly reasonable length',
+          ].join('\n'),
+        })
+      );
+      const issue = analysis.warnings.find((w: any) => w.rule === 'LINE_LENGTH');
+      expect(issue).toMatchObject({ path: [0, 0, 0], line: 3, column: 7 });
+    });
+  });
+
+  // ===========================================================================
+  // Child Lists
+  // ===========================================================================
+
+  describe('Child List Validation', () => {
+    // 14 sub-bullets mixing grammar, capitals and ending punctuation
+    const SUB_BULLETS = Array.from({ length: 14 }, (_, i) => ({
+      text: i % 2 === 0 ? `Configure option ${i + 1} for the deployment` : `the option ${i + 1} was configured.`,
+    }));
+
+    it('should check list-level rules on every child list', async () => {
+      const items = [{ text: 'Deployment settings for production', children: SUB_BULLETS }, ...createItems(2)];
+      const analysis = await parseResult(server, createInput({ items }));
+      const score = (rule: string) => analysis.scores.find((s: any) => s.rule === rule);
+
+      expect(analysis.errors.find((e: any) => e.rule === 'LIST_LENGTH')).toMatchObject({
+        message: 'Under item 1: List has 14 items, exceeds maximum of 9',
+        item_index: 0,
+        path: [0],
+      });
+      expect(score('LIST_LENGTH').earned_points).toBe(0);
+      expect(score('STRUCTURE').issues[0].message).toMatch(/^Under item 1: Item \d+ uses/);
+      expect(score('STRUCTURE').issues[0].path).toHaveLength(2);
+      expect(score('FORMATTING').issues.every((i: any) => i.message.startsWith('Under item 1: '))).toBe(true);
+      expect(score('FORMATTING').earned_points).toBeLessThan(score('FORMATTING').max_points);
+    });
+
+    it('should not hold short sub-lists to the minimum list length', async () => {
+      const items = createItems(3).map((item) => ({ ...item, children: createItems(1) }));
+      const analysis = await parseResult(server, createInput({ items }));
+      const listLength = analysis.scores.find((s: any) => s.rule === 'LIST_LENGTH');
+      expect(listLength.issues).toHaveLength(0);
+      expect(listLength.earned_points).toBe(listLength.max_points);
+    });
+
+    it('should score a parent with inconsistent sub-bullets below the same list without them', async () => {
+      const flat = await parseResult(server, createInput({ items: createItems(3) }));
+      const nested = await parseResult(
+        server,
+        createInput({ items: [{ ...createItems(1)[0], children: SUB_BULLETS }, ...createItems(3).slice(1)] })
+      );
+      expect(nested.overall_score).toBeLessThan(flat.overall_score - 20);
+    });
+  });
+
   // ===========================================================================
   // Strict Mode
   // ===========================================================================
@@ -630,6 +1199,805 @@ describe('BulletServer', () => {
     });
   });
 
+  // ===========================================================================
+  // Rule Configuration
+  // ===========================================================================
+
+  describe('Rule Configuration', () => {
+    const LONG_ITEMS = [
+      { text: 'Use consistent grammar across every single item in this bullet list' }, // 67
+      { text: 'Create parallel structure so readers can scan through items faster now' }, // 70
+      { text: 'Maintain readability by keeping the similar forms across all the items' }, // 70
+      { text: 'Apply the team style guide which allows for slightly longer lines than usual' }, // 76
+    ];
+
+    it('should apply threshold overrides', async () => {
+      const defaults = await parseResult(server, createInput({ items: LONG_ITEMS }));
+      expect(defaults.scores.find((s: any) => s.rule === 'LINE_LENGTH').issues).toHaveLength(1);
+
+      const custom = new BulletServer(
+        createConfig({ rules: { LINE_LENGTH: { thresholds: { OPTIMAL_MAX_CHARS: 85, HARD_MAX_CHARS: 90 } } } })
+      );
+      const analysis = await parseResult(custom, createInput({ items: LONG_ITEMS }));
+      expect(analysis.scores.find((s: any) => s.rule === 'LINE_LENGTH').issues).toHaveLength(0);
+    });
+
+    it('should include overridden thresholds in messages', async () => {
+      const custom = new BulletServer(createConfig({ rules: { LIST_LENGTH: { thresholds: { MAX_ITEMS: 5 } } } }));
+      const analysis = await parseResult(custom, createInput({ items: createItems(6) }));
+      expect(analysis.warnings[0].message).toContain('recommended maximum of 5');
+    });
+
+    it('should rescale rule points to the configured weight', async () => {
+      const custom = new BulletServer(createConfig({ rules: { STRUCTURE: { points: 40 } } }));
+      const items = [
+        { text: 'Use consistent grammar throughout the list' },
+        { text: 'Creating parallel structure for scanning' },
+        { text: 'Maintain readability with similar forms' },
+      ];
+      const analysis = await parseResult(custom, createInput({ items }));
+      const structureScore = analysis.scores.find((s: any) => s.rule === 'STRUCTURE');
+      expect(structureScore.max_points).toBe(40);
+      expect(structureScore.earned_points).toBe(32); // 16/20 rescaled to 40
+    });
+
+    it('should renormalize the overall score over configured weights', async () => {
+      const items = [{ text: 'Short text here' }, { text: 'Another short one' }, { text: 'Third short item' }];
+      const custom = new BulletServer(createConfig({ rules: { LINE_LENGTH: { points: 85 } } }));
+      const analysis = await parseResult(custom, createInput({ items }));
+      const earned = analysis.scores.reduce((sum: number, s: any) => sum + s.earned_points, 0);
+      const max = analysis.scores.reduce((sum: number, s: any) => sum + s.max_points, 0);
+      expect(max).toBe(205);
+      expect(analysis.overall_score).toBe(Math.round((earned / max) * 100));
+    });
+
+    it('should skip disabled rules', async () => {
+      const custom = new BulletServer(createConfig({ rules: { FORMATTING: { enabled: false } } }));
+      const analysis = await parseResult(custom, createInput({ items: createItems(3) }));
+      expect(analysis.scores.map((s: any) => s.rule)).not.toContain('FORMATTING');
+      expect(analysis.scores).toHaveLength(10);
+    });
+
+    it('should apply severity overrides', async () => {
+      const custom = new BulletServer(createConfig({ rules: { LIST_LENGTH: { severity: 'error' } } }));
+      const analysis = await parseResult(custom, createInput({ items: createItems(8) }));
+      expect(analysis.errors.map((e: any) => e.rule)).toContain('LIST_LENGTH');
+      expect(analysis.warnings.map((w: any) => w.rule)).not.toContain('LIST_LENGTH');
+    });
+  });
+
+  // ===========================================================================
+  // Custom Rules
+  // ===========================================================================
+
+  describe('Custom Rules', () => {
+    // Flags items that use "utilize" instead of "use"
+    const BANNED_TERMS: Rule<{ MAX_HITS: number }> = {
+      id: 'BANNED_TERMS',
+      points: 10,
+      citation: 'Team style guide: plain words',
+      thresholds: { MAX_HITS: 0 },
+      validate(items, { thresholds }) {
+        const issues: ValidationIssue[] = items
+          .map((item, index) => ({ item, index }))
+          .filter(({ item }) => /\butilize\b/i.test(item.text))
+          .map(({ index }) => ({
+            rule: 'BANNED_TERMS',
+            severity: 'warning' as const,
+            message: `Item ${index + 1} uses "utilize"`,
+            item_index: index,
+            suggestion: 'Say "use" instead',
+          }));
+        const over = Math.max(0, issues.length - thresholds.MAX_HITS);
+        return { rule: 'BANNED_TERMS', max_points: 10, earned_points: Math.max(0, 10 - over * 5), issues };
+      },
+    };
+
+    const ITEMS = [
+      { text: 'Utilize consistent grammar throughout the list' },
+      { text: 'Create parallel structure for better scanning' },
+      { text: 'Maintain readability with similar text forms' },
+    ];
+
+    it('should score custom rules after the built-in rules', async () => {
+      const custom = new BulletServer(createConfig(), [BANNED_TERMS]);
+      // Expert readers, so every built-in rule passes
+      const analysis = await parseResult(custom, createInput({ items: ITEMS, audience: 'expert' }));
+      const last = analysis.scores[analysis.scores.length - 1];
+      expect(last).toMatchObject({ rule: 'BANNED_TERMS', max_points: 10, earned_points: 5 });
+      expect(analysis.overall_score).toBe(Math.round((140 / 145) * 100));
+    });
+
+    it('should attach the rule citation to issues', async () => {
+      const custom = new BulletServer(createConfig(), [BANNED_TERMS]);
+      const analysis = await parseResult(custom, createInput({ items: ITEMS }));
+      const warning = analysis.warnings.find((w: any) => w.rule === 'BANNED_TERMS');
+      expect(warning.research_basis).toBe('Team style guide: plain words');
+      expect(warning.path).toEqual([0]);
+
+      const noCitations = new BulletServer(
+        createConfig({ validation: { strictMode: false, enableResearchCitations: false } }),
+        [BANNED_TERMS]
+      );
+      const stripped = await parseResult(noCitations, createInput({ items: ITEMS }));
+      const issue = stripped.scores.find((s: any) => s.rule === 'BANNED_TERMS').issues[0];
+      expect(issue.research_basis).toBeUndefined();
+    });
+
+    it('should promote custom warnings in strict mode', async () => {
+      const custom = new BulletServer(
+        createConfig({ validation: { strictMode: true, enableResearchCitations: true } }),
+        [BANNED_TERMS]
+      );
+      const analysis = await parseResult(custom, createInput({ items: ITEMS }));
+      expect(analysis.errors.map((e: any) => e.rule)).toContain('BANNED_TERMS');
+      expect(analysis.warnings).toHaveLength(0);
+    });
+
+    it('should apply config overrides to custom rules', async () => {
+      const custom = new BulletServer(
+        createConfig({ rules: { BANNED_TERMS: { points: 20, thresholds: { MAX_HITS: 1 } } } }),
+        [BANNED_TERMS]
+      );
+      const analysis = await parseResult(custom, createInput({ items: ITEMS }));
+      expect(analysis.scores.find((s: any) => s.rule === 'BANNED_TERMS')).toMatchObject({
+        max_points: 20,
+        earned_points: 20,
+      });
+    });
+
+    it('should run custom rules for each section', async () => {
+      const custom = new BulletServer(createConfig(), [BANNED_TERMS]);
+      const analysis = await parseResult(
+        custom,
+        createInput({ sections: [createSection('One', ITEMS), createSection('Two', ITEMS.slice(1))] })
+      );
+      expect(analysis.warnings.filter((w: any) => w.rule === 'BANNED_TERMS')).toHaveLength(1);
+      expect(analysis.warnings[0].message).toContain('[One]');
+    });
+
+    it('should reject overrides for unknown rules', () => {
+      expect(() => new BulletServer(createConfig({ rules: { BANNED_TERMS: { enabled: false } } }))).toThrow(
+        'rules.BANNED_TERMS does not match any built-in or custom rule'
+      );
+    });
+  });
+
+  // ===========================================================================
+  // Markdown Mode
+  // ===========================================================================
+
+  describe('Markdown Mode', () => {
+    it('should analyze a flat markdown list', async () => {
+      const analysis = await parseResult(
+        server,
+        createInput({
+          markdown: [
+            '- Use consistent grammar throughout the list',
+            '- Create parallel structure for better scanning',
+            '- Maintain readability with similar text forms',
+          ].join('\n'),
+        })
+      );
+      expect(analysis.item_count).toBe(3);
+      expect(analysis.section_scores).toBeUndefined();
+    });
+
+    it('should analyze headings as sections', async () => {
+      const analysis = await parseResult(
+        server,
+        createInput({
+          markdown: '## Setup\n\n- Install the package\n\n## Usage\n\n- Run the tool',
+        })
+      );
+      expect(analysis.section_scores.map((s: any) => s.title)).toEqual(['Setup', 'Usage']);
+    });
+
+    it('should report source line and column on item issues', async () => {
+      const analysis = await parseResult(
+        server,
+        createInput({
+          markdown: [
+            'Intro paragraph',
+            '',
+            '- This bullet point has a perfectly reasonable length',
+            '- Short one',
+            '- Another bullet point with a perfectly reasonable length',
+          ].join('\n'),
+        })
+      );
+      const lineLengthScore = analysis.scores.find((s: any) => s.rule === 'LINE_LENGTH');
+      expect(lineLengthScore.issues[0].item_index).toBe(1);
+      expect(lineLengthScore.issues[0].line).toBe(4);
+      expect(lineLengthScore.issues[0].column).toBe(3);
+    });
+
+    it('should not add locations outside markdown mode', async () => {
+      const analysis = await parseResult(server, createInput({ items: createItems(12) }));
+      expect(analysis.errors[0].line).toBeUndefined();
+    });
+
+    it('should reject markdown combined with items', async () => {
+      const result = await server.analyze(
+        createInput({ markdown: '- An item', items: [{ text: 'An item' }] })
+      );
+      expect(result.isError).toBe(true);
+    });
+
+    it('should reject markdown without list items', async () => {
+      const result = await server.analyze(createInput({ markdown: 'Just prose here.' }));
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toContain('no list items');
+    });
+  });
+
+  // ===========================================================================
+  // HTML Mode
+  // ===========================================================================
+
+  describe('HTML Mode', () => {
+    const ITEMS = [
+      'Use consistent grammar throughout the list',
+      'Create parallel structure for better scanning',
+      'Maintain readability with similar text forms',
+    ];
+
+    it('should score HTML lists the same as JSON items', async () => {
+      const html = `<ul>${ITEMS.map((t) => `<li><b>${t.slice(0, 4)}</b>${t.slice(4)}</li>`).join('')}</ul>`;
+      const fromHtml = await parseResult(server, createInput({ html }));
+      const fromJson = await parseResult(
+        server,
+        createInput({ items: ITEMS.map((text) => ({ text })) })
+      );
+      expect(fromHtml.overall_score).toBe(fromJson.overall_score);
+      expect(fromHtml.avg_line_length).toBe(fromJson.avg_line_length);
+    });
+
+    it('should analyze headings as sections', async () => {
+      const analysis = await parseResult(
+        server,
+        createInput({ html: '<h2>Setup</h2><ul><li>Install</li></ul><h2>Usage</h2><ul><li>Run</li></ul>' })
+      );
+      expect(analysis.section_scores.map((s: any) => s.title)).toEqual(['Setup', 'Usage']);
+    });
+
+    it('should reject html combined with markdown', async () => {
+      const result = await server.analyze(
+        createInput({ html: '<ul><li>An item</li></ul>', markdown: '- An item' })
+      );
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  // ===========================================================================
+  // Document Scan
+  // ===========================================================================
+
+  describe('Document Scan', () => {
+    const scanResult = async (input: unknown) => {
+      const result = await server.scan(input);
+      if (result.isError) {
+        throw new Error(JSON.parse(result.content[0].text).error);
+      }
+      return JSON.parse(result.content[0].text);
+    };
+
+    const DOCUMENT = [
+      '---',
+      'title: Guide',
+      '---',
+      '# Guide',
+      '',
+      'Some introductory prose.',
+      '',
+      '## Setup',
+      '',
+      '- Install the package from the npm registry',
+      '- Configure the server in your client settings',
+      '- Restart the client to load the new server',
+      '',
+      '```bash',
+      '- not a list item',
+      '```',
+      '',
+      '## Usage',
+      '',
+      'Steps:',
+      '',
+      ...createItems(12).map((i) => `- ${i.text}`),
+    ].join('\n');
+
+    it('should analyze every list in the document', async () => {
+      const analysis = await scanResult({ document: DOCUMENT });
+      expect(analysis.list_count).toBe(2);
+      expect(analysis.lists.map((l: any) => l.heading)).toEqual(['Setup', 'Usage']);
+      expect(analysis.lists[0].location).toEqual({ line: 10, column: 3 });
+      expect(analysis.lists[0].end_line).toBe(12);
+    });
+
+    it('should score each list with the standard validators', async () => {
+      const analysis = await scanResult({ document: DOCUMENT });
+      expect(analysis.lists[0].analysis.scores).toHaveLength(11);
+      expect(analysis.lists[1].analysis.errors[0].rule).toBe('LIST_LENGTH');
+      expect(analysis.lists[1].analysis.intro).toBe('Steps:');
+    });
+
+    it('should roll up scores and issue counts', async () => {
+      const analysis = await scanResult({ document: DOCUMENT });
+      const [first, second] = analysis.lists;
+      expect(analysis.overall_score).toBe(
+        Math.round((first.analysis.overall_score + second.analysis.overall_score) / 2)
+      );
+      expect(analysis.error_count).toBe(
+        first.analysis.errors.length + second.analysis.errors.length
+      );
+      expect(analysis.item_count).toBe(15);
+      expect(analysis.summary).toContain('Usage');
+    });
+
+    it('should report source positions on list issues', async () => {
+      const analysis = await scanResult({ document: DOCUMENT });
+      expect(analysis.lists[1].analysis.errors[0].line).toBe(22);
+    });
+
+    it('should point formatting and first-word issues at the items that differ', async () => {
+      const document = [
+        '# Notes',
+        '',
+        '- Install the package from the registry',
+        '- install the package with the lockfile.',
+        '- Restart the client to load the server',
+      ].join('\n');
+      const [list] = (await scanResult({ document })).lists;
+      const issues = list.analysis.scores.flatMap((s: any) => s.issues);
+      const formatting = issues.filter((i: any) => i.rule === 'FORMATTING');
+      expect(formatting.map((i: any) => [i.path, i.line])).toEqual([
+        [[1], 4],
+        [[1], 4],
+      ]);
+      expect(formatting[0].message).toBe('Item 2 has inconsistent ending punctuation (period vs none in most items)');
+      expect(issues.find((i: any) => i.rule === 'FIRST_WORDS')).toMatchObject({
+        message: 'Item 2 starts with the same words "install the" as item 1',
+        path: [1],
+        line: 4,
+      });
+    });
+
+    it('should scan lists with out-of-range character references', async () => {
+      const analysis = await scanResult({ document: '- Ship &#x110000; now\n- Test the build\n- Tag the release' });
+      expect(analysis.list_count).toBe(1);
+    });
+
+    it('should skip empty bullets instead of failing the document', async () => {
+      const document = DOCUMENT.replace('- Restart', '-\n- Restart').replace('## Usage', '-\n\n## Usage');
+      const analysis = await scanResult({ document });
+      expect(analysis.list_count).toBe(2);
+      expect(analysis.lists[0].analysis.item_count).toBe(3);
+    });
+
+    it('should handle documents without lists', async () => {
+      const analysis = await scanResult({ document: '# Title\n\nOnly prose.' });
+      expect(analysis.list_count).toBe(0);
+      expect(analysis.lists).toEqual([]);
+    });
+
+    it('should reject missing document', async () => {
+      const result = await server.scan({});
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  // ===========================================================================
+  // Fix Tool
+  // ===========================================================================
+
+  describe('Fix Tool', () => {
+    const fixResult = async (input: unknown) => {
+      const result = await server.fix(input);
+      if (result.isError) {
+        throw new Error(JSON.parse(result.content[0].text).error);
+      }
+      return JSON.parse(result.content[0].text);
+    };
+
+    const ITEMS = [
+      { text: 'Use consistent grammar throughout the list.' },
+      { text: '  Create parallel structure for better scanning.' },
+      { text: 'Maintain readability with similar text forms', importance: 'high' },
+      { text: 'Keep every item within the optimal length.' },
+      { text: 'Review the list before you publish it.' },
+    ];
+
+    it('should return the fixed input with edits and scores', async () => {
+      const result = await fixResult(createInput({ items: ITEMS }));
+
+      expect(result.fixed.title).toBe('Test Title');
+      expect(result.fixed.items.map((i: any) => i.text)).toEqual([
+        'Use consistent grammar throughout the list.',
+        'Maintain readability with similar text forms.',
+        'Create parallel structure for better scanning.',
+        'Keep every item within the optimal length.',
+        'Review the list before you publish it.',
+      ]);
+      expect(result.edits.map((e: any) => e.fix)).toEqual(['whitespace', 'punctuation', 'reorder', 'reorder']);
+      expect(result.score_after).toBeGreaterThan(result.score_before);
+    });
+
+    it('should report scores that match the bullet tool', async () => {
+      const result = await fixResult(createInput({ items: ITEMS }));
+      const before = await parseResult(server, createInput({ items: ITEMS }));
+      const after = await parseResult(server, result.fixed);
+      expect(result.score_before).toBe(before.overall_score);
+      expect(result.score_after).toBe(after.overall_score);
+      expect(result.grade_after).toBe(after.grade);
+    });
+
+    it('should fix the formatting issues reported on child lists', async () => {
+      const children = [{ text: 'Set the region.' }, { text: 'set the zone.' }, { text: 'Set the size' }];
+      const items = [{ text: 'Configure the cluster', children }, ...createItems(2)];
+      const formatting = (analysis: any) => analysis.scores.find((s: any) => s.rule === 'FORMATTING').issues;
+      expect(formatting(await parseResult(server, createInput({ items })))).toHaveLength(2);
+
+      const result = await fixResult(createInput({ items }));
+      expect(formatting(await parseResult(server, result.fixed))).toHaveLength(0);
+    });
+
+    it('should fix each section and tag edits with the section title', async () => {
+      const result = await fixResult(
+        createInput({ sections: [createSection('Clean', createItems(3)), createSection('Messy', ITEMS)] })
+      );
+      expect(result.fixed.sections).toHaveLength(2);
+      expect(result.edits.every((e: any) => e.section === 'Messy')).toBe(true);
+    });
+
+    it('should convert markdown input to items', async () => {
+      const result = await fixResult(
+        createInput({ markdown: '- First item here.\n- Second item here.\n- third item here' })
+      );
+      expect(result.fixed.markdown).toBeUndefined();
+      expect(result.fixed.items.map((i: any) => i.text)).toEqual([
+        'First item here.',
+        'Second item here.',
+        'Third item here.',
+      ]);
+    });
+
+    it('should reject malformed input', async () => {
+      const result = await server.fix({ items: [] });
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  // ===========================================================================
+  // Reorder Tool
+  // ===========================================================================
+
+  describe('Reorder Tool', () => {
+    const reorderResult = async (input: unknown) => {
+      const result = await server.reorder(input);
+      if (result.isError) {
+        throw new Error(JSON.parse(result.content[0].text).error);
+      }
+      return JSON.parse(result.content[0].text);
+    };
+
+    const ITEMS: BulletItem[] = [
+      { text: 'Item one with enough text to be valid length', importance: 'low' },
+      { text: 'Item two with enough text to be valid length' },
+      { text: 'Item three with enough text to be valid length', importance: 'high' },
+      { text: 'Item four with enough text to be valid length' },
+      { text: 'Item five with enough text to be valid length', importance: 'low' },
+    ];
+
+    it('should move high-importance items to key positions and report the score change', async () => {
+      const result = await reorderResult(createInput({ items: ITEMS }));
+      const [list] = result.lists;
+
+      expect(result.reordered.items[0].text).toBe('Item three with enough text to be valid length');
+      expect(list.order).toEqual(result.reordered.items.map((i: any) => i.text));
+      expect(list.moves[0]).toMatchObject({ importance: 'high', from_index: 2, to_index: 0 });
+      expect(list.expected_recall_after).toBeGreaterThan(list.expected_recall_before);
+      expect(list.serial_position_after).toBeGreaterThan(list.serial_position_before);
+      expect(list.serial_position_delta).toBe(list.serial_position_after - list.serial_position_before);
+    });
+
+    it('should report SERIAL_POSITION scores that match the bullet tool', async () => {
+      const result = await reorderResult(createInput({ items: ITEMS }));
+      const before = await parseResult(server, createInput({ items: ITEMS }));
+      const after = await parseResult(server, result.reordered);
+      const earned = (analysis: any) =>
+        analysis.scores.find((r: any) => r.rule === 'SERIAL_POSITION').earned_points;
+      expect(result.lists[0].serial_position_before).toBe(earned(before));
+      expect(result.lists[0].serial_position_after).toBe(earned(after));
+    });
+
+    it('should keep locked items in place', async () => {
+      const items = ITEMS.map((item, i) => (i === 0 ? { ...item, locked: true } : item));
+      const result = await reorderResult(createInput({ items }));
+      expect(result.lists[0].moves[0]).toMatchObject({ locked: true, from_index: 0, to_index: 0 });
+      expect(result.reordered.items[4].text).toBe('Item three with enough text to be valid length');
+    });
+
+    it('should propose an order for every section', async () => {
+      const result = await reorderResult(
+        createInput({ sections: [createSection('Plain', createItems(3)), createSection('Ranked', ITEMS)] })
+      );
+      expect(result.lists.map((l: any) => l.section)).toEqual(['Plain', 'Ranked']);
+      expect(result.lists[0].moves.every((m: any) => m.from_index === m.to_index)).toBe(true);
+      expect(result.reordered.sections[1].items[0].importance).toBe('high');
+    });
+
+    it('should reject malformed input', async () => {
+      const result = await server.reorder({ items: [] });
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  // ===========================================================================
+  // Split Tool
+  // ===========================================================================
+
+  describe('Split Tool', () => {
+    const splitResult = async (input: unknown) => {
+      const result = await server.split(input);
+      if (result.isError) {
+        throw new Error(JSON.parse(result.content[0].text).error);
+      }
+      return JSON.parse(result.content[0].text);
+    };
+
+    const TOPICS = ['cache', 'queue', 'index'];
+    const ITEMS = createItems(12, (i) => `Tune the ${TOPICS[i % 3]} settings for production load ${i + 1}`);
+
+    it('should return a sections payload that passes the list-length rule', async () => {
+      const result = await splitResult(createInput({ items: ITEMS }));
+
+      expect(result.split.items).toBeUndefined();
+      expect(result.split.sections.map((s: any) => s.title)).toEqual(['Cache', 'Queue', 'Index']);
+      expect(result.groups[0]).toMatchObject({ heading: 'Cache', item_indices: [0, 3, 6, 9] });
+
+      const after = await parseResult(server, result.split);
+      expect(after.errors.concat(after.warnings).some((i: any) => i.rule === 'LIST_LENGTH')).toBe(false);
+      expect(result.score_after).toBe(after.overall_score);
+      expect(result.score_after).toBeGreaterThan(result.score_before);
+    });
+
+    it('should leave lists within the limit unchanged', async () => {
+      const items = createItems(5);
+      const result = await splitResult(createInput({ items }));
+      expect(result.split.items).toEqual(items);
+      expect(result.groups).toEqual([]);
+    });
+
+    it('should split only oversized sections and prefix their titles', async () => {
+      const result = await splitResult(
+        createInput({ sections: [createSection('Short', createItems(4)), createSection('Ops', ITEMS)] })
+      );
+      expect(result.split.sections.map((s: any) => s.title)).toEqual(['Short', 'Ops: Cache', 'Ops: Queue', 'Ops: Index']);
+      expect(result.groups.every((g: any) => g.section === 'Ops')).toBe(true);
+    });
+
+    it('should reject malformed input', async () => {
+      const result = await server.split({ items: [] });
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  // ===========================================================================
+  // Compare Tool
+  // ===========================================================================
+
+  describe('Compare Tool', () => {
+    const compareResult = async (input: unknown) => {
+      const result = await server.compare(input);
+      if (result.isError) {
+        throw new Error(JSON.parse(result.content[0].text).error);
+      }
+      return JSON.parse(result.content[0].text);
+    };
+
+    const LONG = 'This item is far too long because it keeps going well past the comfortable line length limit for reading';
+    const DRAFT = [
+      { text: 'Keep each item short enough to scan' },
+      { text: LONG },
+      { text: 'Start every item with a strong verb' },
+      { text: 'Put the key point at the start or end' },
+    ];
+
+    it('should report score, rule deltas and resolved issues', async () => {
+      const after = DRAFT.map((item) => (item.text === LONG ? { text: 'Stop items before they run long' } : item));
+      const result = await compareResult({
+        before: createInput({ items: DRAFT }),
+        after: createInput({ items: after }),
+      });
+
+      const lineLength = result.rules.find((r: any) => r.rule === 'LINE_LENGTH');
+      expect(lineLength.delta).toBeGreaterThan(0);
+      expect(lineLength.delta).toBe(lineLength.earned_after - lineLength.earned_before);
+      expect(result.score_delta).toBe(result.score_after - result.score_before);
+      expect(result.resolved.some((i: any) => i.rule === 'LINE_LENGTH' && i.item_text === LONG)).toBe(true);
+      expect(result.summary).toContain(`Score ${result.score_before} → ${result.score_after}`);
+      expect(result.sections).toBeUndefined();
+    });
+
+    it('should match issues across reordered items', async () => {
+      const result = await compareResult({
+        before: createInput({ items: DRAFT }),
+        after: createInput({ items: [...DRAFT].reverse() }),
+      });
+
+      expect(result.resolved).toEqual([]);
+      expect(result.introduced).toEqual([]);
+      const moved = result.unchanged.find((i: any) => i.rule === 'LINE_LENGTH' && i.item_text === LONG);
+      expect(moved).toMatchObject({ item_index_before: 1, item_index_after: 2 });
+    });
+
+    it('should report introduced issues', async () => {
+      const result = await compareResult({
+        before: createInput({ items: DRAFT.filter((item) => item.text !== LONG) }),
+        after: createInput({ items: DRAFT }),
+      });
+      expect(result.introduced.some((i: any) => i.rule === 'LINE_LENGTH' && i.item_index_after === 1)).toBe(true);
+      expect(result.score_delta).toBeLessThan(0);
+    });
+
+    it('should diff each section by title', async () => {
+      const result = await compareResult({
+        before: createInput({ sections: [createSection('Kept', DRAFT), createSection('Dropped', createItems(4))] }),
+        after: createInput({ sections: [createSection('Added', createItems(4)), createSection('Kept', DRAFT.slice(0, 3))] }),
+      });
+
+      expect(result.sections.map((s: any) => [s.title, s.status])).toEqual([
+        ['Added', 'added'],
+        ['Kept', 'matched'],
+        ['Dropped', 'removed'],
+      ]);
+      const kept = result.sections[1];
+      expect(kept.score_delta).toBe(kept.score_after - kept.score_before);
+      expect(kept.unchanged.some((i: any) => i.rule === 'LINE_LENGTH' && i.section === 'Kept')).toBe(true);
+      expect(result.sections[2].score_after).toBeUndefined();
+    });
+
+    it('should name the draft that fails validation', async () => {
+      const result = await server.compare({ before: createInput({ items: DRAFT }), after: { items: [] } });
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toMatch(/^after: /);
+    });
+
+    it('should require both drafts', async () => {
+      const result = await server.compare({ before: createInput({ items: DRAFT }) });
+      expect(JSON.parse(result.content[0].text).error).toBe('Must provide the "after" draft');
+    });
+  });
+
+  // ===========================================================================
+  // Batch Tool
+  // ===========================================================================
+
+  describe('Batch Tool', () => {
+    const batchResult = async (input: unknown) => {
+      const result = await server.batch(input);
+      if (result.isError) {
+        throw new Error(JSON.parse(result.content[0].text).error);
+      }
+      return JSON.parse(result.content[0].text);
+    };
+
+    const GOOD = createInput({ items: createItems(5) });
+    const LONG = createInput({ items: createItems(12) });
+
+    it('should return each analysis with aggregate statistics', async () => {
+      const result = await batchResult({
+        entries: [
+          { id: 'good', input: GOOD },
+          { id: 'long', input: LONG },
+          { id: 'good-2', input: GOOD },
+        ],
+      });
+
+      expect(result.entry_count).toBe(3);
+      expect(result.analyzed_count).toBe(3);
+      expect(result.results.map((r: any) => r.id)).toEqual(['good', 'long', 'good-2']);
+
+      const good = await parseResult(server, GOOD);
+      const long = await parseResult(server, LONG);
+      expect(result.results[1].analysis.overall_score).toBe(long.overall_score);
+      expect(result.score_distribution).toMatchObject({
+        min: long.overall_score,
+        max: good.overall_score,
+        median: good.overall_score,
+      });
+      expect(result.score_distribution.histogram.reduce((sum: number, b: any) => sum + b.count, 0)).toBe(3);
+      expect(Object.values(result.grade_counts).reduce((a: any, b: any) => a + b, 0)).toBe(3);
+      expect(result.top_violations.find((v: any) => v.rule === 'LIST_LENGTH')).toMatchObject({
+        count: 1,
+        entries: 1,
+        errors: 1,
+      });
+      const counts = result.top_violations.map((v: any) => v.count);
+      expect(counts).toEqual([...counts].sort((a, b) => b - a));
+    });
+
+    it('should report malformed entries without failing the batch', async () => {
+      const result = await batchResult({
+        entries: [
+          { id: 'good', input: GOOD },
+          { id: 'empty', input: { items: [] } },
+          { input: GOOD },
+          { id: 'good', input: GOOD },
+          'not an entry',
+        ],
+      });
+
+      expect(result.analyzed_count).toBe(1);
+      expect(result.failed_count).toBe(4);
+      expect(result.results[1]).toMatchObject({ index: 1, id: 'empty' });
+      expect(result.results[1].error).toContain('title');
+      expect(result.results[2].error).toBe('Entry must have a non-empty "id" string');
+      expect(result.results[3].error).toBe('Duplicate id "good"');
+      expect(result.results[4]).toEqual({ index: 4, error: 'Entry must be an object' });
+      expect(result.summary).toContain('4 failed validation');
+    });
+
+    it('should omit the distribution when nothing could be analyzed', async () => {
+      const result = await batchResult({ entries: [{ id: 'bad', input: {} }] });
+      expect(result.score_distribution).toBeUndefined();
+      expect(result.top_violations).toEqual([]);
+    });
+
+    it('should reject a missing or empty entries array', async () => {
+      expect((await server.batch({})).isError).toBe(true);
+      expect((await server.batch({ entries: [] })).isError).toBe(true);
+    });
+  });
+
+  // ===========================================================================
+  // Rank Tool
+  // ===========================================================================
+
+  describe('Rank Tool', () => {
+    const rankResult = async (input: unknown) => {
+      const result = await server.rank(input);
+      if (result.isError) {
+        throw new Error(JSON.parse(result.content[0].text).error);
+      }
+      return JSON.parse(result.content[0].text);
+    };
+
+    it('should rank candidates with their analyses', async () => {
+      const long = createInput({ title: 'Too Long', items: createItems(12) });
+      const good = createInput({ title: 'Good', items: createItems(5) });
+      const result = await rankResult({ candidates: [long, good] });
+
+      expect(result.winner_index).toBe(1);
+      expect(result.ranking.map((c: any) => c.title)).toEqual(['Good', 'Too Long']);
+      expect(result.ranking[1]).toMatchObject({ rank: 2, index: 0, error_count: 1, item_count_distance: 7 });
+      expect(result.ranking[0].overall_score).toBe((await parseResult(server, good)).overall_score);
+      expect(result.decided_by).toBe('score');
+      expect(result.explanation).toContain('LIST_LENGTH +');
+    });
+
+    it('should use the closeness to the optimal item count on ties', async () => {
+      const four = createInput({ title: 'Four', items: createItems(4) });
+      const five = createInput({ title: 'Five', items: createItems(5) });
+      const result = await rankResult({ candidates: [four, five] });
+      expect(result.ranking.map((c: any) => c.overall_score)).toEqual([100, 100]);
+      expect(result.decided_by).toBe('item_count');
+      expect(result.ranking[0].title).toBe('Five');
+    });
+
+    it('should name the invalid candidate', async () => {
+      const result = await server.rank({ candidates: [createInput({ items: createItems(5) }), { items: [] }] });
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toMatch(/^candidates\[1\]: /);
+    });
+
+    it('should reject a missing or empty candidates array', async () => {
+      expect((await server.rank({})).isError).toBe(true);
+      expect((await server.rank({ candidates: [] })).isError).toBe(true);
+    });
+  });
+
   // ===========================================================================
   // Sections Mode
   // ===========================================================================
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { groupCount, splitItems } from '../src/split.js';
+import { LIST_LENGTH } from '../src/constants.js';
+import type { BulletItem } from '../src/types.js';
+
+const LIMITS = {
+  MIN_ITEMS: LIST_LENGTH.MIN_ITEMS,
+  OPTIMAL_ITEMS: LIST_LENGTH.OPTIMAL_ITEMS,
+  MAX_ITEMS: LIST_LENGTH.MAX_ITEMS,
+  HARD_MAX_ITEMS: LIST_LENGTH.HARD_MAX_ITEMS,
+};
+
+const toItems = (texts: string[]): BulletItem[] => texts.map((text) => ({ text }));
+
+const MIXED = toItems([
+  'Write unit tests for the parser module',
+  'Deploy the service to the staging cluster',
+  'Write integration tests for the API layer',
+  'Monitor error rates after each deployment',
+  'Review test coverage before merging',
+  'Deploy database migrations before the service',
+  'Document the public API endpoints',
+  'Roll back the deployment when error rates spike',
+  'Document configuration options in the README',
+  'Add API examples to the documentation site',
+  'Run flaky tests in isolation',
+]);
+
+describe('List Splitting', () => {
+  describe('groupCount', () => {
+    it('should aim for groups of about OPTIMAL_ITEMS', () => {
+      expect(groupCount(10, LIMITS)).toBe(2);
+      expect(groupCount(11, LIMITS)).toBe(3);
+      expect(groupCount(30, LIMITS)).toBe(6);
+    });
+  });
+
+  describe('splitItems', () => {
+    it('should group items by shared words and leading terms', () => {
+      const groups = splitItems(MIXED, LIMITS);
+      expect(groups.map((g) => g.indices)).toEqual([
+        [0, 2, 4, 10],
+        [1, 3, 5, 7],
+        [6, 8, 9],
+      ]);
+      expect(groups.map((g) => g.heading)).toEqual(['Tests', 'Deploy', 'Document']);
+      expect(groups[2].shared_terms).toContain('API');
+    });
+
+    it('should keep every group within MIN_ITEMS and MAX_ITEMS', () => {
+      const items = toItems(Array.from({ length: 23 }, (_, i) => `Unrelated point number ${i + 1} here`));
+      const groups = splitItems(items, LIMITS);
+      expect(groups.every((g) => g.indices.length >= 3 && g.indices.length <= 7)).toBe(true);
+      expect(groups.flatMap((g) => g.indices).sort((a, b) => a - b)).toEqual(items.map((_, i) => i));
+    });
+
+    it('should fall back to numbered headings when items share no words', () => {
+      const items = toItems(['Alpha', 'Bravo', 'Charlie', 'Delta', 'Echo', 'Foxtrot', 'Golf', 'Hotel']);
+      const groups = splitItems(items, LIMITS);
+      expect(groups.map((g) => g.heading)).toEqual(['Group 1', 'Group 2']);
+    });
+  });
+});
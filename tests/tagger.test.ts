@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { lookupTags, tagWords, tokenize } from '../src/tagger.js';
+
+describe('Part-of-Speech Tagger', () => {
+  describe('lookupTags', () => {
+    it('should tag closed-class words from the lexicon', () => {
+      expect(lookupTags('The')).toEqual(['determiner']);
+      expect(lookupTags('are')).toEqual(['be']);
+      expect(lookupTags('should')).toEqual(['modal']);
+      expect(lookupTags('via')).toEqual(['preposition']);
+    });
+
+    it('should keep every reading of ambiguous words', () => {
+      expect(lookupTags('test')).toEqual(['verb', 'noun']);
+      expect(lookupTags('clear')).toEqual(['verb', 'adjective']);
+      expect(lookupTags('updates')).toEqual(['plural', 'verb-s']);
+    });
+
+    it('should recognize inflected and irregular verb forms', () => {
+      expect(lookupTags('validates')).toEqual(['verb-s']);
+      expect(lookupTags('stopped')).toEqual(['verb-past', 'participle']);
+      expect(lookupTags('written')).toEqual(['participle']);
+      expect(lookupTags('deploying')).toEqual(['gerund']);
+    });
+
+    it('should fall back to suffixes for unknown words', () => {
+      expect(lookupTags('quickly')).toEqual(['adverb']);
+      expect(lookupTags('portable')).toEqual(['adjective']);
+      expect(lookupTags('dashboards')).toEqual(['plural']);
+      expect(lookupTags('latency')).toEqual(['noun']);
+      expect(lookupTags('status')).toEqual(['noun']);
+      expect(lookupTags('string')).toEqual(['noun']);
+    });
+
+    it('should recognize comparatives of known adjectives', () => {
+      expect(lookupTags('cleaner')).toEqual(['adjective']);
+      expect(lookupTags('bigger')).toEqual(['adjective']);
+      expect(lookupTags('easier')).toEqual(['adjective']);
+      expect(lookupTags('server')).toEqual(['noun']);
+    });
+  });
+
+  describe('tagWords', () => {
+    const tags = (text: string) => tagWords(text).map((word) => word.tag);
+
+    it('should read an ambiguous opening word as a command', () => {
+      expect(tags('Test the login flow')).toEqual(['verb', 'determiner', 'noun', 'noun']);
+    });
+
+    it('should read an opening word as a subject when a verb follows', () => {
+      expect(tags('Cache invalidates stale entries')).toEqual(['noun', 'verb-s', 'adjective', 'plural']);
+    });
+
+    it('should use the previous word to settle ambiguity', () => {
+      expect(tags('Run the test')[2]).toBe('noun');
+      expect(tags('Tokens can change')[2]).toBe('verb');
+      expect(tags('Logs are rotated')[2]).toBe('participle');
+      expect(tags('Faster builds with caching')[1]).toBe('plural');
+      expect(tags('Email the team')[0]).toBe('verb');
+    });
+
+    it('should tag acronyms and capitalized words as proper nouns', () => {
+      expect(tags('Deploy APIs to Kubernetes')).toEqual(['verb', 'proper', 'preposition', 'proper']);
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should keep contractions, hyphens and numbers whole', () => {
+      expect(tokenize("Don’t ship up-to-date 3-7 items.")).toEqual(["Don't", 'ship', 'up-to-date', '3-7', 'items']);
+    });
+  });
+});
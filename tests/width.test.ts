@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { displayWidth, graphemes, stripInlineMarkup, visibleLength } from '../src/width.js';
+
+describe('Display Width', () => {
+  describe('stripInlineMarkup', () => {
+    it('should keep link and image text but drop URLs', () => {
+      expect(stripInlineMarkup('See [the guide](https://example.com/a/very/long/path)')).toBe('See the guide');
+      expect(stripInlineMarkup('![Logo](logo.png) and [docs][ref]')).toBe('Logo and docs');
+      expect(stripInlineMarkup('Visit <https://example.com>')).toBe('Visit https://example.com');
+    });
+
+    it('should drop emphasis markers and HTML tags', () => {
+      expect(stripInlineMarkup('**Bold**, *italic*, __strong__ and ~~gone~~')).toBe('Bold, italic, strong and gone');
+      expect(stripInlineMarkup('Use <b>HTTPS</b> &amp; HSTS<br/>')).toBe('Use HTTPS & HSTS');
+    });
+
+    it('should leave code spans and intraword underscores alone', () => {
+      expect(stripInlineMarkup('Run `a *b* c` in snake_case_dir')).toBe('Run a *b* c in snake_case_dir');
+      expect(stripInlineMarkup('Escape \\*stars\\*')).toBe('Escape *stars*');
+    });
+  });
+
+  describe('graphemes', () => {
+    it('should keep combining marks, skin tones, flags and joined emoji together', () => {
+      expect(graphemes('é')).toHaveLength(1);
+      expect(graphemes('👍🏽')).toHaveLength(1);
+      expect(graphemes('🇩🇪')).toHaveLength(1);
+      expect(graphemes('👨‍👩‍👧')).toHaveLength(1);
+    });
+
+    it('should keep tag sequences and conjoining Hangul jamo together', () => {
+      expect(graphemes('🏴\u{E0067}\u{E0062}\u{E0065}\u{E006E}\u{E0067}\u{E007F}')).toHaveLength(1);
+      expect(graphemes('\u1100\u1161\u11A8')).toHaveLength(1);
+    });
+  });
+
+  describe('displayWidth', () => {
+    it('should count wide characters and emoji as two columns', () => {
+      expect(displayWidth('日本語')).toBe(6);
+      expect(displayWidth('Ｆｕｌｌ')).toBe(8);
+      expect(displayWidth('👍🏽 ok')).toBe(5);
+      expect(displayWidth('❤️ ok')).toBe(5);
+      expect(displayWidth('🏴\u{E0067}\u{E0062}\u{E0065}\u{E006E}\u{E0067}\u{E007F} ok')).toBe(5);
+      expect(displayWidth('\u1100\u1161\u11A8')).toBe(2);
+    });
+
+    it('should count text symbols and accented letters as one column', () => {
+      expect(displayWidth('❤ ok')).toBe(4);
+      expect(displayWidth('Café')).toBe(4);
+      expect(displayWidth('a​b')).toBe(2);
+    });
+  });
+
+  it('should measure visible length after stripping markup', () => {
+    expect(visibleLength('**Fast** builds')).toBe(11);
+    expect(visibleLength('[中文](https://example.com)')).toBe(4);
+  });
+});